@@ -0,0 +1,72 @@
+/**
+ * @file sw.js
+ * @description Service worker that keeps the app usable offline.
+ * - Pages are fetched network-first and fall back to the cached app shell
+ * - Next.js build assets and public files are served cache-first (their URLs are content hashed or static)
+ * - The weather /api routes are fetched network-first, so the last viewed weather is still shown offline
+ * - The records backend is not cached here; the app keeps records in IndexedDB (src/lib/records/offline.ts)
+ * Bump VERSION to drop the caches of an older deployment.
+ */
+
+const VERSION = "v1"
+const SHELL_CACHE = `shell-${VERSION}`
+const API_CACHE = `api-${VERSION}`
+const SHELL_URL = "/"
+const CACHED_API_ROUTES = ["/api/current", "/api/forecast", "/api/air", "/api/geocode"]
+
+self.addEventListener("install", (event) => {
+  event.waitUntil(
+    caches
+      .open(SHELL_CACHE)
+      .then((cache) => cache.add(SHELL_URL))
+      .then(() => self.skipWaiting()),
+  )
+})
+
+self.addEventListener("activate", (event) => {
+  event.waitUntil(
+    caches
+      .keys()
+      .then((keys) => Promise.all(keys.filter((key) => key !== SHELL_CACHE && key !== API_CACHE).map((key) => caches.delete(key))))
+      .then(() => self.clients.claim()),
+  )
+})
+
+async function networkFirst(request, cacheName) {
+  const cache = await caches.open(cacheName)
+  try {
+    const response = await fetch(request)
+    if (response.ok) await cache.put(request, response.clone())
+    return response
+  } catch (error) {
+    const cached = await cache.match(request)
+    if (cached) return cached
+    throw error
+  }
+}
+
+async function cacheFirst(request) {
+  const cache = await caches.open(SHELL_CACHE)
+  const cached = await cache.match(request)
+  if (cached) return cached
+  const response = await fetch(request)
+  if (response.ok) await cache.put(request, response.clone())
+  return response
+}
+
+self.addEventListener("fetch", (event) => {
+  const { request } = event
+  if (request.method !== "GET") return
+  const url = new URL(request.url)
+  if (url.origin !== self.location.origin) return
+
+  if (request.mode === "navigate") {
+    event.respondWith(
+      networkFirst(request, SHELL_CACHE).catch(async () => (await caches.match(SHELL_URL)) ?? Response.error()),
+    )
+  } else if (url.pathname.startsWith("/_next/static/") || /\.(svg|png|jpe?g|webp|ico|woff2?)$/.test(url.pathname)) {
+    event.respondWith(cacheFirst(request))
+  } else if (CACHED_API_ROUTES.some((route) => url.pathname === route || url.pathname.startsWith(`${route}/`))) {
+    event.respondWith(networkFirst(request, API_CACHE))
+  }
+})
@@ -0,0 +1,12 @@
+import { NextResponse, type NextRequest } from "next/server"
+import { errorResponse, parseCoordinates, weatherService } from "@/lib/weather/server"
+
+/** GET /api/air?lat=&lon= - current air quality from the first available provider */
+export async function GET(request: NextRequest) {
+  try {
+    const coordinates = parseCoordinates(request.nextUrl.searchParams)
+    return NextResponse.json(await weatherService.getAirQuality(coordinates, { signal: request.signal }))
+  } catch (error) {
+    return errorResponse(error)
+  }
+}
@@ -0,0 +1,12 @@
+import { NextResponse, type NextRequest } from "next/server"
+import { errorResponse, parseCoordinates, reversePlace } from "@/lib/weather/server"
+
+/** GET /api/geocode/reverse?lat=&lon= - the place at the given coordinates */
+export async function GET(request: NextRequest) {
+  try {
+    const coordinates = parseCoordinates(request.nextUrl.searchParams)
+    return NextResponse.json(await reversePlace(coordinates, { signal: request.signal }))
+  } catch (error) {
+    return errorResponse(error)
+  }
+}
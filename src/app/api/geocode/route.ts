@@ -0,0 +1,28 @@
+import { NextResponse, type NextRequest } from "next/server"
+import { WeatherClientError } from "@/lib/weather/errors"
+import { errorResponse, requireParam, searchPlaces, searchPostalCode } from "@/lib/weather/server"
+
+/**
+ * GET /api/geocode?q= - up to 5 matching places
+ * GET /api/geocode?postalcode=&country= - up to 5 places with that postal code in the country (ISO 3166-1 alpha-2)
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const params = request.nextUrl.searchParams
+    if (params.has("postalcode")) {
+      const postalCode = requireParam(params, "postalcode")
+      const country = requireParam(params, "country")
+      if (postalCode.length > 20) throw new WeatherClientError("bad_request", "api", "postalcode must be at most 20 characters")
+      if (!/^[A-Za-z]{2}$/.test(country)) throw new WeatherClientError("bad_request", "api", "country must be a 2 letter country code")
+
+      return NextResponse.json(await searchPostalCode(postalCode, country, 5, { signal: request.signal }))
+    }
+
+    const query = requireParam(params, "q")
+    if (query.length > 200) throw new WeatherClientError("bad_request", "api", "q must be at most 200 characters")
+
+    return NextResponse.json(await searchPlaces(query, 5, { signal: request.signal }))
+  } catch (error) {
+    return errorResponse(error)
+  }
+}
@@ -0,0 +1,16 @@
+import { NextResponse, type NextRequest } from "next/server"
+import { errorResponse, parseHistoricalRange, weatherService } from "@/lib/weather/server"
+
+/**
+ * GET /api/historical/hourly?lat=&lon=&start=yyyy-MM-dd&end=yyyy-MM-dd
+ * Hourly history for a past date range, with times in the location's timezone.
+ * See parseHistoricalRange for the accepted ranges.
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const range = parseHistoricalRange(request.nextUrl.searchParams)
+    return NextResponse.json(await weatherService.getHistoricalHourly(range, { signal: request.signal }))
+  } catch (error) {
+    return errorResponse(error)
+  }
+}
@@ -0,0 +1,31 @@
+import { NextResponse, type NextRequest } from "next/server"
+import { WeatherClientError } from "@/lib/weather/errors"
+import { errorResponse, parseHistoricalRange, weatherService } from "@/lib/weather/server"
+import { isDailyVariableKey } from "@/lib/weather/variables"
+
+/**
+ * GET /api/historical?lat=&lon=&start=yyyy-MM-dd&end=yyyy-MM-dd[&variables=a,b]
+ * Daily history for a past date range, optionally with extra variables from the DAILY_VARIABLES registry.
+ * See parseHistoricalRange for the accepted ranges.
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const params = request.nextUrl.searchParams
+    const range = parseHistoricalRange(params)
+    const variables = (params.get("variables") ?? "").split(",").filter(Boolean)
+    const unknown = variables.filter((variable) => !isDailyVariableKey(variable))
+
+    if (unknown.length > 0) {
+      throw new WeatherClientError("bad_request", "api", `Unknown variables: ${unknown.join(", ")}`)
+    }
+
+    return NextResponse.json(
+      await weatherService.getHistorical(
+        { ...range, variables: variables.filter(isDailyVariableKey) },
+        { signal: request.signal },
+      ),
+    )
+  } catch (error) {
+    return errorResponse(error)
+  }
+}
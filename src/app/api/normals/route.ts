@@ -0,0 +1,20 @@
+import { NextResponse, type NextRequest } from "next/server"
+import { errorResponse, getClimateNormals, parseCoordinates } from "@/lib/weather/server"
+import type { ClimateNormals, ProviderResult } from "@/lib/weather/models"
+
+/**
+ * GET /api/normals?lat=&lon=
+ * 1991-2020 climate normals for every calendar day, averaged from the Open-Meteo archive.
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const coordinates = parseCoordinates(request.nextUrl.searchParams)
+    const result: ProviderResult<ClimateNormals> = {
+      provider: "open-meteo",
+      data: await getClimateNormals(coordinates, { signal: request.signal }),
+    }
+    return NextResponse.json(result)
+  } catch (error) {
+    return errorResponse(error)
+  }
+}
@@ -0,0 +1,22 @@
+import { NextResponse, type NextRequest } from "next/server"
+import { errorResponse, getWeatherTile, parseTileParams } from "@/lib/weather/server"
+
+/**
+ * GET /api/tiles/:layer/:z/:x/:y
+ * One PNG tile of a weather map layer (see WEATHER_LAYERS), proxied from OpenWeatherMap so its key stays on the server.
+ * OpenWeatherMap redraws its layers every few minutes, so browsers may keep a tile for ten.
+ */
+
+type RouteContext = { params: Promise<{ layer: string; z: string; x: string; y: string }> }
+
+export async function GET(request: NextRequest, { params }: RouteContext) {
+  try {
+    const { layer, ...tile } = parseTileParams(await params)
+    const image = await getWeatherTile(layer.owmLayer, tile, { signal: request.signal })
+    return new NextResponse(image, {
+      headers: { "Content-Type": "image/png", "Cache-Control": "public, max-age=600" },
+    })
+  } catch (error) {
+    return errorResponse(error)
+  }
+}
@@ -0,0 +1,15 @@
+import { NextResponse, type NextRequest } from "next/server"
+import { WeatherClientError } from "@/lib/weather/errors"
+import { errorResponse, requireParam, searchLocationVideos } from "@/lib/weather/server"
+
+/** GET /api/videos?q= - a few YouTube videos about the location */
+export async function GET(request: NextRequest) {
+  try {
+    const query = requireParam(request.nextUrl.searchParams, "q")
+    if (query.length > 200) throw new WeatherClientError("bad_request", "api", "q must be at most 200 characters")
+
+    return NextResponse.json(await searchLocationVideos(query, 3, { signal: request.signal }))
+  } catch (error) {
+    return errorResponse(error)
+  }
+}
@@ -0,0 +1,55 @@
+import { NextResponse, type NextRequest } from "next/server"
+import {
+  getRecord,
+  preconditionsMet,
+  readRecordInput,
+  recordErrorResponse,
+  recordNotFound,
+  recordResponse,
+  removeRecord,
+  replaceRecord,
+} from "@/lib/records/server"
+
+/**
+ * Local records backend, used by the app when NEXT_PUBLIC_BACKEND_URL is not set.
+ * GET /api/weather/:id - one record, with its ETag
+ * PUT /api/weather/:id - replaces a record; honours If-Match / If-Unmodified-Since and answers 412 with the
+ *   current record when it changed in the meantime
+ * DELETE /api/weather/:id
+ */
+
+type RouteContext = { params: Promise<{ id: string }> }
+
+export async function GET(_request: NextRequest, { params }: RouteContext) {
+  try {
+    const record = await getRecord((await params).id)
+    return record ? recordResponse(record) : recordNotFound()
+  } catch (error) {
+    console.error("Failed to read weather record:", error)
+    return recordErrorResponse(500, "Failed to read weather record")
+  }
+}
+
+export async function PUT(request: NextRequest, { params }: RouteContext) {
+  try {
+    const { input, error } = await readRecordInput(request)
+    if (!input) return error
+
+    const result = await replaceRecord((await params).id, input, (current) => preconditionsMet(request, current))
+    if (!result) return recordNotFound()
+    return result.updated ? recordResponse(result.record) : recordResponse(result.record, 412)
+  } catch (error) {
+    console.error("Failed to update weather record:", error)
+    return recordErrorResponse(500, "Failed to save weather record")
+  }
+}
+
+export async function DELETE(_request: NextRequest, { params }: RouteContext) {
+  try {
+    if (!(await removeRecord((await params).id))) return recordNotFound()
+    return NextResponse.json({ message: "Weather record deleted" })
+  } catch (error) {
+    console.error("Failed to delete weather record:", error)
+    return recordErrorResponse(500, "Failed to delete weather record")
+  }
+}
@@ -0,0 +1,27 @@
+import { NextResponse, type NextRequest } from "next/server"
+import { insertRecord, listRecords, readRecordInput, recordErrorResponse, recordResponse } from "@/lib/records/server"
+
+/**
+ * Local records backend, used by the app when NEXT_PUBLIC_BACKEND_URL is not set.
+ * GET /api/weather - every record, oldest first
+ * POST /api/weather - creates a record; the server assigns _id, createdAt and updatedAt
+ */
+export async function GET() {
+  try {
+    return NextResponse.json(await listRecords())
+  } catch (error) {
+    console.error("Failed to list weather records:", error)
+    return recordErrorResponse(500, "Failed to read weather records")
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const { input, error } = await readRecordInput(request)
+    if (!input) return error
+    return recordResponse(await insertRecord(input), 201)
+  } catch (error) {
+    console.error("Failed to create weather record:", error)
+    return recordErrorResponse(500, "Failed to save weather record")
+  }
+}
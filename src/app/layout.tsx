@@ -1,5 +1,8 @@
 import type { Metadata } from "next";
 import { Geist, Geist_Mono } from "next/font/google";
+import { Toaster } from "@/components/ui/toaster";
+import ServiceWorkerRegistration from "@/components/ServiceWorkerRegistration";
+import UnitPreferencesProvider from "@/components/UnitPreferencesProvider";
 import "./globals.css";
 
 const geistSans = Geist({
@@ -27,7 +30,9 @@ export default function RootLayout({
       <body
         className={`${geistSans.variable} ${geistMono.variable} antialiased`}
       >
-        {children}
+        <UnitPreferencesProvider>{children}</UnitPreferencesProvider>
+        <Toaster />
+        <ServiceWorkerRegistration />
       </body>
     </html>
   );
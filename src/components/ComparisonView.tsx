@@ -0,0 +1,296 @@
+"use client"
+
+import { useMemo, useState, type ReactNode } from "react"
+import { Loader2, Star, X } from "lucide-react"
+import { CartesianGrid, Legend, Line, LineChart, ResponsiveContainer, Tooltip, XAxis, YAxis } from "recharts"
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
+import { Button } from "@/components/ui/button"
+import LocationSearch from "@/components/LocationSearch"
+import { useUnits } from "@/hooks/use-units"
+import {
+  COMPARISON_COLORS,
+  MAX_COMPARISON_PINS,
+  MIN_COMPARISON_PINS,
+  type ComparisonPin,
+  type PinWeather,
+} from "@/hooks/use-comparison"
+import type { FavoriteLocation } from "@/lib/favorites"
+import {
+  aggregateDaily,
+  airQualityLabel,
+  fromMetric,
+  unitLabel,
+  type Coordinates,
+  type DailyForecast,
+  type UnitFormatter,
+} from "@/lib/weather"
+
+interface ComparisonViewProps {
+  pins: ComparisonPin[]
+  weather: Record<string, PinWeather>
+  /** Offered as one-click pins when not pinned yet */
+  favorites: FavoriteLocation[]
+  onAdd: (location: Coordinates & { name: string }) => void
+  onRemove: (id: string) => void
+}
+
+type ChartMetric = "high" | "low" | "precipitation"
+
+const CHART_METRICS: { key: ChartMetric; label: string }[] = [
+  { key: "high", label: "High" },
+  { key: "low", label: "Low" },
+  { key: "precipitation", label: "Precipitation" },
+]
+
+/** Days of forecast compared */
+const FORECAST_DAYS = 5
+
+/** Current-conditions rows of the table */
+const CURRENT_ROWS: { label: string; render: (weather: PinWeather, format: UnitFormatter) => ReactNode }[] = [
+  {
+    label: "Conditions",
+    render: ({ current }) =>
+      current && (
+        <span className="flex items-center gap-1 capitalize">
+          <img
+            src={`http://openweathermap.org/img/wn/${current.data.condition.icon}.png`}
+            alt=""
+            className="w-6 h-6"
+          />
+          {current.data.condition.description}
+        </span>
+      ),
+  },
+  { label: "Temperature", render: ({ current }, format) => current && format.temperature(current.data.temperature) },
+  { label: "Feels like", render: ({ current }, format) => current && format.temperature(current.data.feelsLike) },
+  { label: "Humidity", render: ({ current }, format) => current && format.value(current.data.humidity, "%", 0) },
+  { label: "Wind", render: ({ current }, format) => current && format.wind(current.data.windSpeed) },
+  { label: "Pressure", render: ({ current }, format) => current && format.pressure(current.data.pressure) },
+  {
+    label: "Air quality",
+    render: ({ air }) => air && `${airQualityLabel(air.data.index)} (${air.data.index})`,
+  },
+]
+
+/**
+ * Each pin's daily forecast lined up by local date. The dates are the earliest FORECAST_DAYS of all pins,
+ * so locations in far-apart timezones may miss the first or last day.
+ */
+function alignForecasts(pins: ComparisonPin[], weather: Record<string, PinWeather>) {
+  const daysByPin = pins.map((pin) => {
+    const forecast = weather[pin.id]?.forecast
+    const days = forecast ? aggregateDaily(forecast.data).slice(0, FORECAST_DAYS) : []
+    return new Map(days.map((day) => [day.date, day]))
+  })
+  const dates = Array.from(new Set(daysByPin.flatMap((days) => Array.from(days.keys()))))
+    .sort()
+    .slice(0, FORECAST_DAYS)
+  return { dates, daysByPin }
+}
+
+/**
+ * @file ComparisonView.tsx
+ * @description Side-by-side comparison of 2 to 6 pinned locations, for choosing between candidate sites.
+ * - A table lists each location's current conditions, air quality and 5-day high/low/precipitation in its own column
+ * - A chart overlays the locations' daily high, low or precipitation
+ * - Locations are pinned from the search box or from the favorites; every pin is also a marker on the map
+ * - Each location keeps one colour across the table, the chart and its map marker
+ *
+ * @component
+ * @param {Object} props
+ *  >  @param {Array} props.pins - Pinned locations, in pin order
+ *  >  @param {Object} props.weather - Loaded weather by pin id (see useComparison)
+ *  >  @param {Array} props.favorites - Favorite locations offered as quick pins
+ *  >  @param {Function} props.onAdd - Called with a location to pin
+ *  >  @param {Function} props.onRemove - Called with the id of a pin to remove
+ */
+export default function ComparisonView({ pins, weather, favorites, onAdd, onRemove }: ComparisonViewProps) {
+  const { units, format } = useUnits()
+  const [metric, setMetric] = useState<ChartMetric>("high")
+  const isFull = pins.length >= MAX_COMPARISON_PINS
+  const canCompare = pins.length >= MIN_COMPARISON_PINS
+  const unpinnedFavorites = favorites.filter((favorite) => !pins.some((pin) => pin.id === favorite.id))
+
+  const { dates, daysByPin } = useMemo(() => alignForecasts(pins, weather), [pins, weather])
+
+  const dayLabel = (date: string) =>
+    format.date(new Date(`${date}T12:00:00Z`), { weekday: "short", day: "numeric", timeZone: "UTC" })
+
+  const chartValue = (day: DailyForecast | undefined) => {
+    if (!day) return null
+    if (metric === "precipitation") return day.precipitationTotal
+    return fromMetric(metric === "high" ? day.tempMax : day.tempMin, "°C", units)
+  }
+  const chartUnit = metric === "precipitation" ? "mm" : unitLabel("°C", units)
+  const chartData = dates.map((date) => ({
+    date: dayLabel(date),
+    ...Object.fromEntries(pins.map((pin, index) => [pin.id, chartValue(daysByPin[index].get(date))])),
+  }))
+
+  return (
+    <Card className="bg-white/95 backdrop-blur w-[36rem] max-w-[calc(100vw-2rem)] max-h-[calc(100vh-6rem)] overflow-y-auto">
+      <CardHeader className="p-4 pb-2">
+        <CardTitle className="text-lg">Compare locations</CardTitle>
+      </CardHeader>
+      <CardContent className="p-4 pt-0 space-y-4">
+        <div className="space-y-2">
+          <LocationSearch
+            placeholder={isFull ? `At most ${MAX_COMPARISON_PINS} locations` : "Pin a location to compare"}
+            disabled={isFull}
+            onSelect={(suggestion) => onAdd({ lat: suggestion.lat, lon: suggestion.lon, name: suggestion.displayName })}
+            clearOnSelect
+          />
+          {!isFull && unpinnedFavorites.length > 0 && (
+            <div className="flex flex-wrap gap-1">
+              {unpinnedFavorites.map((favorite) => (
+                <Button
+                  key={favorite.id}
+                  type="button"
+                  variant="outline"
+                  size="sm"
+                  className="h-7 px-2 text-xs max-w-[12rem]"
+                  onClick={() => onAdd(favorite)}
+                >
+                  <Star className="h-3 w-3 mr-1 flex-shrink-0 fill-yellow-400 text-yellow-500" />
+                  <span className="truncate">{favorite.name}</span>
+                </Button>
+              ))}
+            </div>
+          )}
+          <ul className="flex flex-wrap gap-1">
+            {pins.map((pin, index) => (
+              <li key={pin.id} className="flex items-center gap-1 rounded-full border pl-2 text-xs max-w-[14rem]">
+                <PinBadge index={index} />
+                <span className="truncate">{pin.name}</span>
+                {weather[pin.id]?.isLoading && <Loader2 className="h-3 w-3 animate-spin text-gray-400" aria-label="Loading" />}
+                <Button
+                  type="button"
+                  variant="ghost"
+                  size="icon"
+                  className="h-6 w-6 rounded-full flex-shrink-0"
+                  aria-label={`Unpin ${pin.name}`}
+                  onClick={() => onRemove(pin.id)}
+                >
+                  <X className="h-3 w-3" />
+                </Button>
+              </li>
+            ))}
+          </ul>
+        </div>
+
+        {!canCompare ? (
+          <p className="py-4 text-center text-sm text-muted-foreground">
+            Pin at least {MIN_COMPARISON_PINS} locations to compare them side by side
+          </p>
+        ) : (
+          <>
+            <div className="overflow-x-auto rounded-md border">
+              <table className="w-full text-xs">
+                <thead className="text-gray-500">
+                  <tr>
+                    <th className="px-2 py-1 text-left font-medium" />
+                    {pins.map((pin, index) => (
+                      <th key={pin.id} className="px-2 py-1 text-left font-medium min-w-[6rem]">
+                        <span className="flex items-center gap-1">
+                          <PinBadge index={index} />
+                          <span className="truncate max-w-[8rem]" title={pin.name}>{pin.name}</span>
+                        </span>
+                      </th>
+                    ))}
+                  </tr>
+                </thead>
+                <tbody>
+                  {CURRENT_ROWS.map((row) => (
+                    <tr key={row.label} className="border-t">
+                      <th scope="row" className="px-2 py-1 text-left font-medium text-gray-500 whitespace-nowrap">{row.label}</th>
+                      {pins.map((pin) => {
+                        const pinWeather = weather[pin.id]
+                        return (
+                          <td key={pin.id} className="px-2 py-1">
+                            {(pinWeather && row.render(pinWeather, format)) || (pinWeather?.error ? "N/A" : "–")}
+                          </td>
+                        )
+                      })}
+                    </tr>
+                  ))}
+                  {dates.map((date) => (
+                    <tr key={date} className="border-t">
+                      <th scope="row" className="px-2 py-1 text-left font-medium text-gray-500 whitespace-nowrap">{dayLabel(date)}</th>
+                      {pins.map((pin, index) => {
+                        const day = daysByPin[index].get(date)
+                        return (
+                          <td key={pin.id} className="px-2 py-1 whitespace-nowrap">
+                            {day ? (
+                              <>
+                                {format.temperature(day.tempMax)} / {format.temperature(day.tempMin)}
+                                <div className="text-gray-500">{format.value(day.precipitationTotal, "mm")}</div>
+                              </>
+                            ) : (
+                              "–"
+                            )}
+                          </td>
+                        )
+                      })}
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+
+            <div className="space-y-2">
+              <div className="flex gap-1">
+                {CHART_METRICS.map((option) => (
+                  <Button
+                    key={option.key}
+                    type="button"
+                    size="sm"
+                    variant={metric === option.key ? "secondary" : "outline"}
+                    className="h-7 px-2 text-xs"
+                    aria-pressed={metric === option.key}
+                    onClick={() => setMetric(option.key)}
+                  >
+                    {option.label}
+                  </Button>
+                ))}
+              </div>
+              <div className="h-56">
+                <ResponsiveContainer width="100%" height="100%">
+                  <LineChart data={chartData} margin={{ top: 5, right: 5, bottom: 5, left: -15 }}>
+                    <CartesianGrid strokeDasharray="3 3" vertical={false} />
+                    <XAxis dataKey="date" tick={{ fontSize: 11 }} />
+                    <YAxis tick={{ fontSize: 11 }} unit={chartUnit} />
+                    <Tooltip
+                      formatter={(value) => (typeof value === "number" ? `${format.number(value)} ${chartUnit}` : value)}
+                    />
+                    <Legend wrapperStyle={{ fontSize: 11 }} />
+                    {pins.map((pin, index) => (
+                      <Line
+                        key={pin.id}
+                        type="monotone"
+                        dataKey={pin.id}
+                        name={pin.name}
+                        stroke={COMPARISON_COLORS[index]}
+                        connectNulls
+                      />
+                    ))}
+                  </LineChart>
+                </ResponsiveContainer>
+              </div>
+            </div>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
+
+function PinBadge({ index }: { index: number }) {
+  return (
+    <span
+      className="inline-flex h-4 w-4 flex-shrink-0 items-center justify-center rounded-full text-[10px] font-bold text-white"
+      style={{ backgroundColor: COMPARISON_COLORS[index] }}
+    >
+      {index + 1}
+    </span>
+  )
+}
@@ -0,0 +1,61 @@
+"use client"
+
+import { Button } from "@/components/ui/button"
+import { useUnits } from "@/hooks/use-units"
+import { DAILY_VARIABLES, unitLabel, type DailyVariableGroup, type DailyVariableKey } from "@/lib/weather"
+
+interface DailyVariablePickerProps {
+  selected: DailyVariableKey[]
+  onChange: (selected: DailyVariableKey[]) => void
+  disabled?: boolean
+}
+
+const GROUPS = Array.from(new Set(DAILY_VARIABLES.map((variable) => variable.group))) as DailyVariableGroup[]
+
+/**
+ * @file DailyVariablePicker.tsx
+ * @description Toggle list of the optional Open-Meteo daily variables a record can include, grouped by topic.
+ * Units are shown as the user's preferred ones.
+ *
+ * @component
+ * @param {Object} props
+ *  >  @param {Array} props.selected - Currently selected variable keys
+ *  >  @param {Function} props.onChange - Called with the new selection, kept in registry order
+ *  >  @param {boolean} props.disabled - Disables the toggles, e.g. while data is loading
+ */
+export default function DailyVariablePicker({ selected, onChange, disabled }: DailyVariablePickerProps) {
+  const { units } = useUnits()
+  const toggle = (key: DailyVariableKey) => {
+    const next = selected.includes(key) ? selected.filter((k) => k !== key) : [...selected, key]
+    onChange(DAILY_VARIABLES.map((variable) => variable.key).filter((k) => next.includes(k)))
+  }
+
+  return (
+    <div className="space-y-2">
+      {GROUPS.map((group) => (
+        <div key={group}>
+          <div className="text-xs text-gray-500 mb-1">{group}</div>
+          <div className="flex flex-wrap gap-1">
+            {DAILY_VARIABLES.filter((variable) => variable.group === group).map((variable) => {
+              const isSelected = selected.includes(variable.key)
+              return (
+                <Button
+                  key={variable.key}
+                  type="button"
+                  size="sm"
+                  variant={isSelected ? "default" : "outline"}
+                  className="h-7 px-2 text-xs"
+                  aria-pressed={isSelected}
+                  disabled={disabled}
+                  onClick={() => toggle(variable.key)}
+                >
+                  {variable.label} ({unitLabel(variable.unit, units)})
+                </Button>
+              )
+            })}
+          </div>
+        </div>
+      ))}
+    </div>
+  )
+}
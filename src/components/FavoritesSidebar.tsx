@@ -0,0 +1,144 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import { ChevronDown, ChevronUp, Star, X } from "lucide-react"
+import { Card } from "@/components/ui/card"
+import { Button } from "@/components/ui/button"
+import { Skeleton } from "@/components/ui/skeleton"
+import { useUnits } from "@/hooks/use-units"
+import type { FavoriteLocation } from "@/lib/favorites"
+import { fetchCurrent, type CurrentConditions } from "@/lib/weather"
+import { cn } from "@/lib/utils"
+
+/**
+ * How often the mini-cards refresh. Current conditions are cached for 10 minutes (see lib/weather/cache.ts),
+ * so most ticks are cache hits and a card picks up new conditions within a minute of its entry expiring.
+ */
+const REFRESH_INTERVAL_MS = 60 * 1000
+
+interface FavoritesSidebarProps {
+  favorites: FavoriteLocation[]
+  /** Favorite whose weather is shown, if any */
+  activeId?: string
+  onSelect: (favorite: FavoriteLocation) => void
+  onRemove: (id: string) => void
+}
+
+/**
+ * @file FavoritesSidebar.tsx
+ * @description Quick-switch list of the starred locations.
+ * - Each favorite is a mini-card with its current temperature and condition icon, refreshed every minute
+ * - Clicking a favorite shows its weather and recenters the map; the X removes it
+ * - Locations are starred from the WeatherCard header
+ *
+ * @component
+ * @param {Object} props
+ *  >  @param {Array} props.favorites - Starred locations, in the order they were added
+ *  >  @param {string} props.activeId - Id of the favorite currently shown (optional)
+ *  >  @param {Function} props.onSelect - Called with the clicked favorite
+ *  >  @param {Function} props.onRemove - Called with the id of the favorite to unstar
+ */
+export default function FavoritesSidebar({ favorites, activeId, onSelect, onRemove }: FavoritesSidebarProps) {
+  const [isCollapsed, setIsCollapsed] = useState(false)
+
+  if (favorites.length === 0) return null
+
+  return (
+    <Card className="bg-white/95 backdrop-blur w-80">
+      <button
+        type="button"
+        className="w-full flex items-center justify-between px-4 py-2 text-left"
+        aria-expanded={!isCollapsed}
+        onClick={() => setIsCollapsed(!isCollapsed)}
+      >
+        <span className="flex items-center gap-2 font-semibold">
+          <Star className="h-4 w-4 fill-yellow-400 text-yellow-500" />
+          Favorites
+        </span>
+        {isCollapsed ? <ChevronDown className="h-4 w-4" /> : <ChevronUp className="h-4 w-4" />}
+      </button>
+
+      {!isCollapsed && (
+        <ul className="max-h-64 overflow-y-auto border-t">
+          {favorites.map((favorite) => (
+            <FavoriteMiniCard
+              key={favorite.id}
+              favorite={favorite}
+              isActive={favorite.id === activeId}
+              onSelect={() => onSelect(favorite)}
+              onRemove={() => onRemove(favorite.id)}
+            />
+          ))}
+        </ul>
+      )}
+    </Card>
+  )
+}
+
+interface FavoriteMiniCardProps {
+  favorite: FavoriteLocation
+  isActive: boolean
+  onSelect: () => void
+  onRemove: () => void
+}
+
+function FavoriteMiniCard({ favorite, isActive, onSelect, onRemove }: FavoriteMiniCardProps) {
+  const { format } = useUnits()
+  const [current, setCurrent] = useState<CurrentConditions | null>(null)
+  const [failed, setFailed] = useState(false)
+  const { lat, lon } = favorite
+
+  useEffect(() => {
+    const controller = new AbortController()
+    const refresh = async () => {
+      try {
+        const result = await fetchCurrent({ lat, lon }, { signal: controller.signal })
+        setCurrent(result.data)
+        setFailed(false)
+      } catch (error) {
+        if (controller.signal.aborted) return
+        console.error("Error fetching favorite weather:", error)
+        setFailed(true)
+      }
+    }
+
+    refresh()
+    const timer = setInterval(refresh, REFRESH_INTERVAL_MS)
+    return () => {
+      clearInterval(timer)
+      controller.abort()
+    }
+  }, [lat, lon])
+
+  return (
+    <li className={cn("flex items-center border-b last:border-0", isActive && "bg-gray-100")}>
+      <button
+        type="button"
+        className="flex flex-grow items-center gap-2 px-4 py-2 text-left min-w-0 hover:bg-gray-50"
+        aria-current={isActive || undefined}
+        onClick={onSelect}
+      >
+        {current ? (
+          <img
+            src={`http://openweathermap.org/img/wn/${current.condition.icon}.png`}
+            alt={current.condition.description}
+            className="w-8 h-8 flex-shrink-0"
+          />
+        ) : (
+          <Skeleton className={cn("w-8 h-8 flex-shrink-0 rounded-full", failed && "animate-none")} />
+        )}
+        <span className="flex-grow truncate text-sm">{favorite.name}</span>
+        <span className="text-sm font-medium">{current ? format.temperature(current.temperature) : "–"}</span>
+      </button>
+      <Button
+        variant="ghost"
+        size="icon"
+        className="h-8 w-8 mr-2 flex-shrink-0"
+        aria-label={`Remove ${favorite.name} from favorites`}
+        onClick={onRemove}
+      >
+        <X className="h-4 w-4" />
+      </Button>
+    </li>
+  )
+}
@@ -2,17 +2,37 @@
 
 import { useEffect, useRef, useState } from "react"
 import { Loader } from "@googlemaps/js-api-loader"
+import WeatherLayerControls from "@/components/WeatherLayerControls"
+import { weatherTileUrl, WEATHER_LAYER_MAX_ZOOM, type WeatherLayerId } from "@/lib/weather"
+
+export interface MapMarker {
+  id: string
+  position: { lat: number; lng: number }
+  /** Short text drawn on the marker, e.g. "1" */
+  label?: string
+  /** Tooltip on hover */
+  title?: string
+  /** Fill colour; the default Google pin is used without one */
+  color?: string
+}
 
 interface GoogleMapComponentProps {
   center: { lat: number; lng: number }
   zoom: number
+  markers?: MapMarker[]
+  /** Zoom and pan so every marker is visible whenever the markers change */
+  fitMarkers?: boolean
 }
 
+const DEFAULT_LAYER_OPACITY = 0.7
+
 /**
  * @file GoogleMapComponent.tsx
  * @description A React component that renders a Google Map with a marker at a specified location.
  * - Initializes and manages the Google Map instance
  * - Updates map center and zoom level based on props
+ * - Draws the given markers, optionally fitting the view around them
+ * - Overlays OpenWeatherMap weather layers as ImageMapTypes, picked in the WeatherLayerControls panel
  * 
  * @component
  * @param {Object} props
@@ -20,18 +40,24 @@ interface GoogleMapComponentProps {
  *       >  @param {number} props.center.lat - Latitude
  *       >  @param {number} props.center.lng - Longitude
  *  >  @param {number} props.zoom - The zoom level for the map
+ *  >  @param {Array} props.markers - Markers to draw (optional)
+ *  >  @param {boolean} props.fitMarkers - Fit the view around the markers when they change
  * 
- * @requires NEXT_PUBLIC_GOOGLE_API_KEY environment variable a google key that allows for the use of the Google Maps API
+ * @requires NEXT_PUBLIC_GOOGLE_MAPS_API_KEY environment variable a google key that allows for the use of the Google Maps API.
+ *   The Maps JavaScript API has to load in the browser, so this key is public: restrict it to the app's HTTP referrers.
  */
 
-export default function GoogleMapComponent({ center, zoom }: GoogleMapComponentProps) {
+export default function GoogleMapComponent({ center, zoom, markers, fitMarkers = false }: GoogleMapComponentProps) {
   const mapRef = useRef<HTMLDivElement>(null)
   const [map, setMap] = useState<google.maps.Map | null>(null)
+  const [weatherLayers, setWeatherLayers] = useState<WeatherLayerId[]>([])
+  const [layerOpacity, setLayerOpacity] = useState(DEFAULT_LAYER_OPACITY)
+  const overlays = useRef(new Map<WeatherLayerId, google.maps.ImageMapType>())
 
   useEffect(() => {
     const initMap = async () => {
       const loader = new Loader({
-        apiKey: process.env.NEXT_PUBLIC_GOOGLE_API_KEY as string,
+        apiKey: process.env.NEXT_PUBLIC_GOOGLE_MAPS_API_KEY as string,
         version: "weekly",
       })
 
@@ -59,6 +85,99 @@ export default function GoogleMapComponent({ center, zoom }: GoogleMapComponentP
     }
   }, [center, zoom, map])
 
-  return <div ref={mapRef} className="w-full h-full" />
+  useEffect(() => {
+    if (!map || !markers || markers.length === 0) return
+
+    // Classic markers, because advanced markers need a map ID configured in the Cloud console
+    const instances = markers.map(
+      (marker) =>
+        new google.maps.Marker({
+          map,
+          position: marker.position,
+          title: marker.title,
+          label: marker.label ? { text: marker.label, color: "#ffffff", fontWeight: "bold" } : undefined,
+          icon: marker.color
+            ? {
+                path: google.maps.SymbolPath.CIRCLE,
+                scale: 12,
+                fillColor: marker.color,
+                fillOpacity: 1,
+                strokeColor: "#ffffff",
+                strokeWeight: 2,
+              }
+            : undefined,
+        }),
+    )
+
+    if (fitMarkers) {
+      const bounds = new google.maps.LatLngBounds()
+      for (const marker of markers) bounds.extend(marker.position)
+      if (markers.length > 1) map.fitBounds(bounds, 80)
+      else map.setCenter(markers[0].position)
+    }
+
+    return () => instances.forEach((instance) => instance.setMap(null))
+  }, [map, markers, fitMarkers])
+
+  // A new map starts without overlays, so the ones drawn on the previous map are dropped
+  useEffect(() => {
+    if (!map) return
+    const current = overlays.current
+    return () => {
+      map.overlayMapTypes.clear()
+      current.clear()
+    }
+  }, [map])
+
+  // Only the toggled layers are added or removed, so the other visible layers keep their loaded tiles
+  useEffect(() => {
+    if (!map) return
+    const current = overlays.current
+
+    current.forEach((overlay, id) => {
+      if (weatherLayers.includes(id)) return
+      const index = map.overlayMapTypes.getArray().indexOf(overlay)
+      if (index !== -1) map.overlayMapTypes.removeAt(index)
+      current.delete(id)
+    })
+
+    for (const id of weatherLayers) {
+      if (current.has(id)) continue
+      const overlay = new google.maps.ImageMapType({
+        getTileUrl: (coord, zoom) => {
+          const tiles = 2 ** zoom
+          if (coord.y < 0 || coord.y >= tiles) return null
+          // The map repeats horizontally, so wrap x back into the tile range
+          return weatherTileUrl(id, zoom, ((coord.x % tiles) + tiles) % tiles, coord.y)
+        },
+        tileSize: new google.maps.Size(256, 256),
+        maxZoom: WEATHER_LAYER_MAX_ZOOM,
+        name: id,
+      })
+      map.overlayMapTypes.push(overlay)
+      current.set(id, overlay)
+    }
+  }, [map, weatherLayers])
+
+  // Opacity is applied to the existing overlays so moving the slider doesn't reload their tiles
+  useEffect(() => {
+    overlays.current.forEach((overlay) => overlay.setOpacity(layerOpacity))
+  }, [layerOpacity, weatherLayers, map])
+
+  const toggleWeatherLayer = (id: WeatherLayerId) =>
+    setWeatherLayers((current) => (current.includes(id) ? current.filter((layer) => layer !== id) : [...current, id]))
+
+  return (
+    <div className="relative w-full h-full">
+      <div ref={mapRef} className="w-full h-full" />
+      <WeatherLayerControls
+        className="absolute bottom-6 left-4 z-40"
+        active={weatherLayers}
+        opacity={layerOpacity}
+        onToggle={toggleWeatherLayer}
+        onOpacityChange={setLayerOpacity}
+      />
+    </div>
+  )
 }
 
@@ -0,0 +1,165 @@
+"use client"
+
+import { useMemo, useState } from "react"
+import {
+  Bar,
+  CartesianGrid,
+  ComposedChart,
+  Legend,
+  Line,
+  ResponsiveContainer,
+  Tooltip,
+  XAxis,
+  YAxis,
+} from "recharts"
+import { Button } from "@/components/ui/button"
+import { useUnits } from "@/hooks/use-units"
+import type { DailyWeather } from "@/lib/records/types"
+import { aggregateWeather, bucketForDays, type AggregationBucket } from "@/lib/records/aggregate"
+import { fromMetric, unitLabel } from "@/lib/weather"
+
+interface HistoricalWeatherChartProps {
+  temperatures: DailyWeather[]
+  height?: number
+}
+
+type SeriesKey = "mean" | "max" | "min" | "humidity" | "windSpeed"
+
+interface SeriesConfig {
+  key: SeriesKey
+  label: string
+  /** Metric unit the values are stored in; shown in the user's preferred unit */
+  unit: string
+  color: string
+  axis: "temperature" | "humidity" | "wind"
+  type: "line" | "bar"
+}
+
+const BUCKET_LABELS: Record<AggregationBucket, { format: Intl.DateTimeFormatOptions; caption?: string }> = {
+  day: { format: { month: "short", day: "numeric" } },
+  week: { format: { month: "short", day: "numeric", year: "numeric" }, caption: "Weekly averages" },
+  month: { format: { month: "short", year: "numeric" }, caption: "Monthly averages" },
+  year: { format: { year: "numeric" }, caption: "Yearly averages" },
+}
+
+const SERIES: SeriesConfig[] = [
+  { key: "mean", label: "Mean", unit: "°C", color: "#2563eb", axis: "temperature", type: "line" },
+  { key: "max", label: "Max", unit: "°C", color: "#ef4444", axis: "temperature", type: "line" },
+  { key: "min", label: "Min", unit: "°C", color: "#0ea5e9", axis: "temperature", type: "line" },
+  { key: "humidity", label: "Humidity", unit: "%", color: "#14b8a6", axis: "humidity", type: "bar" },
+  { key: "windSpeed", label: "Wind", unit: "m/s", color: "#a855f7", axis: "wind", type: "line" },
+]
+
+/**
+ * @file HistoricalWeatherChart.tsx
+ * @description Chart of a record's daily weather over its date range.
+ * - Mean/min/max temperature as lines, humidity as bars and wind speed as a dashed line, each on its own axis
+ * - Hover tooltips show every visible series for the day
+ * - Each series can be toggled on or off
+ * - Long ranges are averaged per week, month or year so the chart stays readable (max/min keep the extremes)
+ * - Values, units and dates follow the user's unit and locale preferences
+ *
+ * @component
+ * @param {Object} props
+ *  >  @param {Array} props.temperatures - Daily weather rows of a record
+ *  >  @param {number} props.height - Chart height in pixels (default 240)
+ */
+export default function HistoricalWeatherChart({ temperatures, height = 240 }: HistoricalWeatherChartProps) {
+  const { units, format } = useUnits()
+  const [visible, setVisible] = useState<Record<SeriesKey, boolean>>({
+    mean: true,
+    max: true,
+    min: true,
+    humidity: false,
+    windSpeed: false,
+  })
+
+  const bucket = bucketForDays(temperatures.length)
+
+  const data = useMemo(
+    () =>
+      aggregateWeather(temperatures, bucket).map((row) => {
+        const convert = (value: number | null, unit: string) => (value === null ? null : fromMetric(value, unit, units))
+        return {
+          date: format.date(row.date, BUCKET_LABELS[bucket].format),
+          mean: convert(row.temperature, "°C"),
+          max: convert(row.tempMax, "°C"),
+          min: convert(row.tempMin, "°C"),
+          humidity: row.humidity,
+          windSpeed: convert(row.windSpeed, "m/s"),
+        }
+      }),
+    [temperatures, bucket, units, format],
+  )
+
+  const toggle = (key: SeriesKey) => setVisible((prev) => ({ ...prev, [key]: !prev[key] }))
+  const activeSeries = SERIES.filter((series) => visible[series.key])
+  const showAxis = (axis: SeriesConfig["axis"]) => activeSeries.some((series) => series.axis === axis)
+
+  return (
+    <div className="space-y-2">
+      <div className="flex flex-wrap gap-1">
+        {SERIES.map((series) => (
+          <Button
+            key={series.key}
+            type="button"
+            size="sm"
+            variant={visible[series.key] ? "secondary" : "outline"}
+            className="h-7 px-2 text-xs"
+            aria-pressed={visible[series.key]}
+            onClick={() => toggle(series.key)}
+          >
+            <span className="mr-1 inline-block h-2 w-2 rounded-full" style={{ backgroundColor: series.color }} />
+            {series.label}
+          </Button>
+        ))}
+        {BUCKET_LABELS[bucket].caption && (
+          <span className="ml-auto self-center text-xs text-gray-500">{BUCKET_LABELS[bucket].caption}</span>
+        )}
+      </div>
+
+      <div style={{ height }}>
+        <ResponsiveContainer width="100%" height="100%">
+          <ComposedChart data={data} margin={{ top: 5, right: 5, bottom: 5, left: -15 }}>
+            <CartesianGrid strokeDasharray="3 3" vertical={false} />
+            <XAxis dataKey="date" tick={{ fontSize: 11 }} minTickGap={16} />
+            <YAxis yAxisId="temperature" hide={!showAxis("temperature")} tick={{ fontSize: 11 }} unit={unitLabel("°C", units)} />
+            <YAxis yAxisId="humidity" orientation="right" hide={!showAxis("humidity")} domain={[0, 100]} tick={{ fontSize: 11 }} unit="%" />
+            <YAxis yAxisId="wind" orientation="right" hide={!showAxis("wind")} tick={{ fontSize: 11 }} />
+            <Tooltip
+              formatter={(value, name) => {
+                const series = SERIES.find((s) => s.label === name)
+                return typeof value === "number" ? `${format.number(value)} ${series ? unitLabel(series.unit, units) : ""}` : value
+              }}
+            />
+            <Legend wrapperStyle={{ fontSize: 11 }} />
+            {activeSeries.map((series) =>
+              series.type === "bar" ? (
+                <Bar
+                  key={series.key}
+                  yAxisId={series.axis}
+                  dataKey={series.key}
+                  name={series.label}
+                  fill={series.color}
+                  fillOpacity={0.4}
+                />
+              ) : (
+                <Line
+                  key={series.key}
+                  yAxisId={series.axis}
+                  type="monotone"
+                  dataKey={series.key}
+                  name={series.label}
+                  stroke={series.color}
+                  strokeDasharray={series.axis === "wind" ? "4 2" : undefined}
+                  dot={data.length <= 31}
+                  connectNulls
+                />
+              ),
+            )}
+          </ComposedChart>
+        </ResponsiveContainer>
+      </div>
+    </div>
+  )
+}
@@ -1,123 +1,141 @@
 "use client"
 
-import { useState } from "react"
-import { AlertCircle, InfoIcon } from "lucide-react"
+import { Suspense, useCallback, useEffect, useMemo, useState } from "react"
+import { AlertCircle, Columns2, InfoIcon } from "lucide-react"
 import Layout from "@/components/Layout"
-import GoogleMapComponent from "@/components/GoogleMapComponent"
+import GoogleMapComponent, { type MapMarker } from "@/components/GoogleMapComponent"
 import WeatherForm from "@/components/WeatherForm"
 import WeatherCard from "@/components/WeatherCard"
 import WeatherRecordsCard from "@/components/WeatherRecordsCard"
+import UnitPreferencesMenu from "@/components/UnitPreferencesMenu"
+import FavoritesSidebar from "@/components/FavoritesSidebar"
+import ComparisonView from "@/components/ComparisonView"
 import {Button} from "@/components/ui/button"
-import axios from "axios"
+import {
+  describeWeatherError,
+  fetchAirQuality,
+  fetchCurrent,
+  fetchForecast,
+  isWeatherClientError,
+  type AirQuality,
+  type CurrentConditions,
+  type Forecast,
+  type ProviderResult,
+} from "@/lib/weather"
+import { idbGet, idbPut } from "@/lib/idb"
+import { favoriteId } from "@/lib/favorites"
+import { useFavorites } from "@/hooks/use-favorites"
+import { COMPARISON_COLORS, useComparison } from "@/hooks/use-comparison"
+
+/** Key in the IndexedDB "state" store of the last location whose weather was shown */
+const LAST_LOCATION_KEY = "lastLocation"
+
+interface LastLocation {
+  lat: number
+  lon: number
+  displayName: string
+}
 
+/** Fetch weather data from the first available provider - This will be passed to multiple components as the data sounce */
+const fetchWeatherData = async (lat: number, lon: number) => {
+  try {
+    const coordinates = { lat, lon }
+    const [currentWeather, forecastData, airPollution] = await Promise.all([
+      fetchCurrent(coordinates),
+      fetchForecast(coordinates),
+      // Open-Meteo has no air quality over oceans and remote areas; the WeatherCard shows it as unavailable
+      fetchAirQuality(coordinates).catch((error) => {
+        console.error("Air quality fetch error:", error)
+        return null
+      }),
+    ])
+
+    return { currentWeather, forecastData, airPollution }
+  } catch (error) {
+    console.error("Data fetch error:", error)
+    throw error
+  }
+}
 
 /**
  * @file HomePage.tsx
  * @description The main page component that integrates weather information, maps, and user interface elements.
  *  - Manages state for weather data, forecast, air pollution, and map center
- *  - Handles weather data fetching and error states
+ *  - Handles weather data fetching and error states, falling back to Open-Meteo when OpenWeatherMap is unavailable
  *  - Renders the main layout including GoogleMapComponent, WeatherForm, WeatherCard, and WeatherRecordsCard
- * @requires NEXT_PUBLIC_OPENWEATHERMAP_API_KEY environment variable to access OpenWeatherMap API
+ *  - Weather data is loaded through the app's /api routes so provider keys stay on the server
+ *  - The last viewed location is reopened on the next visit; offline, its weather comes from the service worker cache
+ *  - The settings menu next to the title picks the units and locale of every weather display
+ *  - Starred locations are listed in the FavoritesSidebar; picking one loads its weather like a search would
+ *  - Comparison mode replaces the single-location cards with the ComparisonView and marks every pin on the map
  */
 
-
-const OPENWEATHERMAP_API_KEY = process.env.NEXT_PUBLIC_OPENWEATHERMAP_API_KEY
-
-
-interface WeatherData {
-  name: string;
-  coord: { lat: number; lon: number };
-  main: object;
-  weather: object[];
-  wind: object;
-  visibility: number;
-  clouds: object;
-}
-interface ForecastData {
-  city: { name: string };
-  list: object[];
-}
 export default function Home() {
-  const [weatherData, setWeatherData] = useState<WeatherData | null>(null)
-  const [forecastData, setForecastData] = useState<ForecastData | null>(null)
-  const [airPollutionData, setAirPollutionData] = useState(null)
+  const [weatherData, setWeatherData] = useState<ProviderResult<CurrentConditions> | null>(null)
+  const [forecastData, setForecastData] = useState<ProviderResult<Forecast> | null>(null)
+  const [airPollutionData, setAirPollutionData] = useState<ProviderResult<AirQuality> | null>(null)
   const [mapCenter, setMapCenter] = useState({ lat: 40.7128, lng: -74.006 })
   const [error, setError] = useState<string | null>(null)
   const [isLoading, setIsLoading] = useState(false)
   const [showInfo, setShowInfo] = useState(false)
+  const [location, setLocation] = useState<LastLocation | null>(null)
+  const { favorites, isFavorite, toggleFavorite, removeFavorite } = useFavorites()
+  const [isComparing, setIsComparing] = useState(false)
+  const comparison = useComparison()
+  const { pins, addPin } = comparison
 
-  {/* Fetch weather data from OpenWeatherMap API - This will be passed to multiple components as the data sounce */}
-  const fetchWeatherData = async (lat: number, lon: number) => {
-    try {
-      const [currentWeatherResponse, forecastResponse, airPollutionResponse] = await Promise.all([
-        axios.get(`https://api.openweathermap.org/data/2.5/weather`, {
-          params: {
-            lat,
-            lon,
-            appid: OPENWEATHERMAP_API_KEY,
-            units: "metric",
-          },
-        }),
-        axios.get(`https://api.openweathermap.org/data/2.5/forecast`, {
-          params: {
-            lat,
-            lon,
-            appid: OPENWEATHERMAP_API_KEY,
-            units: "metric",
-          },
-        }),
-        axios.get(`https://api.openweathermap.org/data/2.5/air_pollution`, {
-          params: {
-            lat,
-            lon,
-            appid: OPENWEATHERMAP_API_KEY,
-          },
-        }),
-      ])
-  
-      const currentWeather = currentWeatherResponse.data
-      const forecastData = forecastResponse.data
-      const airPollutionData = airPollutionResponse.data
-  
-      return {
-        currentWeather: {
-          name: currentWeather.name,
-          coord: currentWeather.coord,
-          main: currentWeather.main,
-          weather: currentWeather.weather,
-          wind: currentWeather.wind,
-          visibility: currentWeather.visibility,
-          clouds: currentWeather.clouds,
-        },
-        forecastData: {
-          city: { name: forecastData.city.name },
-          list: forecastData.list.filter((_: object, index: number) => index % 8 === 0),
-        },
-        airPollution: airPollutionData.list[0],
-      }
-    } catch (error) {
-      console.error("Data fetch error:", error)
-      throw error
-    }
-  }
-
-  const handleWeatherSubmit = async (lat: number, lon: number, displayName: string) => {
+  const handleWeatherSubmit = useCallback(async (lat: number, lon: number, displayName: string) => {
     setError(null)
     setIsLoading(true)
 
     try {
       const { currentWeather, forecastData, airPollution } = await fetchWeatherData(lat, lon)
-      setWeatherData({ ...currentWeather, name: displayName })
+      setWeatherData({ ...currentWeather, data: { ...currentWeather.data, name: displayName } })
       setForecastData(forecastData)
       setAirPollutionData(airPollution)
   
       setMapCenter({ lat, lng: lon })
+      setLocation({ lat, lon, displayName })
+      void idbPut<LastLocation>("state", LAST_LOCATION_KEY, { lat, lon, displayName })
     } catch (error) {
       console.error("Weather fetch error:", error)
-      setError("Failed to fetch weather data. Please try again.")
+      setError(
+        isWeatherClientError(error)
+          ? `Failed to fetch weather data. ${describeWeatherError(error)}`
+          : "Failed to fetch weather data. Please try again.",
+      )
     } finally {
       setIsLoading(false)
     }
+  }, [])
+
+  useEffect(() => {
+    idbGet<LastLocation>("state", LAST_LOCATION_KEY).then((last) => {
+      if (last) handleWeatherSubmit(last.lat, last.lon, last.displayName)
+    })
+  }, [handleWeatherSubmit])
+
+  const markers = useMemo<MapMarker[]>(() => {
+    if (isComparing) {
+      return pins.map((pin, index) => ({
+        id: pin.id,
+        position: { lat: pin.lat, lng: pin.lon },
+        label: String(index + 1),
+        title: pin.name,
+        color: COMPARISON_COLORS[index],
+      }))
+    }
+    return location
+      ? [{ id: "location", position: { lat: location.lat, lng: location.lon }, title: location.displayName }]
+      : []
+  }, [isComparing, pins, location])
+
+  const toggleComparison = () => {
+    // The location on screen is the natural first candidate
+    if (!isComparing && location && pins.length === 0) {
+      addPin({ lat: location.lat, lon: location.lon, name: location.displayName })
+    }
+    setIsComparing(!isComparing)
   }
 
   const handleError = (message: string) => {
@@ -130,7 +148,7 @@ export default function Home() {
         <div className="flex-grow relative">
 
           {/* GoogleMapComponent: Main Map Component */}
-          <GoogleMapComponent center={mapCenter} zoom={10} />
+          <GoogleMapComponent center={mapCenter} zoom={10} markers={markers} fitMarkers={isComparing} />
 
           <div className="fixed top-4 left-1/2 transform -translate-x-1/2 z-50 flex items-center space-x-4">
             <h1 className="text-2xl font-bold">Weather App</h1>
@@ -138,6 +156,16 @@ export default function Home() {
             <Button variant="outline" size="icon" onClick={() => setShowInfo(true)}>
               <InfoIcon className="h-4 w-4" />
             </Button>
+            <Button
+              variant={isComparing ? "secondary" : "outline"}
+              size="icon"
+              aria-label="Compare locations"
+              aria-pressed={isComparing}
+              onClick={toggleComparison}
+            >
+              <Columns2 className="h-4 w-4" />
+            </Button>
+            <UnitPreferencesMenu />
           </div>
 
           {/* 
@@ -145,22 +173,42 @@ export default function Home() {
           */}
           <WeatherForm onSubmit={handleWeatherSubmit} onError={handleError} />
 
-          {weatherData && (
-            <div className="fixed left-4 top-20 z-30 space-y-4">
+          <div className="fixed left-4 top-20 z-30 space-y-4">
+            {isComparing ? (
+              <ComparisonView
+                pins={pins}
+                weather={comparison.weather}
+                favorites={favorites}
+                onAdd={addPin}
+                onRemove={comparison.removePin}
+              />
+            ) : (
+              <FavoritesSidebar
+                favorites={favorites}
+                activeId={location ? favoriteId(location) : undefined}
+                onSelect={(favorite) => handleWeatherSubmit(favorite.lat, favorite.lon, favorite.name)}
+                onRemove={removeFavorite}
+              />
+            )}
+            {!isComparing && weatherData && (
               <WeatherCard
-              // @ts-expect-error can be null
                 weatherData={weatherData}
                 forecastData={forecastData}
                 airPollution={airPollutionData}
-
                 isLoading={isLoading}
+                isFavorite={location ? isFavorite(location) : false}
+                onToggleFavorite={
+                  location ? () => toggleFavorite({ lat: location.lat, lon: location.lon, name: location.displayName }) : undefined
+                }
               />
-            </div>
-          )}
+            )}
+          </div>
           
           {/* WeatherRecordsCard: User can create, look, delete and export record data for weather in certain locations */}
           <div className="fixed right-4 top-20 z-30 space-y-4">
-            <WeatherRecordsCard />
+            <Suspense>
+              <WeatherRecordsCard />
+            </Suspense>
           </div>
 
           {error && (
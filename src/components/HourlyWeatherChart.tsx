@@ -0,0 +1,144 @@
+"use client"
+
+import { useMemo, useState } from "react"
+import { parseISO } from "date-fns"
+import { ChevronLeft, ChevronRight } from "lucide-react"
+import {
+  Bar,
+  CartesianGrid,
+  ComposedChart,
+  Legend,
+  Line,
+  ResponsiveContainer,
+  Tooltip,
+  XAxis,
+  YAxis,
+} from "recharts"
+import { Button } from "@/components/ui/button"
+import { useUnits } from "@/hooks/use-units"
+import type { HourlyWeather } from "@/lib/records/types"
+import { fromMetric, unitLabel } from "@/lib/weather"
+
+interface HourlyWeatherChartProps {
+  hours: HourlyWeather[]
+  height?: number
+}
+
+/**
+ * @file HourlyWeatherChart.tsx
+ * @description Hour-by-hour view of an hourly record, one local day at a time.
+ * - Temperature and wind as lines, precipitation as bars, each on its own axis
+ * - A table below the chart lists every hour of the day, for matching conditions to a time of day
+ * - Times are the location's local time, as stored in the record
+ * - Temperature and wind are shown in the user's preferred units, numbers and dates in their locale
+ *
+ * @component
+ * @param {Object} props
+ *  >  @param {Array} props.hours - Hourly rows of a record
+ *  >  @param {number} props.height - Chart height in pixels (default 220)
+ */
+export default function HourlyWeatherChart({ hours, height = 220 }: HourlyWeatherChartProps) {
+  const days = useMemo(() => Array.from(new Set(hours.map((hour) => hour.time.slice(0, 10)))), [hours])
+  const [dayIndex, setDayIndex] = useState(0)
+  const { units, format } = useUnits()
+  const temperatureUnit = unitLabel("°C", units)
+  const windUnit = unitLabel("m/s", units)
+  const convert = (value: number | undefined, unit: string) =>
+    value === undefined ? undefined : fromMetric(value, unit, units)
+
+  const currentIndex = Math.min(dayIndex, Math.max(days.length - 1, 0))
+  const day = days[currentIndex]
+  const dayHours = useMemo(() => hours.filter((hour) => hour.time.startsWith(day ?? "")), [hours, day])
+
+  const data = dayHours.map((hour) => ({
+    time: hour.time.slice(11, 16),
+    temperature: convert(hour.temperature, "°C") ?? null,
+    precipitation: hour.precipitation ?? null,
+    windSpeed: convert(hour.windSpeed, "m/s") ?? null,
+  }))
+
+  if (!day) return <p className="text-sm text-gray-500">No hourly data for this record</p>
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center justify-between">
+        <Button
+          type="button"
+          variant="ghost"
+          size="icon"
+          className="h-7 w-7"
+          onClick={() => setDayIndex(currentIndex - 1)}
+          disabled={currentIndex === 0}
+          aria-label="Previous day"
+        >
+          <ChevronLeft className="h-4 w-4" />
+        </Button>
+        <span className="text-sm font-medium">{format.date(parseISO(day), { weekday: "short", month: "short", day: "numeric", year: "numeric" })}</span>
+        <Button
+          type="button"
+          variant="ghost"
+          size="icon"
+          className="h-7 w-7"
+          onClick={() => setDayIndex(currentIndex + 1)}
+          disabled={currentIndex >= days.length - 1}
+          aria-label="Next day"
+        >
+          <ChevronRight className="h-4 w-4" />
+        </Button>
+      </div>
+
+      <div style={{ height }}>
+        <ResponsiveContainer width="100%" height="100%">
+          <ComposedChart data={data} margin={{ top: 5, right: 5, bottom: 5, left: -15 }}>
+            <CartesianGrid strokeDasharray="3 3" vertical={false} />
+            <XAxis dataKey="time" tick={{ fontSize: 11 }} interval={2} />
+            <YAxis yAxisId="temperature" tick={{ fontSize: 11 }} unit={temperatureUnit} />
+            <YAxis yAxisId="precipitation" orientation="right" tick={{ fontSize: 11 }} unit="mm" />
+            <YAxis yAxisId="wind" orientation="right" tick={{ fontSize: 11 }} unit={windUnit} />
+            <Tooltip formatter={(value) => (typeof value === "number" ? format.number(value) : value)} />
+            <Legend wrapperStyle={{ fontSize: 11 }} />
+            <Bar yAxisId="precipitation" dataKey="precipitation" name="Precipitation (mm)" fill="#0ea5e9" fillOpacity={0.4} />
+            <Line yAxisId="temperature" type="monotone" dataKey="temperature" name={`Temperature (${temperatureUnit})`} stroke="#ef4444" dot={false} connectNulls />
+            <Line
+              yAxisId="wind"
+              type="monotone"
+              dataKey="windSpeed"
+              name={`Wind (${windUnit})`}
+              stroke="#a855f7"
+              strokeDasharray="4 2"
+              dot={false}
+              connectNulls
+            />
+          </ComposedChart>
+        </ResponsiveContainer>
+      </div>
+
+      <div className="max-h-48 overflow-y-auto rounded-md border">
+        <table className="w-full text-xs">
+          <thead className="sticky top-0 bg-white text-gray-500">
+            <tr>
+              <th className="px-2 py-1 text-left font-medium">Time</th>
+              <th className="px-2 py-1 text-right font-medium">Temp ({temperatureUnit})</th>
+              <th className="px-2 py-1 text-right font-medium">Humidity (%)</th>
+              <th className="px-2 py-1 text-right font-medium">Precip. (mm)</th>
+              <th className="px-2 py-1 text-right font-medium">Wind ({windUnit})</th>
+              <th className="px-2 py-1 text-left font-medium">Conditions</th>
+            </tr>
+          </thead>
+          <tbody>
+            {dayHours.map((hour) => (
+              <tr key={hour.time} className="border-t">
+                <td className="px-2 py-1">{hour.time.slice(11, 16)}</td>
+                <td className="px-2 py-1 text-right">{format.number(convert(hour.temperature, "°C"))}</td>
+                <td className="px-2 py-1 text-right">{format.number(hour.humidity, 0)}</td>
+                <td className="px-2 py-1 text-right">{format.number(hour.precipitation)}</td>
+                <td className="px-2 py-1 text-right">{format.number(convert(hour.windSpeed, "m/s"), units.wind === "bft" ? 0 : 1)}</td>
+                <td className="px-2 py-1 capitalize">{hour.description ?? "–"}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,199 @@
+"use client"
+
+import { useState } from "react"
+import { AlertCircle, FileUp, Loader2 } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog"
+import { toast } from "@/hooks/use-toast"
+import { useUnits } from "@/hooks/use-units"
+import { parseRecordFile, type ImportResult } from "@/lib/records/import"
+import { saveNewRecord } from "@/lib/records/offline"
+import type { WeatherRecord } from "@/lib/records/types"
+import { getDailyVariable } from "@/lib/weather/variables"
+import { fromMetric, unitLabel } from "@/lib/weather"
+
+interface ImportRecordDialogProps {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  onImported: (record: WeatherRecord) => void
+}
+
+/** Rows shown in the preview table; the full file is still imported */
+const PREVIEW_ROWS = 10
+/** Errors listed before the rest are summarised */
+const MAX_LISTED_ERRORS = 50
+
+/**
+ * @file ImportRecordDialog.tsx
+ * @description Imports a record from a JSON or CSV file exported by WeatherRecordsCard.
+ * - Parses and validates the file in the browser, listing every problem with its line (CSV) or path (JSON)
+ * - Previews the location, range and first rows before anything is saved, in the user's units
+ * - Creates the record on the backend only when the file has no errors
+ *
+ * @component
+ * @param {Object} props
+ *  >  @param {boolean} props.open - Whether the dialog is shown
+ *  >  @param {Function} props.onOpenChange - Called when the dialog opens or closes
+ *  >  @param {Function} props.onImported - Called with the record returned by the backend
+ */
+export default function ImportRecordDialog({ open, onOpenChange, onImported }: ImportRecordDialogProps) {
+  const [fileName, setFileName] = useState<string | null>(null)
+  const [result, setResult] = useState<ImportResult | null>(null)
+  const [isImporting, setIsImporting] = useState(false)
+  const { units, format } = useUnits()
+  const temperatureUnit = unitLabel("°C", units)
+
+  const reset = () => {
+    setFileName(null)
+    setResult(null)
+  }
+
+  const handleOpenChange = (next: boolean) => {
+    if (!next) reset()
+    onOpenChange(next)
+  }
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0]
+    if (!file) return
+
+    setFileName(file.name)
+    try {
+      setResult(parseRecordFile(file.name, await file.text()))
+    } catch (error) {
+      console.error("Import read error", error)
+      setResult({ record: null, errors: [{ message: "The file could not be read" }] })
+    }
+  }
+
+  const handleImport = async () => {
+    if (!result?.record || result.errors.length > 0) return
+
+    setIsImporting(true)
+    try {
+      const { value: created, queued } = await saveNewRecord(result.record)
+      onImported(created)
+      toast({
+        title: "Success",
+        description: queued
+          ? `Imported ${created.location.name}; it will be uploaded when the backend is reachable`
+          : `Imported ${created.location.name}`,
+      })
+      handleOpenChange(false)
+    } catch (error) {
+      console.error("Error importing record", error)
+      toast({
+        title: "Error",
+        description: "Failed to import weather record",
+        variant: "destructive",
+      })
+    } finally {
+      setIsImporting(false)
+    }
+  }
+
+  const record = result?.record
+  const errors = result?.errors ?? []
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogContent className="max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>Import Weather Record</DialogTitle>
+          <DialogDescription>
+            Choose a JSON or CSV file exported from this app. The file is checked before anything is saved.
+          </DialogDescription>
+        </DialogHeader>
+
+        <Input type="file" accept=".json,.csv,application/json,text/csv" onChange={handleFileChange} />
+
+        {fileName && errors.length > 0 && (
+          <div className="rounded-md border border-red-200 bg-red-50 p-3 text-sm text-red-700">
+            <div className="flex items-center font-medium mb-1">
+              <AlertCircle className="h-4 w-4 mr-2" />
+              {errors.length} {errors.length === 1 ? "problem" : "problems"} in {fileName}
+            </div>
+            <div className="max-h-40 overflow-y-auto">
+              <ul className="space-y-0.5 text-xs">
+                {errors.slice(0, MAX_LISTED_ERRORS).map((error, index) => (
+                  <li key={index}>
+                    {error.line !== undefined && <span className="font-mono">Line {error.line}: </span>}
+                    {error.path && <span className="font-mono">{error.path}: </span>}
+                    {error.message}
+                  </li>
+                ))}
+                {errors.length > MAX_LISTED_ERRORS && <li>…and {errors.length - MAX_LISTED_ERRORS} more</li>}
+              </ul>
+            </div>
+          </div>
+        )}
+
+        {record && (
+          <div className="space-y-2 text-sm">
+            <div>
+              <div className="font-medium">{record.location.name}</div>
+              <div className="text-xs text-gray-500">
+                {record.location.coordinates.lat}, {record.location.coordinates.lon} ·{" "}
+                {format.date(record.dateRange.startDate)} - {format.date(record.dateRange.endDate)} ·{" "}
+                {record.temperatures.length} days
+                {record.hourly && ` · ${record.hourly.length} hours`}
+              </div>
+              {record.variables && record.variables.length > 0 && (
+                <div className="text-xs text-gray-500">
+                  Variables: {record.variables.map((key) => getDailyVariable(key).label).join(", ")}
+                </div>
+              )}
+            </div>
+            <div className="rounded-md border">
+              <table className="w-full text-xs">
+                <thead className="text-gray-500">
+                  <tr>
+                    <th className="px-2 py-1 text-left font-medium">Date</th>
+                    <th className="px-2 py-1 text-right font-medium">Mean ({temperatureUnit})</th>
+                    <th className="px-2 py-1 text-right font-medium">High ({temperatureUnit})</th>
+                    <th className="px-2 py-1 text-right font-medium">Low ({temperatureUnit})</th>
+                    <th className="px-2 py-1 text-right font-medium">Precip. (mm)</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {record.temperatures.slice(0, PREVIEW_ROWS).map((day) => (
+                    <tr key={day.date.toISOString()} className="border-t">
+                      <td className="px-2 py-1">{format.date(day.date)}</td>
+                      <td className="px-2 py-1 text-right">{format.number(fromMetric(day.temperature, "°C", units))}</td>
+                      <td className="px-2 py-1 text-right">{format.number(day.tempMax === undefined ? undefined : fromMetric(day.tempMax, "°C", units))}</td>
+                      <td className="px-2 py-1 text-right">{format.number(day.tempMin === undefined ? undefined : fromMetric(day.tempMin, "°C", units))}</td>
+                      <td className="px-2 py-1 text-right">{format.number(day.precipitation)}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+              {record.temperatures.length > PREVIEW_ROWS && (
+                <div className="border-t px-2 py-1 text-xs text-gray-500">
+                  …and {record.temperatures.length - PREVIEW_ROWS} more days
+                </div>
+              )}
+            </div>
+          </div>
+        )}
+
+        <DialogFooter>
+          <Button variant="secondary" onClick={() => handleOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button onClick={handleImport} disabled={!record || errors.length > 0 || isImporting}>
+            {isImporting ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <FileUp className="h-4 w-4 mr-2" />}
+            Import
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -0,0 +1,113 @@
+"use client"
+
+import { useEffect, useId } from "react"
+import { Loader2, MapPin, Search } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { cn } from "@/lib/utils"
+import { useLocationSearch, type LocationSearchOptions } from "@/hooks/use-location-search"
+
+interface LocationSearchProps extends LocationSearchOptions {
+  placeholder?: string
+  disabled?: boolean
+  className?: string
+  inputClassName?: string
+}
+
+/**
+ * @file LocationSearch.tsx
+ * @description Location input with debounced autocomplete from the geocoder, shared by every location picker.
+ * - Also takes coordinates, plus codes and postal codes with a country (see location-query.ts)
+ * - Follows the ARIA combobox pattern: the input owns a listbox and points at the highlighted option
+ * - Arrow keys move through the suggestions, Enter picks one (or searches right away), Escape closes the list
+ * - Works controlled (value / onValueChange) or on its own
+ *
+ * @component
+ * @param {Object} props
+ *  >  @param {Function} props.onSelect - Called with the chosen LocationSuggestion
+ *  >  @param {Function} props.onError - Called with a message when a search fails
+ *  >  @param {string} props.value - Controlled input text (optional)
+ *  >  @param {Function} props.onValueChange - Called with the new input text (optional)
+ *  >  @param {boolean} props.clearOnSelect - Empty the input after a selection
+ */
+export default function LocationSearch({
+  placeholder = "Place, postal code + country, coordinates or plus code",
+  disabled = false,
+  className,
+  inputClassName,
+  ...options
+}: LocationSearchProps) {
+  const search = useLocationSearch(options)
+  const listboxId = useId()
+  const optionId = (index: number) => `${listboxId}-option-${index}`
+  const activeOptionId = search.isOpen && search.activeIndex >= 0 ? optionId(search.activeIndex) : undefined
+
+  useEffect(() => {
+    if (activeOptionId) document.getElementById(activeOptionId)?.scrollIntoView({ block: "nearest" })
+  }, [activeOptionId])
+
+  return (
+    <div className={cn("relative", className)}>
+      <Input
+        type="text"
+        role="combobox"
+        aria-expanded={search.isOpen}
+        aria-controls={listboxId}
+        aria-autocomplete="list"
+        aria-activedescendant={activeOptionId}
+        autoComplete="off"
+        value={search.query}
+        onChange={(e) => search.setQuery(e.target.value)}
+        onKeyDown={search.handleKeyDown}
+        onBlur={search.close}
+        placeholder={placeholder}
+        disabled={disabled}
+        className={cn("pr-10", inputClassName)}
+      />
+      <Button
+        type="button"
+        variant="ghost"
+        size="icon"
+        className="absolute right-0 top-0 h-full"
+        aria-label="Search"
+        disabled={disabled || search.isSearching || search.query.trim().length < search.minLength}
+        onClick={search.searchNow}
+      >
+        {search.isSearching ? <Loader2 className="h-4 w-4 animate-spin" /> : <Search className="h-4 w-4" />}
+      </Button>
+
+      <ul
+        id={listboxId}
+        role="listbox"
+        aria-label="Location suggestions"
+        hidden={!search.isOpen}
+        className="absolute z-20 mt-1 max-h-60 w-full overflow-y-auto rounded-md border bg-white shadow-md"
+      >
+        {search.suggestions.map((suggestion, index) => (
+          <li
+            key={suggestion.placeId}
+            id={optionId(index)}
+            role="option"
+            aria-selected={index === search.activeIndex}
+            className={cn(
+              "flex cursor-pointer items-center p-2 text-sm hover:bg-gray-100",
+              index === search.activeIndex && "bg-gray-100",
+            )}
+            // Keep focus in the input so the list isn't closed by its blur before the click lands
+            onMouseDown={(e) => e.preventDefault()}
+            onMouseEnter={() => search.setActiveIndex(index)}
+            onClick={() => search.select(suggestion)}
+          >
+            <MapPin className="h-4 w-4 mr-2 flex-shrink-0" />
+            <span className="truncate">{suggestion.displayName}</span>
+          </li>
+        ))}
+        {search.suggestions.length === 0 && (
+          <li role="presentation" className="p-2 text-sm text-gray-500">
+            No locations found. Please try a different search term.
+          </li>
+        )}
+      </ul>
+    </div>
+  )
+}
@@ -0,0 +1,308 @@
+"use client"
+
+import { useEffect, useMemo, useState } from "react"
+import { parseISO } from "date-fns"
+import { Download, Loader2 } from "lucide-react"
+import { Bar, CartesianGrid, ComposedChart, Legend, Line, ResponsiveContainer, Tooltip, XAxis, YAxis } from "recharts"
+import { Button } from "@/components/ui/button"
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog"
+import VirtualizedList from "@/components/VirtualizedList"
+import { useUnits } from "@/hooks/use-units"
+import {
+  compareRecords,
+  compareWithNormals,
+  comparisonFileName,
+  comparisonToCSV,
+  type ComparedValues,
+} from "@/lib/records/compare"
+import type { WeatherRecord } from "@/lib/records/types"
+import {
+  convertTemperatureDifference,
+  describeWeatherError,
+  fetchClimateNormals,
+  fromMetric,
+  isWeatherClientError,
+  unitLabel,
+  type ClimateNormals,
+} from "@/lib/weather"
+
+interface RecordComparisonDialogProps {
+  /** One record, compared with its climate normals, or two records; the dialog is open while set */
+  records: WeatherRecord[] | null
+  onClose: () => void
+  onDownload: (content: BlobPart, fileName: string, contentType: string) => void
+}
+
+type ChartMetric = Exclude<keyof ComparedValues, "date">
+
+const CHART_METRICS: { key: ChartMetric; label: string; unit: string }[] = [
+  { key: "temperature", label: "Mean", unit: "°C" },
+  { key: "tempMax", label: "High", unit: "°C" },
+  { key: "tempMin", label: "Low", unit: "°C" },
+  { key: "precipitation", label: "Precipitation", unit: "mm" },
+]
+
+const COLOR_A = "#2563eb"
+const COLOR_B = "#f97316"
+const ROW_HEIGHT = 32
+
+/**
+ * @file RecordComparisonDialog.tsx
+ * @description Side-by-side comparison of two records, or of one record with the 1991–2020 climate normal of its location.
+ * - Overlays both sides day by day for the chosen metric, with their difference as bars
+ * - Totals: mean temperatures, highs and lows with their difference, precipitation totals and warmer/colder days
+ * - A per-day table lists both sides and the anomaly of the mean temperature
+ * - The normals are fetched when the dialog opens with a single record; closing it cancels the request
+ * - Exports the comparison as CSV in the user's temperature unit
+ *
+ * @component
+ * @param {Object} props
+ *  >  @param {Array|null} props.records - One or two records to compare; the dialog is open while set
+ *  >  @param {Function} props.onClose - Called when the dialog is dismissed
+ *  >  @param {Function} props.onDownload - Saves the exported CSV (content, file name, content type)
+ */
+export default function RecordComparisonDialog({ records, onClose, onDownload }: RecordComparisonDialogProps) {
+  const { units, format } = useUnits()
+  const [metric, setMetric] = useState<ChartMetric>("temperature")
+  const [normals, setNormals] = useState<ClimateNormals | null>(null)
+  const [error, setError] = useState<string | null>(null)
+
+  const recordA = records?.[0]
+  const recordB = records?.[1]
+
+  useEffect(() => {
+    setNormals(null)
+    setError(null)
+    if (!recordA || recordB) return
+
+    const controller = new AbortController()
+    fetchClimateNormals(recordA.location.coordinates, { signal: controller.signal })
+      .then((result) => setNormals(result.data))
+      .catch((error) => {
+        if (controller.signal.aborted) return
+        console.error("Climate normals error", error)
+        setError(isWeatherClientError(error) ? describeWeatherError(error) : "Failed to load the climate normals")
+      })
+    return () => controller.abort()
+  }, [recordA, recordB])
+
+  const comparison = useMemo(() => {
+    if (!recordA) return null
+    if (recordB) return compareRecords(recordA, recordB)
+    return normals ? compareWithNormals(recordA, normals) : null
+  }, [recordA, recordB, normals])
+
+  const chartMetric = CHART_METRICS.find((option) => option.key === metric) ?? CHART_METRICS[0]
+  const chartUnit = unitLabel(chartMetric.unit, units)
+
+  const chartData = useMemo(() => {
+    if (!comparison) return []
+    const isTemperature = chartMetric.unit === "°C"
+    const convert = (value: number | null | undefined) =>
+      value === null || value === undefined ? null : fromMetric(value, chartMetric.unit, units)
+
+    return comparison.days.map(({ day, a, b }) => {
+      const valueA = a?.[metric]
+      const valueB = b?.[metric]
+      const delta = valueA === null || valueA === undefined || valueB === null || valueB === undefined ? null : valueA - valueB
+      return {
+        // Normals share the calendar of A, so its dates label the axis; two records only share day numbers
+        label: comparison.againstNormals && a ? format.date(parseISO(a.date), { month: "short", day: "numeric" }) : `Day ${day}`,
+        a: convert(valueA),
+        b: convert(valueB),
+        difference: delta === null ? null : isTemperature ? convertTemperatureDifference(delta, units.temperature) : delta,
+      }
+    })
+  }, [comparison, chartMetric, metric, units, format])
+
+  const precipitationDifference = (value: number | null) =>
+    value === null ? "–" : `${value > 0 ? "+" : ""}${format.value(value, "mm")}`
+
+  const difference = (a: number | null, b: number | null) => (a === null || b === null ? null : a - b)
+
+  const exportCSV = () => {
+    if (!comparison) return
+    onDownload(comparisonToCSV(comparison, units), `${comparisonFileName(comparison)}.csv`, "text/csv")
+  }
+
+  const totals = comparison?.totals
+
+  return (
+    <Dialog open={records !== null} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="max-w-3xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>{recordB ? "Compare records" : "Compare with climate normal"}</DialogTitle>
+          <DialogDescription>
+            {comparison ? (
+              <>
+                <span style={{ color: COLOR_A }}>A: {comparison.labelA}</span>
+                <br />
+                <span style={{ color: COLOR_B }}>B: {comparison.labelB}</span>
+              </>
+            ) : (
+              recordA?.location.name
+            )}
+          </DialogDescription>
+        </DialogHeader>
+
+        {error ? (
+          <p className="text-sm text-red-600">{error}</p>
+        ) : !comparison || !totals ? (
+          <div className="flex items-center justify-center gap-2 py-10 text-sm text-gray-500">
+            <Loader2 className="h-4 w-4 animate-spin" />
+            Loading climate normals…
+          </div>
+        ) : (
+          <div className="space-y-4">
+            <div className="overflow-x-auto rounded-md border">
+              <table className="w-full text-sm">
+                <thead className="bg-gray-50 text-left text-xs text-gray-500">
+                  <tr>
+                    <th className="px-3 py-2 font-medium">Over {totals.days} days</th>
+                    <th className="px-3 py-2 font-medium">A</th>
+                    <th className="px-3 py-2 font-medium">B</th>
+                    <th className="px-3 py-2 font-medium">Difference</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {[
+                    { label: "Mean temperature", a: totals.meanA, b: totals.meanB },
+                    { label: "Mean high", a: totals.maxA, b: totals.maxB },
+                    { label: "Mean low", a: totals.minA, b: totals.minB },
+                  ].map((row) => (
+                    <tr key={row.label} className="border-t">
+                      <td className="px-3 py-2 font-medium">{row.label}</td>
+                      <td className="px-3 py-2">{format.temperature(row.a, 1)}</td>
+                      <td className="px-3 py-2">{format.temperature(row.b, 1)}</td>
+                      <td className="px-3 py-2">{format.temperatureDifference(difference(row.a, row.b))}</td>
+                    </tr>
+                  ))}
+                  <tr className="border-t">
+                    <td className="px-3 py-2 font-medium">Total precipitation</td>
+                    <td className="px-3 py-2">{format.value(totals.precipitationA, "mm")}</td>
+                    <td className="px-3 py-2">{format.value(totals.precipitationB, "mm")}</td>
+                    <td className="px-3 py-2">
+                      {precipitationDifference(difference(totals.precipitationA, totals.precipitationB))}
+                    </td>
+                  </tr>
+                </tbody>
+              </table>
+              <p className="border-t px-3 py-2 text-xs text-gray-500">
+                A was warmer on {totals.warmerDays} and colder on {totals.colderDays} of {totals.days} days
+              </p>
+            </div>
+
+            <div className="space-y-2">
+              <div className="flex gap-1">
+                {CHART_METRICS.map((option) => (
+                  <Button
+                    key={option.key}
+                    type="button"
+                    size="sm"
+                    variant={metric === option.key ? "secondary" : "outline"}
+                    className="h-7 px-2 text-xs"
+                    aria-pressed={metric === option.key}
+                    onClick={() => setMetric(option.key)}
+                  >
+                    {option.label}
+                  </Button>
+                ))}
+              </div>
+              <div className="h-56">
+                <ResponsiveContainer width="100%" height="100%">
+                  <ComposedChart data={chartData} margin={{ top: 5, right: 5, bottom: 5, left: -15 }}>
+                    <CartesianGrid strokeDasharray="3 3" vertical={false} />
+                    <XAxis dataKey="label" tick={{ fontSize: 11 }} minTickGap={16} />
+                    <YAxis yAxisId="value" tick={{ fontSize: 11 }} unit={chartUnit} />
+                    <YAxis yAxisId="difference" orientation="right" tick={{ fontSize: 11 }} />
+                    <Tooltip
+                      formatter={(value) => (typeof value === "number" ? `${format.number(value)} ${chartUnit}` : value)}
+                    />
+                    <Legend wrapperStyle={{ fontSize: 11 }} />
+                    <Bar yAxisId="difference" dataKey="difference" name="A − B" fill="#94a3b8" fillOpacity={0.5} />
+                    <Line
+                      yAxisId="value"
+                      type="monotone"
+                      dataKey="a"
+                      name="A"
+                      stroke={COLOR_A}
+                      dot={chartData.length <= 31}
+                      connectNulls
+                    />
+                    <Line
+                      yAxisId="value"
+                      type="monotone"
+                      dataKey="b"
+                      name="B"
+                      stroke={COLOR_B}
+                      strokeDasharray={comparison.againstNormals ? "4 2" : undefined}
+                      dot={chartData.length <= 31}
+                      connectNulls
+                    />
+                  </ComposedChart>
+                </ResponsiveContainer>
+              </div>
+            </div>
+
+            <div>
+              <div className="grid grid-cols-[3rem_1fr_1fr_1fr_1fr_1fr_1fr_1fr] gap-2 px-3 pb-1 text-xs font-medium text-gray-500">
+                <span>Day</span>
+                <span>A date</span>
+                <span>B date</span>
+                <span>A mean</span>
+                <span>B mean</span>
+                <span>Anomaly</span>
+                <span>A precip.</span>
+                <span>B precip.</span>
+              </div>
+              <VirtualizedList
+                className="rounded-md border"
+                height={Math.min(comparison.days.length * ROW_HEIGHT, 240)}
+                count={comparison.days.length}
+                rowHeight={ROW_HEIGHT}
+                renderRow={(index) => {
+                  const { day, a, b, anomaly } = comparison.days[index]
+                  return (
+                    <div className="grid h-full grid-cols-[3rem_1fr_1fr_1fr_1fr_1fr_1fr_1fr] items-center gap-2 border-b px-3 text-xs">
+                      <span className="text-gray-500">{day}</span>
+                      <span>{a?.date ?? "–"}</span>
+                      <span>{b?.date ?? "–"}</span>
+                      <span>{format.temperature(a?.temperature, 1)}</span>
+                      <span>{format.temperature(b?.temperature, 1)}</span>
+                      <span
+                        className={
+                          anomaly === null ? undefined : anomaly > 0 ? "text-red-600" : anomaly < 0 ? "text-blue-600" : undefined
+                        }
+                      >
+                        {format.temperatureDifference(anomaly)}
+                      </span>
+                      <span>{format.value(a?.precipitation, "mm")}</span>
+                      <span>{format.value(b?.precipitation, "mm")}</span>
+                    </div>
+                  )
+                }}
+              />
+            </div>
+          </div>
+        )}
+
+        <DialogFooter>
+          <Button variant="secondary" onClick={onClose}>
+            Close
+          </Button>
+          <Button onClick={exportCSV} disabled={!comparison}>
+            <Download className="h-4 w-4 mr-2" />
+            Export CSV
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
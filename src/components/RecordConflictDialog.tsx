@@ -0,0 +1,92 @@
+"use client"
+
+import { Button } from "@/components/ui/button"
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog"
+import { useUnits } from "@/hooks/use-units"
+import type { WeatherRecordInput } from "@/lib/records/api"
+import { diffRecords } from "@/lib/records/diff"
+import type { WeatherRecord } from "@/lib/records/types"
+
+export interface RecordConflict {
+  /** The edit that was rejected */
+  mine: WeatherRecordInput
+  /** The version now stored on the backend */
+  theirs: WeatherRecord
+}
+
+interface RecordConflictDialogProps {
+  conflict: RecordConflict | null
+  onKeepTheirs: () => void
+  onOverwrite: (conflict: RecordConflict) => void
+}
+
+/**
+ * @file RecordConflictDialog.tsx
+ * @description Shown when saving an edited record fails because someone else changed it first.
+ * - Lists the fields that differ between the local edit and the stored version
+ * - The user either keeps the stored version or overwrites it with their edit
+ *
+ * @component
+ * @param {Object} props
+ *  >  @param {Object|null} props.conflict - Rejected edit and current version; the dialog is open while set
+ *  >  @param {Function} props.onKeepTheirs - Discards the local edit
+ *  >  @param {Function} props.onOverwrite - Saves the local edit on top of the current version
+ */
+export default function RecordConflictDialog({ conflict, onKeepTheirs, onOverwrite }: RecordConflictDialogProps) {
+  const { format } = useUnits()
+  const diffs = conflict ? diffRecords(conflict.mine, conflict.theirs) : []
+
+  return (
+    <Dialog open={conflict !== null} onOpenChange={(open) => !open && onKeepTheirs()}>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle>This record was changed elsewhere</DialogTitle>
+          <DialogDescription>
+            {conflict?.theirs.updatedAt
+              ? `It was updated on ${format.date(conflict.theirs.updatedAt, { dateStyle: "medium", timeStyle: "short" })}, after you started editing.`
+              : "It was updated after you started editing."}
+          </DialogDescription>
+        </DialogHeader>
+
+        {diffs.length > 0 ? (
+          <div className="overflow-x-auto rounded-md border">
+            <table className="w-full text-sm">
+              <thead className="bg-gray-50 text-left text-xs text-gray-500">
+                <tr>
+                  <th className="px-3 py-2 font-medium">Field</th>
+                  <th className="px-3 py-2 font-medium">Your edit</th>
+                  <th className="px-3 py-2 font-medium">Saved version</th>
+                </tr>
+              </thead>
+              <tbody>
+                {diffs.map((diff) => (
+                  <tr key={diff.field} className="border-t">
+                    <td className="px-3 py-2 font-medium">{diff.field}</td>
+                    <td className="px-3 py-2 text-blue-700">{diff.mine}</td>
+                    <td className="px-3 py-2 text-amber-700">{diff.theirs}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        ) : (
+          <p className="text-sm text-gray-500">Both versions hold the same data.</p>
+        )}
+
+        <DialogFooter>
+          <Button variant="secondary" onClick={onKeepTheirs}>
+            Keep saved version
+          </Button>
+          <Button onClick={() => conflict && onOverwrite(conflict)}>Overwrite with my edit</Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
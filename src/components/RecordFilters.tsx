@@ -0,0 +1,158 @@
+"use client"
+
+import { useEffect, useMemo, useRef, useState } from "react"
+import debounce from "lodash/debounce"
+import { ArrowDownAZ, ArrowUpAZ, Filter, Search, X } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { DEFAULT_RECORD_QUERY, hasRecordFilters, type RecordQuery, type RecordSortKey } from "@/lib/records/query"
+
+interface RecordFiltersProps {
+  query: RecordQuery
+  onChange: (changes: Partial<RecordQuery>) => void
+  matchingCount: number
+  totalCount: number
+}
+
+const SORT_OPTIONS: { value: RecordSortKey; label: string }[] = [
+  { value: "created", label: "Created" },
+  { value: "location", label: "Location" },
+  { value: "start", label: "Start date" },
+]
+
+/** Delay before a search term is written to the URL */
+const SEARCH_DEBOUNCE_MS = 300
+
+/**
+ * @file RecordFilters.tsx
+ * @description Search box, date filters and sort controls for the saved records list.
+ * - The search term is debounced before it is applied
+ * - Date filters are hidden behind a toggle to keep the card compact, and open automatically when one is set
+ *
+ * @component
+ * @param {Object} props
+ *  >  @param {Object} props.query - Current records query
+ *  >  @param {Function} props.onChange - Called with the changed query fields
+ *  >  @param {number} props.matchingCount - Records matching the filters
+ *  >  @param {number} props.totalCount - All saved records
+ */
+export default function RecordFilters({ query, onChange, matchingCount, totalCount }: RecordFiltersProps) {
+  const [search, setSearch] = useState(query.q)
+  const [showDates, setShowDates] = useState(
+    Boolean(query.from || query.to || query.createdFrom || query.createdTo),
+  )
+
+  // Follow the URL when it changes from outside (back/forward, "Clear"); the URL holds the trimmed
+  // term, so a trailing space that is still being typed is kept
+  useEffect(() => setSearch((current) => (current.trim() === query.q ? current : query.q)), [query.q])
+
+  // Latest onChange, so the debounce survives URL changes (setQuery changes with every one) without dropping a term
+  const onChangeRef = useRef(onChange)
+  useEffect(() => {
+    onChangeRef.current = onChange
+  })
+
+  const applySearch = useMemo(() => debounce((q: string) => onChangeRef.current({ q }), SEARCH_DEBOUNCE_MS), [])
+  useEffect(() => () => applySearch.cancel(), [applySearch])
+
+  const dateInput = (name: "from" | "to" | "createdFrom" | "createdTo", label: string) => (
+    <div>
+      <label className="text-xs text-gray-500">{label}</label>
+      <Input
+        type="date"
+        className="h-8 text-xs"
+        value={query[name] ?? ""}
+        onChange={(e) => onChange({ [name]: e.target.value || undefined })}
+      />
+    </div>
+  )
+
+  return (
+    <div className="space-y-2">
+      <div className="flex gap-2">
+        <div className="relative flex-1">
+          <Search className="absolute left-2 top-2.5 h-4 w-4 text-gray-400" />
+          <Input
+            className="h-9 pl-8"
+            placeholder="Search locations"
+            value={search}
+            onChange={(e) => {
+              setSearch(e.target.value)
+              applySearch(e.target.value)
+            }}
+          />
+        </div>
+        <Button
+          variant={showDates ? "secondary" : "outline"}
+          size="icon"
+          className="h-9 w-9"
+          aria-pressed={showDates}
+          aria-label="Date filters"
+          onClick={() => setShowDates(!showDates)}
+        >
+          <Filter className="h-4 w-4" />
+        </Button>
+      </div>
+
+      {showDates && (
+        <div className="grid grid-cols-2 gap-2">
+          {dateInput("from", "Range overlaps from")}
+          {dateInput("to", "Range overlaps to")}
+          {dateInput("createdFrom", "Created from")}
+          {dateInput("createdTo", "Created to")}
+        </div>
+      )}
+
+      <div className="flex items-center justify-between gap-2 text-xs text-gray-500">
+        <span>
+          {matchingCount === totalCount ? `${totalCount} records` : `${matchingCount} of ${totalCount} records`}
+        </span>
+        <div className="flex items-center gap-1">
+          {hasRecordFilters(query) && (
+            <Button
+              variant="ghost"
+              size="sm"
+              className="h-7 px-2 text-xs"
+              onClick={() => onChange({ q: "", from: undefined, to: undefined, createdFrom: undefined, createdTo: undefined })}
+            >
+              <X className="h-3 w-3 mr-1" />
+              Clear
+            </Button>
+          )}
+          <label className="sr-only" htmlFor="record-sort">Sort by</label>
+          <select
+            id="record-sort"
+            className="h-7 rounded-md border bg-transparent px-1 text-xs"
+            value={query.sort}
+            onChange={(e) => onChange({ sort: e.target.value as RecordSortKey })}
+          >
+            {SORT_OPTIONS.map((option) => (
+              <option key={option.value} value={option.value}>
+                {option.label}
+              </option>
+            ))}
+          </select>
+          <Button
+            variant="ghost"
+            size="icon"
+            className="h-7 w-7"
+            aria-label={query.order === "asc" ? "Sort ascending" : "Sort descending"}
+            onClick={() => onChange({ order: query.order === "asc" ? "desc" : "asc" })}
+          >
+            {query.order === "asc" ? <ArrowUpAZ className="h-4 w-4" /> : <ArrowDownAZ className="h-4 w-4" />}
+          </Button>
+          {query.sort !== DEFAULT_RECORD_QUERY.sort || query.order !== DEFAULT_RECORD_QUERY.order ? (
+            <Button
+              variant="ghost"
+              size="sm"
+              className="h-7 px-2 text-xs"
+              onClick={() => onChange({ sort: DEFAULT_RECORD_QUERY.sort, order: DEFAULT_RECORD_QUERY.order })}
+            >
+              Reset
+            </Button>
+          ) : null}
+        </div>
+      </div>
+    </div>
+  )
+}
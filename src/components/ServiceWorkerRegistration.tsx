@@ -0,0 +1,19 @@
+"use client"
+
+import { useEffect } from "react"
+
+/**
+ * @file ServiceWorkerRegistration.tsx
+ * @description Registers public/sw.js so the app shell and the last viewed weather work offline.
+ * - Only in production builds; in development the worker would serve stale hot-reload chunks
+ *
+ * @component
+ */
+export default function ServiceWorkerRegistration() {
+  useEffect(() => {
+    if (process.env.NODE_ENV !== "production" || !("serviceWorker" in navigator)) return
+    navigator.serviceWorker.register("/sw.js").catch((error) => console.warn("Service worker registration failed:", error))
+  }, [])
+
+  return null
+}
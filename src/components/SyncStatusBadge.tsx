@@ -0,0 +1,49 @@
+import { Cloud, CloudAlert, CloudOff } from "lucide-react"
+import type { SyncStatus } from "@/lib/records/offline"
+
+interface SyncStatusBadgeProps {
+  status: SyncStatus
+  onRetry: () => void
+}
+
+/**
+ * @file SyncStatusBadge.tsx
+ * @description Shows whether a saved record has reached the backend.
+ * - "pending" records only exist on this device so far, "failed" ones were rejected and can be retried
+ *
+ * @component
+ * @param {Object} props
+ *  >  @param {string} props.status - Sync state of the record
+ *  >  @param {Function} props.onRetry - Resends the record's rejected changes
+ */
+export default function SyncStatusBadge({ status, onRetry }: SyncStatusBadgeProps) {
+  if (status === "pending") {
+    return (
+      <span className="inline-flex items-center gap-1 text-xs text-amber-600" title="Saved on this device, waiting to upload">
+        <CloudOff className="h-3 w-3" />
+        Waiting to sync
+      </span>
+    )
+  }
+
+  if (status === "failed") {
+    return (
+      <button
+        type="button"
+        className="inline-flex items-center gap-1 text-xs text-red-600 hover:underline"
+        title="The backend rejected this change"
+        onClick={onRetry}
+      >
+        <CloudAlert className="h-3 w-3" />
+        Sync failed, retry
+      </button>
+    )
+  }
+
+  return (
+    <span className="inline-flex items-center gap-1 text-xs text-gray-400" title="Saved to the backend">
+      <Cloud className="h-3 w-3" />
+      Synced
+    </span>
+  )
+}
@@ -0,0 +1,108 @@
+"use client"
+
+import { Settings } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuLabel,
+  DropdownMenuRadioGroup,
+  DropdownMenuRadioItem,
+  DropdownMenuSeparator,
+  DropdownMenuSub,
+  DropdownMenuSubContent,
+  DropdownMenuSubTrigger,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu"
+import { useUnits } from "@/hooks/use-units"
+import {
+  LOCALE_OPTIONS,
+  PRESSURE_UNITS,
+  TEMPERATURE_UNITS,
+  VISIBILITY_UNITS,
+  WIND_UNITS,
+  type UnitOption,
+} from "@/lib/weather"
+
+/** Radio value of the locale option that follows the browser */
+const BROWSER_LOCALE = "browser"
+
+/**
+ * @file UnitPreferencesMenu.tsx
+ * @description Settings menu for the display units and locale used by every weather display.
+ * - One submenu per quantity: temperature, wind, pressure, visibility and the number/date locale
+ * - Changes apply immediately and are remembered for the next visit (see UnitPreferencesProvider)
+ *
+ * @component
+ */
+export default function UnitPreferencesMenu() {
+  const { units, setUnits } = useUnits()
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Button variant="outline" size="icon" aria-label="Units and locale">
+          <Settings className="h-4 w-4" />
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="end">
+        <DropdownMenuLabel>Units</DropdownMenuLabel>
+        <UnitSubmenu
+          label="Temperature"
+          options={TEMPERATURE_UNITS}
+          value={units.temperature}
+          onChange={(temperature) => setUnits({ temperature })}
+        />
+        <UnitSubmenu label="Wind" options={WIND_UNITS} value={units.wind} onChange={(wind) => setUnits({ wind })} />
+        <UnitSubmenu
+          label="Pressure"
+          options={PRESSURE_UNITS}
+          value={units.pressure}
+          onChange={(pressure) => setUnits({ pressure })}
+        />
+        <UnitSubmenu
+          label="Visibility"
+          options={VISIBILITY_UNITS}
+          value={units.visibility}
+          onChange={(visibility) => setUnits({ visibility })}
+        />
+        <DropdownMenuSeparator />
+        <UnitSubmenu
+          label="Locale"
+          options={[{ value: BROWSER_LOCALE, label: "Browser default" }, ...LOCALE_OPTIONS]}
+          value={units.locale ?? BROWSER_LOCALE}
+          onChange={(locale) => setUnits({ locale: locale === BROWSER_LOCALE ? undefined : locale })}
+        />
+      </DropdownMenuContent>
+    </DropdownMenu>
+  )
+}
+
+interface UnitSubmenuProps<T extends string> {
+  label: string
+  options: UnitOption<T>[]
+  value: T
+  onChange: (value: T) => void
+}
+
+function UnitSubmenu<T extends string>({ label, options, value, onChange }: UnitSubmenuProps<T>) {
+  const selected = options.find((option) => option.value === value)
+
+  return (
+    <DropdownMenuSub>
+      <DropdownMenuSubTrigger>
+        <span className="flex-grow">{label}</span>
+        <span className="ml-4 text-xs text-muted-foreground">{selected?.label}</span>
+      </DropdownMenuSubTrigger>
+      <DropdownMenuSubContent>
+        <DropdownMenuRadioGroup value={value} onValueChange={(next) => onChange(next as T)}>
+          {options.map((option) => (
+            <DropdownMenuRadioItem key={option.value} value={option.value}>
+              {option.label}
+            </DropdownMenuRadioItem>
+          ))}
+        </DropdownMenuRadioGroup>
+      </DropdownMenuSubContent>
+    </DropdownMenuSub>
+  )
+}
@@ -0,0 +1,62 @@
+"use client"
+
+import { createContext, useCallback, useEffect, useMemo, useRef, useState, type ReactNode } from "react"
+import { createUnitFormatter, METRIC_UNITS, type UnitFormatter, type UnitPreferences } from "@/lib/weather"
+import { idbGet, idbPut } from "@/lib/idb"
+
+/** Key in the IndexedDB "state" store of the chosen units and locale */
+const UNIT_PREFERENCES_KEY = "unitPreferences"
+
+export interface UnitPreferencesContextValue {
+  units: UnitPreferences
+  format: UnitFormatter
+  setUnits: (changes: Partial<UnitPreferences>) => void
+}
+
+export const UnitPreferencesContext = createContext<UnitPreferencesContextValue>({
+  units: METRIC_UNITS,
+  format: createUnitFormatter(METRIC_UNITS),
+  setUnits: () => {},
+})
+
+/**
+ * @file UnitPreferencesProvider.tsx
+ * @description Holds the user's display units and locale for every weather display (see lib/weather/units.ts).
+ * - Starts metric with the browser's locale, then restores the preferences saved on the last visit
+ * - Every change is saved right away; a change made before the saved preferences load wins over them
+ *
+ * @component
+ * @param {Object} props
+ *  >  @param {ReactNode} props.children - The app
+ */
+export default function UnitPreferencesProvider({ children }: { children: ReactNode }) {
+  const [units, setUnitsState] = useState<UnitPreferences>(METRIC_UNITS)
+  // Latest preferences, so changes are computed and saved outside the state updater
+  const unitsRef = useRef(units)
+  // Everything changed in this session, applied again over the restored preferences
+  const sessionChanges = useRef<Partial<UnitPreferences>>({})
+
+  const apply = useCallback((next: UnitPreferences) => {
+    unitsRef.current = next
+    setUnitsState(next)
+    void idbPut<UnitPreferences>("state", UNIT_PREFERENCES_KEY, next)
+  }, [])
+
+  useEffect(() => {
+    idbGet<UnitPreferences>("state", UNIT_PREFERENCES_KEY).then((saved) => {
+      if (saved) apply({ ...METRIC_UNITS, ...saved, ...sessionChanges.current })
+    })
+  }, [apply])
+
+  const setUnits = useCallback(
+    (changes: Partial<UnitPreferences>) => {
+      sessionChanges.current = { ...sessionChanges.current, ...changes }
+      apply({ ...unitsRef.current, ...changes })
+    },
+    [apply],
+  )
+
+  const value = useMemo(() => ({ units, format: createUnitFormatter(units), setUnits }), [units, setUnits])
+
+  return <UnitPreferencesContext.Provider value={value}>{children}</UnitPreferencesContext.Provider>
+}
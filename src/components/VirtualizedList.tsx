@@ -0,0 +1,59 @@
+"use client"
+
+import { useState, type ReactNode } from "react"
+
+interface VirtualizedListProps {
+  count: number
+  rowHeight: number
+  height: number
+  renderRow: (index: number) => ReactNode
+  /** Rows rendered above and below the visible window */
+  overscan?: number
+  className?: string
+}
+
+/**
+ * @file VirtualizedList.tsx
+ * @description Scrollable list that only mounts the rows in view, for records spanning years of daily rows.
+ * Rows must have a fixed height.
+ *
+ * @component
+ * @param {Object} props
+ *  >  @param {number} props.count - Total number of rows
+ *  >  @param {number} props.rowHeight - Height of every row in pixels
+ *  >  @param {number} props.height - Height of the scroll container in pixels
+ *  >  @param {Function} props.renderRow - Renders the row at an index
+ *  >  @param {number} props.overscan - Extra rows rendered outside the viewport (default 5)
+ */
+export default function VirtualizedList({
+  count,
+  rowHeight,
+  height,
+  renderRow,
+  overscan = 5,
+  className,
+}: VirtualizedListProps) {
+  const [scrollTop, setScrollTop] = useState(0)
+
+  const first = Math.max(0, Math.floor(scrollTop / rowHeight) - overscan)
+  const last = Math.min(count, Math.ceil((scrollTop + height) / rowHeight) + overscan)
+
+  return (
+    <div
+      className={className}
+      style={{ height, overflowY: "auto" }}
+      onScroll={(e) => setScrollTop(e.currentTarget.scrollTop)}
+    >
+      <div style={{ height: count * rowHeight, position: "relative" }}>
+        {Array.from({ length: last - first }, (_, offset) => {
+          const index = first + offset
+          return (
+            <div key={index} style={{ position: "absolute", top: index * rowHeight, left: 0, right: 0, height: rowHeight }}>
+              {renderRow(index)}
+            </div>
+          )
+        })}
+      </div>
+    </div>
+  )
+}
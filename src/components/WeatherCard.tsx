@@ -4,15 +4,31 @@ import { Card, CardContent } from "@/components/ui/card"
 import { Button } from "@/components/ui/button"
 import { Skeleton } from "@/components/ui/skeleton"
 import {VideoCarousel} from "@/components/ui/video-carousel" 
-import { Cloud, FileText, Wind } from "lucide-react"
+import { useUnits } from "@/hooks/use-units"
+import { ChevronDown, ChevronUp, Cloud, FileText, Star, Wind } from "lucide-react"
+import {
+  aggregateDaily,
+  airQualityLabel,
+  fetchLocationVideos,
+  localTimeLabel,
+  providerLabel,
+  type AirQuality,
+  type CurrentConditions,
+  type Forecast,
+  type Pollutant,
+  type LocationVideo,
+  type ProviderResult,
+} from "@/lib/weather"
 
 
 
 interface WeatherCardProps {
-  weatherData: { name: string; main: { temp: number; feels_like: number; humidity: number; pressure: number }; weather: { description: string; icon: string }[]; wind: { speed: number; deg: number }; visibility?: number; sys?: { country?: string } }
-  forecastData: object | null
-  airPollution: object | null
+  weatherData: ProviderResult<CurrentConditions>
+  forecastData: ProviderResult<Forecast> | null
+  airPollution: ProviderResult<AirQuality> | null
   isLoading: boolean
+  isFavorite?: boolean
+  onToggleFavorite?: () => void
 }
 
 interface WeatherTabsProps {
@@ -25,40 +41,50 @@ interface WeatherTabsProps {
  * @file WeatherCard.tsx
  * @description A component that displays detailed weather information in a card format with multiple tabs.
  * - Shows current temperature, weather description, and relevant videos
- * - Provides a 5-day forecast
+ * - Provides a 5-day forecast with true daily min/max and precipitation, expandable into an hourly timeline
  * - Displays detailed air quality information
  * - Includes a tab interface to switch between different types of weather data
+ * - Shows which provider supplied the data of the active tab
+ * - Values and weekdays follow the user's unit and locale preferences (useUnits)
+ * - The star in the header adds the location to, or removes it from, the favorites
  * 
  * @component
  * @param {Object} props
- *  >  @param {Object} props.weatherData - Current weather data
- *  >  @param {Object} props.forecastData - Weather forecast data
- *  >  @param {Object} props.airPollution - Air pollution data
+ *  >  @param {Object} props.weatherData - Current weather data, tagged with its provider
+ *  >  @param {Object} props.forecastData - Weather forecast data, tagged with its provider
+ *  >  @param {Object} props.airPollution - Air pollution data, tagged with its provider
  *  >  @param {boolean} props.isLoading - Loading state indicator
+ *  >  @param {boolean} props.isFavorite - Whether the location is starred
+ *  >  @param {Function} props.onToggleFavorite - Stars or unstars the location; the star is hidden without it
  * 
-* @requires NEXT_PUBLIC_GOOGLE_API_KEY environment variable a google key that allows for the use of the Youtube API
+ * Videos are loaded through /api/videos, which holds the YouTube key server-side
 */
-const apiKey = process.env.NEXT_PUBLIC_GOOGLE_API_KEY
 
 
-export default function WeatherCard({ weatherData, forecastData, airPollution, isLoading }: WeatherCardProps) {
+export default function WeatherCard({
+  weatherData,
+  forecastData,
+  airPollution,
+  isLoading,
+  isFavorite = false,
+  onToggleFavorite,
+}: WeatherCardProps) {
   const [activeTab, setActiveTab] = useState("current")
-  const [videos, setVideos] = useState([])
+  const [videos, setVideos] = useState<LocationVideo[]>([])
   const [videosLoading, setVideosLoading] = useState(false)
+  const [expandedDay, setExpandedDay] = useState<string | null>(null)
+  const { format } = useUnits()
+  const current = weatherData.data
 
 
   {/* Youtube Videos Fetcher based on location name */}
   useEffect(() => {
     const fetchVideos = async () => {
-      if (!weatherData?.name) return
-      console.log(weatherData.name)
+      if (!current.name) return
       setVideosLoading(true)
       try {
-        const response = await fetch(`https://www.googleapis.com/youtube/v3/search?part=snippet&q=${encodeURIComponent(weatherData.name)}%20tourism&type=video&maxResults=3&key=${apiKey}`)
-        if (!response.ok) throw new Error("Failed to fetch videos")
-        const data = await response.json()
-        setVideos(data.items)
-        console.log(data.items)
+        const items = await fetchLocationVideos(current.name)
+        setVideos(items)
       } catch (error) {
         console.error("Error fetching videos:", error)
       } finally {
@@ -67,7 +93,7 @@ export default function WeatherCard({ weatherData, forecastData, airPollution, i
     }
 
     fetchVideos()
-  }, [weatherData?.name])
+  }, [current.name])
 
   if (isLoading) {
     return <Skeleton className="w-full h-[400px] rounded-lg" />
@@ -79,93 +105,129 @@ export default function WeatherCard({ weatherData, forecastData, airPollution, i
     <div className="space-y-6">
       <div className="flex items-center justify-between">
         <div>
-          <div className="text-4xl font-bold">{Math.round(weatherData.main.temp)}°C</div>
-          <div className="text-sm text-muted-foreground capitalize">{weatherData.weather[0].description}</div>
+          <div className="text-4xl font-bold">{format.temperature(current.temperature)}</div>
+          <div className="text-sm text-muted-foreground capitalize">{current.condition.description}</div>
         </div>
         <img
-          src={`http://openweathermap.org/img/wn/${weatherData.weather[0].icon}@2x.png`}
-          alt={weatherData.weather[0].description}
+          src={`http://openweathermap.org/img/wn/${current.condition.icon}@2x.png`}
+          alt={current.condition.description}
           className="w-16 h-16"
         />
       </div>
 
       <div className="grid grid-cols-2 gap-4">
-        <WeatherDetail label="Feels Like" value={`${Math.round(weatherData.main.feels_like)}°C`} />
-        <WeatherDetail label="Humidity" value={`${weatherData.main.humidity}%`} />
-        <WeatherDetail label="Wind Speed" value={`${weatherData.wind.speed} m/s`} />
-        <WeatherDetail label="Wind Direction" value={`${weatherData.wind.deg}°`} />
-        <WeatherDetail label="Pressure" value={`${weatherData.main.pressure} hPa`} />
-        {weatherData.visibility && <WeatherDetail label="Visibility" value={`${weatherData.visibility / 1000} km`} />}
+        <WeatherDetail label="Feels Like" value={format.temperature(current.feelsLike)} />
+        <WeatherDetail label="Humidity" value={`${current.humidity}%`} />
+        <WeatherDetail label="Wind Speed" value={format.wind(current.windSpeed)} />
+        <WeatherDetail label="Wind Direction" value={`${current.windDirection}°`} />
+        <WeatherDetail label="Pressure" value={format.pressure(current.pressure)} />
+        {current.visibility && <WeatherDetail label="Visibility" value={format.visibility(current.visibility)} />}
       </div>
     </div>
   )
 
-  {/* Renders the forcast data for the next 5 days when the tab is selected */}
-
-
-  const renderForecast = () => (
-    <div className="space-y-4">
-      {// @ts-expect-error can be null
-        forecastData.list.slice(0, 5).map((day, index) => (
-        <div key={index} className="flex items-center justify-between py-2">
-          <div className="flex items-center gap-3">
-            <img
-              src={`http://openweathermap.org/img/wn/${day.weather[0].icon}.png`}
-              alt={day.weather[0].description}
-              className="w-10 h-10"
-            />
-            <div>
-              <div className="font-medium">
-                {new Date(day.dt * 1000).toLocaleDateString("en-US", { weekday: "short" })}
-              </div>
-              <div className="text-sm text-muted-foreground capitalize">{day.weather[0].description}</div>
-            </div>
-          </div>
-          <div className="text-right">
-            <div className="font-medium">{Math.round(day.main.temp)}°C</div>
-            <div className="text-sm text-muted-foreground">
-              {Math.round(day.main.temp_min)}° / {Math.round(day.main.temp_max)}°
+  {/* Renders the forcast data for the next 5 days when the tab is selected, each day expands into its hourly timeline */}
+
+  const renderForecast = () => {
+    if (!forecastData) return <EmptyState message="Forecast data is unavailable" />
+
+    const { utcOffsetSeconds } = forecastData.data
+    const days = aggregateDaily(forecastData.data).slice(0, 5)
+
+    return (
+      <div className="space-y-2">
+        {days.map((day) => {
+          const isExpanded = expandedDay === day.date
+          return (
+            <div key={day.date} className="border-b last:border-0">
+              <button
+                type="button"
+                className="w-full flex items-center justify-between py-2 text-left"
+                aria-expanded={isExpanded}
+                onClick={() => setExpandedDay(isExpanded ? null : day.date)}
+              >
+                <div className="flex items-center gap-3">
+                  <img
+                    src={`http://openweathermap.org/img/wn/${day.condition.icon}.png`}
+                    alt={day.condition.description}
+                    className="w-10 h-10"
+                  />
+                  <div>
+                    <div className="font-medium">
+                      {format.date(new Date(`${day.date}T12:00:00Z`), { weekday: "short", timeZone: "UTC" })}
+                    </div>
+                    <div className="text-sm text-muted-foreground capitalize">{day.condition.description}</div>
+                  </div>
+                </div>
+                <div className="flex items-center gap-2">
+                  <div className="text-right">
+                    <div className="font-medium">
+                      {format.temperature(day.tempMax)} / {format.temperature(day.tempMin)}
+                    </div>
+                    <div className="text-sm text-muted-foreground">
+                      {format.number(day.precipitationTotal)} mm · {Math.round(day.precipitationProbability * 100)}%
+                    </div>
+                  </div>
+                  {isExpanded ? <ChevronUp className="h-4 w-4" /> : <ChevronDown className="h-4 w-4" />}
+                </div>
+              </button>
+
+              {isExpanded && (
+                <div className="flex gap-3 overflow-x-auto pb-3">
+                  {day.entries.map((entry) => (
+                    <div key={entry.time} className="flex flex-col items-center min-w-[3rem] text-xs">
+                      <span className="text-muted-foreground">{localTimeLabel(entry.time, utcOffsetSeconds)}</span>
+                      <img
+                        src={`http://openweathermap.org/img/wn/${entry.condition.icon}.png`}
+                        alt={entry.condition.description}
+                        className="w-8 h-8"
+                      />
+                      <span className="font-medium">{format.temperature(entry.temperature)}</span>
+                      <span className="text-muted-foreground">{Math.round(entry.precipitationProbability * 100)}%</span>
+                    </div>
+                  ))}
+                </div>
+              )}
             </div>
-          </div>
-        </div>
-      ))}
-    </div>
-  )
+          )
+        })}
+      </div>
+    )
+  }
 
   {/* Renders the air quality data when the tab is selected */}
 
-  const renderAirQuality = () => (
-    <div className="space-y-6">
-      <div className="text-center">
-        
-        <div // @ts-expect-error can be null
-        className="text-3xl font-bold mb-2">{getAirQualityDescription(airPollution.main.aqi)}</div>
-        <div // @ts-expect-error can be null
-        className="text-sm text-muted-foreground">Air Quality Index: {airPollution.main.aqi}</div>
-      </div>
-      <div className="grid grid-cols-2 gap-4">
-        <WeatherDetail // @ts-expect-error can be null
-        label="CO" value={`${ airPollution.components.co.toFixed(2)} μg/m³`} />
-        <WeatherDetail // @ts-expect-error can be null
-         label="NO" value={`${airPollution.components.no.toFixed(2)} μg/m³`} />
-        <WeatherDetail // @ts-expect-error can be null
-         label="NO2" value={`${airPollution.components.no2.toFixed(2)} μg/m³`} />
-        <WeatherDetail // @ts-expect-error can be null
-         label="O3" value={`${airPollution.components.o3.toFixed(2)} μg/m³`} />
-        <WeatherDetail // @ts-expect-error can be null
-         label="SO2" value={`${airPollution.components.so2.toFixed(2)} μg/m³`} />
-        <WeatherDetail // @ts-expect-error can be null
-         label="PM2.5" value={`${airPollution.components.pm2_5.toFixed(2)} μg/m³`} />
-        <WeatherDetail // @ts-expect-error can be null
-         label="PM10" value={`${airPollution.components.pm10.toFixed(2)} μg/m³`} />
-        <WeatherDetail // @ts-expect-error can be null
-         label="NH3" value={`${airPollution.components.nh3.toFixed(2)} μg/m³`} />
+  const renderAirQuality = () => {
+    if (!airPollution) return <EmptyState message="Air quality data is unavailable" />
+
+    return (
+      <div className="space-y-6">
+        <div className="text-center">
+          <div className="text-3xl font-bold mb-2">{airQualityLabel(airPollution.data.index)}</div>
+          <div className="text-sm text-muted-foreground">Air Quality Index: {airPollution.data.index}</div>
+        </div>
+        <div className="grid grid-cols-2 gap-4">
+          {POLLUTANTS.map(({ key, label }) => (
+            <WeatherDetail key={key} label={label} value={formatConcentration(airPollution.data.components[key])} />
+          ))}
+        </div>
       </div>
-    </div>
-  )
+    )
+  }
 
   {/* Switches Render Content */}
 
+  const activeProvider = (() => {
+    switch (activeTab) {
+      case "forecast":
+        return forecastData?.provider
+      case "air":
+        return airPollution?.provider
+      default:
+        return weatherData.provider
+    }
+  })()
+
   const renderContent = () => {
     switch (activeTab) {
       case "current":
@@ -182,16 +244,34 @@ export default function WeatherCard({ weatherData, forecastData, airPollution, i
   return (
     <Card className="bg-white/95 backdrop-blur w-80">
       {videosLoading ? <Skeleton className="h-40" /> : <VideoCarousel videos={videos} />}
-      <div className="p-4 border-b">
-        <h2 className="text-xl font-semibold">{weatherData.name}</h2>
-        {weatherData.sys && weatherData.sys.country && (
-          <p className="text-sm text-muted-foreground">{weatherData.sys.country}</p>
+      <div className="p-4 border-b flex items-start justify-between gap-2">
+        <div className="min-w-0">
+          <h2 className="text-xl font-semibold">{current.name}</h2>
+          {current.country && (
+            <p className="text-sm text-muted-foreground">{current.country}</p>
+          )}
+        </div>
+        {onToggleFavorite && (
+          <Button
+            variant="ghost"
+            size="icon"
+            className="flex-shrink-0"
+            aria-label={isFavorite ? "Remove from favorites" : "Add to favorites"}
+            aria-pressed={isFavorite}
+            onClick={onToggleFavorite}
+          >
+            <Star className={`h-5 w-5 ${isFavorite ? "fill-yellow-400 text-yellow-500" : ""}`} />
+          </Button>
         )}
       </div>
 
       <WeatherTabs activeTab={activeTab} onTabChange={setActiveTab} />
 
       <CardContent className="p-4">{renderContent()}</CardContent>
+
+      {activeProvider && (
+        <div className="px-4 pb-3 text-xs text-muted-foreground">Data provided by {providerLabel(activeProvider)}</div>
+      )}
     </Card>
   )
 }
@@ -205,6 +285,10 @@ function WeatherDetail({ label, value }: { label: string; value: string }) {
   )
 }
 
+function EmptyState({ message }: { message: string }) {
+  return <div className="py-6 text-center text-sm text-muted-foreground">{message}</div>
+}
+
 function WeatherTabs({ activeTab, onTabChange }: WeatherTabsProps) {
   const tabs = [
     { id: "current", label: "Current", icon: Cloud },
@@ -230,19 +314,15 @@ function WeatherTabs({ activeTab, onTabChange }: WeatherTabsProps) {
   )
 }
 
-const getAirQualityDescription = (aqi: number) => {
-  switch (aqi) {
-    case 1:
-      return "Good"
-    case 2:
-      return "Fair"
-    case 3:
-      return "Moderate"
-    case 4:
-      return "Poor"
-    case 5:
-      return "Very Poor"
-    default:
-      return "Unknown"
-  }
-}
\ No newline at end of file
+const POLLUTANTS: { key: Pollutant; label: string }[] = [
+  { key: "co", label: "CO" },
+  { key: "no", label: "NO" },
+  { key: "no2", label: "NO2" },
+  { key: "o3", label: "O3" },
+  { key: "so2", label: "SO2" },
+  { key: "pm2_5", label: "PM2.5" },
+  { key: "pm10", label: "PM10" },
+  { key: "nh3", label: "NH3" },
+]
+
+const formatConcentration = (value: number | null) => (value === null ? "N/A" : `${value.toFixed(2)} μg/m³`)
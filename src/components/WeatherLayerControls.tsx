@@ -0,0 +1,113 @@
+"use client"
+
+import { useId } from "react"
+import { Layers } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { useUnits } from "@/hooks/use-units"
+import { cn } from "@/lib/utils"
+import { getWeatherLayer, legendGradient, WEATHER_LAYERS, type WeatherLayer, type WeatherLayerId } from "@/lib/weather"
+
+interface WeatherLayerControlsProps {
+  active: WeatherLayerId[]
+  opacity: number
+  onToggle: (id: WeatherLayerId) => void
+  onOpacityChange: (opacity: number) => void
+  className?: string
+}
+
+/**
+ * @file WeatherLayerControls.tsx
+ * @description Panel over the map for its weather layers.
+ * - Toggles the temperature, precipitation, clouds, wind and pressure layers; several can be shown at once
+ * - One opacity slider applies to every visible layer
+ * - Shows a colour legend for each visible layer, with values in the user's units
+ *
+ * @component
+ * @param {Object} props
+ *  >  @param {Array} props.active - Ids of the visible layers
+ *  >  @param {number} props.opacity - Layer opacity, 0 to 1
+ *  >  @param {Function} props.onToggle - Shows or hides a layer
+ *  >  @param {Function} props.onOpacityChange - Called with the new opacity
+ */
+export default function WeatherLayerControls({
+  active,
+  opacity,
+  onToggle,
+  onOpacityChange,
+  className,
+}: WeatherLayerControlsProps) {
+  const opacityId = useId()
+
+  return (
+    <div className={cn("w-64 space-y-2 rounded-md bg-white/95 p-3 text-xs shadow-md backdrop-blur", className)}>
+      <div className="flex items-center gap-1 font-medium">
+        <Layers className="h-4 w-4" />
+        Weather layers
+      </div>
+      <div className="flex flex-wrap gap-1">
+        {WEATHER_LAYERS.map((layer) => (
+          <Button
+            key={layer.id}
+            type="button"
+            size="sm"
+            variant={active.includes(layer.id) ? "secondary" : "outline"}
+            className="h-7 px-2 text-xs"
+            aria-pressed={active.includes(layer.id)}
+            onClick={() => onToggle(layer.id)}
+          >
+            {layer.label}
+          </Button>
+        ))}
+      </div>
+
+      {active.length > 0 && (
+        <>
+          <div className="flex items-center gap-2">
+            <label htmlFor={opacityId} className="text-gray-500">
+              Opacity
+            </label>
+            <input
+              id={opacityId}
+              type="range"
+              min={0.1}
+              max={1}
+              step={0.05}
+              value={opacity}
+              onChange={(e) => onOpacityChange(Number(e.target.value))}
+              className="flex-grow"
+            />
+            <span className="w-8 text-right">{Math.round(opacity * 100)}%</span>
+          </div>
+          {active.map((id) => (
+            <LayerLegend key={id} layer={getWeatherLayer(id)} />
+          ))}
+        </>
+      )}
+    </div>
+  )
+}
+
+function LayerLegend({ layer }: { layer: WeatherLayer }) {
+  const { format } = useUnits()
+  const label = (value: number) => (layer.unit === "hPa" ? format.pressure(value) : format.value(value, layer.unit, 0))
+  const last = layer.stops.length - 1
+  // The gradient spreads the stops evenly, so the middle label sits where its stop is drawn
+  const middle = Math.round(last / 2)
+
+  return (
+    <div>
+      <div className="text-gray-500">{layer.label}</div>
+      {/* Grey backing so the translucent low ends of the scales stay visible */}
+      <div className="h-2 rounded bg-gray-300">
+        <div className="h-full rounded" style={{ backgroundImage: legendGradient(layer) }} />
+      </div>
+      <div className="relative flex justify-between text-[10px] text-gray-500">
+        <span>{label(layer.stops[0].value)}</span>
+        <span className="absolute -translate-x-1/2" style={{ left: `${(middle / last) * 100}%` }}>
+          {label(layer.stops[middle].value)}
+        </span>
+        <span>{label(layer.stops[last].value)}</span>
+      </div>
+    </div>
+  )
+}
@@ -1,83 +1,144 @@
-import React, { useState, useEffect } from "react"
-import axios from "axios"
-import { format as dateFormat, subDays, differenceInDays, isAfter, isBefore, startOfToday, addDays, compareAsc } from "date-fns"
+import React, { useState, useEffect, useMemo, useRef } from "react"
+import { format as dateFormat, subDays, isAfter, isBefore, startOfToday, addDays, parseISO, differenceInCalendarDays } from "date-fns"
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
 import { Button } from "@/components/ui/button"
 import { Input } from "@/components/ui/input"
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs"
-import { MapPin, Search, Loader2, List, PlusCircle, Edit, Trash2, Download } from "lucide-react"
+import { Loader2, List, PlusCircle, Edit, Trash2, Download, ChartLine, X, Upload, ChevronLeft, ChevronRight, WifiOff, GitCompare } from "lucide-react"
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription, DialogFooter,
 } from "@/components/ui/dialog"
 import { toast } from "@/hooks/use-toast"
-import { ScrollArea } from "@/components/ui/scroll-area"
+import { ToastAction } from "@/components/ui/toast"
+import HistoricalWeatherChart from "@/components/HistoricalWeatherChart"
+import HourlyWeatherChart from "@/components/HourlyWeatherChart"
+import DailyVariablePicker from "@/components/DailyVariablePicker"
+import ImportRecordDialog from "@/components/ImportRecordDialog"
+import SyncStatusBadge from "@/components/SyncStatusBadge"
+import RecordConflictDialog, { type RecordConflict } from "@/components/RecordConflictDialog"
+import RecordComparisonDialog from "@/components/RecordComparisonDialog"
+import VirtualizedList from "@/components/VirtualizedList"
+import RecordFilters from "@/components/RecordFilters"
+import LocationSearch from "@/components/LocationSearch"
+import { useRecordQuery } from "@/hooks/use-record-query"
+import { useUnits } from "@/hooks/use-units"
 import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuTrigger,
 } from "@/components/ui/dropdown-menu";
+import {
+  describeWeatherError,
+  fetchHistoricalHourlyRange,
+  fetchHistoricalRange,
+  isWeatherClientError,
+  HISTORICAL_START_DATE,
+  getDailyVariable,
+  type DailyVariableKey,
+  type HistoricalProgress,
+  type LocationSuggestion,
+} from "@/lib/weather"
+import { MAX_HOURLY_RECORD_DAYS, RECORD_SCHEMA_VERSION, type RecordResolution, type WeatherRecord } from "@/lib/records/types"
+import { formatHighLow } from "@/lib/records/description"
+import { recordFileName, recordsToCSV, recordsToJSON } from "@/lib/records/export"
+import { RECORD_EXPORTERS, recordsToZip, type RecordExporter } from "@/lib/records/exporters"
+import { hasRecordFilters, queryRecords } from "@/lib/records/query"
+import { isInvalidRecordResponseError, isRecordConflictError, type WeatherRecordInput } from "@/lib/records/api"
+import {
+  getSyncStatus,
+  loadRecords,
+  removeRecord as removeSavedRecord,
+  saveNewRecord,
+  saveRecordUpdate,
+  syncOutbox,
+  type SyncStatus,
+} from "@/lib/records/offline"
 
 
-interface LocationSuggestion {
-  place_id: number
-  display_name: string
-  lat: string
-  lon: string
-}
-
-interface WeatherRecord {
-  _id?: string
-  location: {
-    name: string
-    coordinates: {
-      lat: number
-      lon: number
-    }
-  }
-  dateRange: {
-    startDate: Date
-    endDate: Date
-  }
-  temperatures: Array<{
-    date: Date
-    temperature: number
-    description: string
-    humidity?: number
-    windSpeed?: number
-  }>
-  createdAt: Date
-}
-
 const DATE_RANGE_OPTIONS = [
   { label: 'Last 7 days', days: 7 },
   { label: 'Last 14 days', days: 14 },
   { label: 'Last 30 days', days: 30 },
+  { label: 'Last year', days: 365 },
+  { label: 'Last 10 years', days: 3652 },
   { label: 'Custom Range', days: 0 }
 ];
 
+/** Days in a date range, counting both ends */
+const rangeDays = (startDate: Date, endDate: Date) => differenceInCalendarDays(endDate, startDate) + 1
+
+/** Fixed row height of the virtualized daily preview, in pixels */
+const PREVIEW_ROW_HEIGHT = 56
+
+/** How long a deleted record can be restored before the delete is sent to the backend */
+const UNDO_DELETE_MS = 6000
+
+/** First and longest wait before queued changes are sent again while the backend stays unreachable */
+const SYNC_RETRY_MIN_MS = 15 * 1000
+const SYNC_RETRY_MAX_MS = 5 * 60 * 1000
+
+/** Temporary id of a record shown before the backend has created it */
+const PENDING_ID_PREFIX = "pending-"
+
+/** Toast text for a failed records request; malformed backend data says which fields were wrong */
+const recordErrorDescription = (error: unknown, fallback: string) =>
+  isInvalidRecordResponseError(error) ? error.message : fallback
+
 /**
  * @file WeatherRecordsCard.tsx
  * @description Manages the creation, viewing, editing, and deletion of historical weather records.
- * - Allows users to create new weather records for specific locations and date ranges
- * - Displays a list of saved weather records
+ * - Allows users to create new weather records for specific locations and any date range back to 1940
+ * - Long ranges are fetched year by year with a progress indicator and can be cancelled
+ * - Lets users pick extra Open-Meteo daily variables (snowfall, sunshine, solar radiation, ET0, ...) per record
+ * - Records can be daily or hourly; hourly records keep hourly rows next to the daily ones
+ * - Displays a list of saved weather records; the daily preview is virtualized so multi-year ranges stay fast
+ * - Charts temperature, humidity and wind for the record being created and for saved records
  * - Provides functionality to edit and delete existing records
- * - Enables exporting of weather records as JSON or CSV
+ * - Imports records from the JSON and CSV files it exports (see ImportRecordDialog)
+ * - Exports all or selected records at once as a combined CSV, a JSON array or a ZIP with one file per record in any registry format
+ * - Exports a record in any format of the RECORD_EXPORTERS registry (JSON, CSV, GeoJSON, XLSX, CF-JSON)
+ * - Shows and exports values in the user's units and locale (see UnitPreferencesMenu); exported files name their units
+ * - Searches, filters, sorts and paginates saved records; the list state lives in the URL (see useRecordQuery)
+ * - Creates, updates and deletes optimistically and rolls back on failure; deletes can be undone from the toast
+ * - Edits conflicting with someone else's change are not overwritten silently (see RecordConflictDialog)
+ * - Compares two selected records, or one with its 1991–2020 climate normal, day by day (see RecordComparisonDialog)
+ * - Works offline: records are kept in IndexedDB and changes are queued and synced on reconnect, right after
+ *   being queued and then with a growing delay, since the backend coming back fires no browser event (see lib/records/offline)
  * 
- * @requires NEXT_PUBLIC_BACKEND_URL environment variable on the backend URL
+ * Records are stored by the backend at NEXT_PUBLIC_BACKEND_URL, or by the local /api/weather route handlers when it is unset
+ * @requires a <Suspense> boundary around the card, because the records query is read from the URL
  */
 
-const BACKEND_URL = process.env.NEXT_PUBLIC_BACKEND_URL
-
-
 export default function WeatherRecordsCard() {
   const [records, setRecords] = useState<WeatherRecord[]>([])
   const [isDeleteModalOpen, setIsDeleteModalOpen] = useState(false)
   const [recordToDelete, setRecordToDelete] = useState<string | null>(null)
   const [selectedRecord, setSelectedRecord] = useState<WeatherRecord | null>(null)
   const [locationQuery, setLocationQuery] = useState("")
-  const [locationSuggestions, setLocationSuggestions] = useState<LocationSuggestion[]>([])
-  const [isSearching, setIsSearching] = useState(false)
-  const [activeTab, setActiveTab] = useState<"create" | "view">("create")
+  const { query: recordQuery, setQuery: setRecordQuery } = useRecordQuery()
+  const { units, format } = useUnits()
+  // A shared filtered link opens straight on the records list
+  const [activeTab, setActiveTab] = useState<"create" | "view">(() =>
+    hasRecordFilters(recordQuery) || recordQuery.page > 1 ? "view" : "create"
+  )
   const [isLoadingWeather, setIsLoadingWeather] = useState(false)
   const [selectedRange, setSelectedRange] = useState(DATE_RANGE_OPTIONS[0])
   const [isCustomRange, setIsCustomRange] = useState(false)
+  const [chartedRecordId, setChartedRecordId] = useState<string | null>(null)
+  const [isImportOpen, setIsImportOpen] = useState(false)
+  const [selectedRecordIds, setSelectedRecordIds] = useState<string[]>([])
+  const [comparedRecords, setComparedRecords] = useState<WeatherRecord[] | null>(null)
+  const [weatherProgress, setWeatherProgress] = useState<(HistoricalProgress & { stage: RecordResolution }) | null>(null)
+  const weatherRequest = useRef<AbortController | null>(null)
+  const [pendingRecordIds, setPendingRecordIds] = useState<string[]>([])
+  const [conflict, setConflict] = useState<RecordConflict | null>(null)
+  const [syncStatus, setSyncStatus] = useState<Record<string, SyncStatus>>({})
+  const [isOffline, setIsOffline] = useState(false)
+  const syncRetryDelay = useRef(SYNC_RETRY_MIN_MS)
+  /** Deletes waiting for their undo window to pass */
+  const pendingDeletes = useRef(new Map<string, ReturnType<typeof setTimeout>>())
+  const { matching: matchingRecords, items: pageRecords, page, pageCount } = useMemo(
+    () => queryRecords(records, recordQuery),
+    [records, recordQuery]
+  )
   const today = startOfToday()
+  const earliestDate = parseISO(HISTORICAL_START_DATE)
 
   const [formData, setFormData] = useState<Partial<WeatherRecord>>({
     location: { name: "", coordinates: { lat: 0, lon: 0 } },
@@ -86,32 +147,8 @@ export default function WeatherRecordsCard() {
       endDate: today,
     },
   })
-
-
-  const searchLocation = async (query: string) => {
-    if (query.length < 3) return;
-    
-    setIsSearching(true)
-    try {
-      const response = await axios.get("https://nominatim.openstreetmap.org/search", {
-        params: {
-          q: query,
-          format: "json",
-          limit: 5,
-        },
-      })
-      setLocationSuggestions(response.data)
-    } catch (error) {
-      console.error("Location search error", error)
-      toast({
-        title: "Error",
-        description: "Failed to search location",
-        variant: "destructive",
-      })
-    } finally {
-      setIsSearching(false)
-    }
-  }
+  const isHourlyRangeTooLong =
+    !!formData.dateRange && rangeDays(formData.dateRange.startDate, formData.dateRange.endDate) > MAX_HOURLY_RECORD_DAYS
 
   const handleRangeChange = (option: typeof DATE_RANGE_OPTIONS[0]) => {
     setSelectedRange(option)
@@ -140,10 +177,10 @@ export default function WeatherRecordsCard() {
       return
     }
 
-    if (differenceInDays(newEndDate, newStartDate) > 30) {
+    if (isBefore(newStartDate, earliestDate)) {
       toast({
         title: "Invalid Date Range",
-        description: "Date range cannot exceed 30 days",
+        description: `Historical data is available from ${format.date(earliestDate)}`,
         variant: "destructive",
       })
       return
@@ -158,6 +195,15 @@ export default function WeatherRecordsCard() {
       return
     }
 
+    if (formData.resolution === "hourly" && rangeDays(newStartDate, newEndDate) > MAX_HOURLY_RECORD_DAYS) {
+      toast({
+        title: "Range Too Long",
+        description: `Hourly records cover at most ${MAX_HOURLY_RECORD_DAYS} days; switch to daily for longer ranges`,
+        variant: "destructive",
+      })
+      return
+    }
+
     setFormData(prev => ({
       ...prev,
       dateRange: { startDate: newStartDate, endDate: newEndDate }
@@ -174,80 +220,123 @@ export default function WeatherRecordsCard() {
     }
   }
 
-  const fetchHistoricalWeather = async (lat: number, lon: number, startDate: Date, endDate: Date) => {
+  const fetchHistoricalWeather = async (
+    lat: number,
+    lon: number,
+    startDate: Date,
+    endDate: Date,
+    {
+      variables = formData.variables ?? [],
+      resolution = formData.resolution ?? "daily",
+    }: { variables?: DailyVariableKey[]; resolution?: RecordResolution } = {},
+  ) => {
+    // Only the latest request may update the form; starting a new one cancels the previous
+    weatherRequest.current?.abort()
+    const controller = new AbortController()
+    weatherRequest.current = controller
+
     setIsLoadingWeather(true)
+    setWeatherProgress(null)
     try {
-      // Calculate the cutoff date (4 days ago)
-      const cutoffDate = subDays(startOfToday(), 4)
-      
-      // Split the date range into archive and recent periods
-      const archiveEndDate = isBefore(endDate, cutoffDate) ? endDate : cutoffDate
-      const needsRecentData = isAfter(endDate, cutoffDate)
-      
-      // Fetch historical data from archive API
-      const archiveResponse = await axios.get(`https://archive-api.open-meteo.com/v1/archive`, {
-        params: {
-          latitude: lat,
-          longitude: lon,
-          start_date: dateFormat(startDate, 'yyyy-MM-dd'),
-          end_date: dateFormat(archiveEndDate, 'yyyy-MM-dd'),
-          daily: ['temperature_2m_max', 'temperature_2m_min', 'temperature_2m_mean', 'relative_humidity_2m_mean', 'wind_speed_10m_mean'],
-          timezone: 'auto'
-        },
-      })
-      // @ts-expect-error: We know temperatures is an array 
-      const temperatures = []
-      
-      // Process archive data
-      const { daily } = archiveResponse.data
-      for (let i = 0; i < daily.time.length; i++) {
-        temperatures.push({
-          date: new Date(daily.time[i]),
-          temperature: daily.temperature_2m_mean[i],
-          description: `High: ${daily.temperature_2m_max[i]}°C, Low: ${daily.temperature_2m_min[i]}°C`,
-          humidity: daily.relative_humidity_2m_mean[i],
-          windSpeed: daily.wind_speed_10m_mean[i],
+      const { data: days } = await fetchHistoricalRange(
+        { lat, lon, startDate, endDate, variables },
+        { signal: controller.signal, onProgress: (progress) => setWeatherProgress({ ...progress, stage: "daily" }) }
+      )
+
+      // Days without a mean temperature (e.g. ones the archive hasn't caught up with) are left out rather than saved as 0 °C
+      const temperatures: WeatherRecord["temperatures"] = days.flatMap((day) =>
+        day.temperatureMean === null
+          ? []
+          : [{
+              date: new Date(day.date),
+              temperature: day.temperatureMean,
+              description: formatHighLow(day.temperatureMax, day.temperatureMin),
+              tempMax: day.temperatureMax ?? undefined,
+              tempMin: day.temperatureMin ?? undefined,
+              precipitation: day.precipitationSum ?? undefined,
+              humidity: day.humidityMean ?? undefined,
+              windSpeed: day.windSpeedMean ?? undefined,
+              values: day.values,
+            }]
+      )
+      const missingDays = days.length - temperatures.length
+      if (missingDays > 0) {
+        toast({
+          title: "Incomplete data",
+          description: `${missingDays} ${missingDays === 1 ? "day has" : "days have"} no mean temperature and ${missingDays === 1 ? "was" : "were"} left out`,
         })
       }
-  
-      // If we need recent data, fetch from the forecast API
-      if (needsRecentData) {
-        const forecastResponse = await axios.get(`https://api.open-meteo.com/v1/forecast`, {
-          params: {
-            latitude: lat,
-            longitude: lon,
-            start_date: dateFormat(addDays(cutoffDate, 1), 'yyyy-MM-dd'),
-            end_date: dateFormat(endDate, 'yyyy-MM-dd'),
-            daily: ['temperature_2m_max', 'temperature_2m_min', 'temperature_2m_mean', 'relative_humidity_2m_mean', 'wind_speed_10m_mean'],
-            timezone: 'auto'
-          },
-        })
-  
-        const recentDaily = forecastResponse.data.daily
-        for (let i = 0; i < recentDaily.time.length; i++) {
-          temperatures.push({
-            date: new Date(recentDaily.time[i]),
-            temperature: recentDaily.temperature_2m_mean[i],
-            description: `High: ${recentDaily.temperature_2m_max[i]}°C, Low: ${recentDaily.temperature_2m_min[i]}°C`,
-            humidity: recentDaily.relative_humidity_2m_mean[i],
-            windSpeed: recentDaily.wind_speed_10m_mean[i],
-          })
-        }
+
+      let hourly: WeatherRecord["hourly"]
+      if (resolution === "hourly") {
+        const { data: hours } = await fetchHistoricalHourlyRange(
+          { lat, lon, startDate, endDate },
+          { signal: controller.signal, onProgress: (progress) => setWeatherProgress({ ...progress, stage: "hourly" }) }
+        )
+        hourly = hours.map((hour) => ({
+          time: hour.time,
+          temperature: hour.temperature ?? undefined,
+          humidity: hour.humidity ?? undefined,
+          precipitation: hour.precipitation ?? undefined,
+          windSpeed: hour.windSpeed ?? undefined,
+          windDirection: hour.windDirection ?? undefined,
+          cloudCover: hour.cloudCover ?? undefined,
+          pressure: hour.pressure ?? undefined,
+          description: hour.condition?.description,
+        }))
       }
-  
-      // Sort temperatures by date to ensure proper ordering
-      temperatures.sort((a, b) => compareAsc(new Date(a.date), new Date(b.date)))
-      // @ts-expect-error: We know temperatures is an array
-      setFormData(prev => ({ ...prev, temperatures }))
+
+      setFormData(prev => ({ ...prev, temperatures, hourly }))
     } catch (error) {
+      if (isWeatherClientError(error) && error.kind === "aborted") return
+
       console.error("Weather data fetch error", error)
       toast({
         title: "Error",
-        description: "Failed to fetch weather data",
+        description: isWeatherClientError(error) ? describeWeatherError(error) : "Failed to fetch weather data",
         variant: "destructive",
       })
     } finally {
-      setIsLoadingWeather(false)
+      if (weatherRequest.current === controller) {
+        weatherRequest.current = null
+        setIsLoadingWeather(false)
+        setWeatherProgress(null)
+      }
+    }
+  }
+
+  const cancelHistoricalWeather = () => {
+    weatherRequest.current?.abort()
+  }
+
+  useEffect(() => () => weatherRequest.current?.abort(), [])
+
+  const handleVariablesChange = async (variables: DailyVariableKey[]) => {
+    setFormData(prev => ({ ...prev, variables }))
+
+    if (formData.location?.name && formData.dateRange) {
+      await fetchHistoricalWeather(
+        formData.location.coordinates.lat,
+        formData.location.coordinates.lon,
+        formData.dateRange.startDate,
+        formData.dateRange.endDate,
+        { variables }
+      )
+    }
+  }
+
+  const handleResolutionChange = async (resolution: RecordResolution) => {
+    if (resolution === "hourly" && isHourlyRangeTooLong) return
+    setFormData(prev => ({ ...prev, resolution }))
+
+    if (formData.location?.name && formData.dateRange) {
+      await fetchHistoricalWeather(
+        formData.location.coordinates.lat,
+        formData.location.coordinates.lon,
+        formData.dateRange.startDate,
+        formData.dateRange.endDate,
+        { resolution }
+      )
     }
   }
 
@@ -260,46 +349,114 @@ export default function WeatherRecordsCard() {
     setFormData(prev => ({
       ...prev,
       location: {
-        name: suggestion.display_name,
+        name: suggestion.displayName,
         coordinates: {
-          lat: Number.parseFloat(suggestion.lat),
-          lon: Number.parseFloat(suggestion.lon),
+          lat: suggestion.lat,
+          lon: suggestion.lon,
         },
       },
     }))
 
-    setLocationSuggestions([])
-    setLocationQuery(suggestion.display_name)
-
     await fetchHistoricalWeather(
-      Number.parseFloat(suggestion.lat),
-      Number.parseFloat(suggestion.lon),
+      suggestion.lat,
+      suggestion.lon,
       startDate,
       endDate
     )
   }
 
 
+  // Queued offline changes are sent before the list is loaded, and again whenever the browser reconnects
   useEffect(() => {
-    fetchRecords()
+    const reconnect = async () => {
+      setIsOffline(!navigator.onLine)
+      await syncRecords()
+      await fetchRecords()
+    }
+    const disconnect = () => setIsOffline(true)
+
+    reconnect()
+    window.addEventListener("online", reconnect)
+    window.addEventListener("offline", disconnect)
+    return () => {
+      window.removeEventListener("online", reconnect)
+      window.removeEventListener("offline", disconnect)
+    }
   }, [])
 
+  // Pending changes are retried with a growing delay until they go through; rejected ones wait for "Retry"
+  const hasPendingChanges = Object.values(syncStatus).includes("pending")
+  useEffect(() => {
+    if (!hasPendingChanges) {
+      syncRetryDelay.current = SYNC_RETRY_MIN_MS
+      return
+    }
+    const retry = async () => {
+      syncRetryDelay.current = Math.min(syncRetryDelay.current * 2, SYNC_RETRY_MAX_MS)
+      if ((await syncRecords()) > 0) await fetchRecords()
+    }
+    const timer = setTimeout(retry, syncRetryDelay.current)
+    return () => clearTimeout(timer)
+  }, [syncStatus, hasPendingChanges])
+
   const fetchRecords = async () => {
     try {
-      const response = await axios.get(`${BACKEND_URL}/api/weather/`)
-      setRecords(response.data)
+      const { records, offline } = await loadRecords()
+      setRecords(records)
+      setIsOffline(offline)
     } catch (error) {
       console.error("Error fetching records", error)
       toast({
         title: "Error",
-        description: "Failed to fetch weather records",
+        description: recordErrorDescription(error, "Failed to fetch weather records"),
         variant: "destructive",
       })
     }
+    setSyncStatus(await getSyncStatus())
+  }
+
+  /**
+   * @param retryFailed - Also resend changes the backend rejected before
+   * @returns how many queued changes went through
+   */
+  const syncRecords = async (retryFailed = false) => {
+    let synced = 0
+    try {
+      const report = await syncOutbox({ retryFailed })
+      synced = report.synced
+      if (report.synced > 0) {
+        toast({
+          title: "Synced",
+          description: `Uploaded ${report.synced} offline ${report.synced === 1 ? "change" : "changes"}`,
+        })
+      }
+      if (report.conflicts.length > 0) setConflict(report.conflicts[0])
+    } catch (error) {
+      console.error("Error syncing records", error)
+    }
+    setSyncStatus(await getSyncStatus())
+    return synced
+  }
+
+  /** Sends queued changes and reloads the list when any went through, so records created offline get their real ids */
+  const resyncRecords = async () => {
+    if ((await syncRecords()) > 0) await fetchRecords()
+  }
+
+  const retrySync = async () => {
+    await syncRecords(true)
+    await fetchRecords()
+  }
+
+  const notifyQueued = () => {
+    toast({
+      title: "Saved on this device",
+      description: "The change will be uploaded when the backend is reachable",
+    })
   }
 
   const saveRecord = async () => {
-    if (!formData.location?.name || !formData.temperatures || formData.temperatures.length === 0) {
+    if (!formData.location?.name || !formData.dateRange || !formData.temperatures || formData.temperatures.length === 0) {
       toast({
         title: "Error",
         description: "Please select a valid location and ensure weather data is loaded",
@@ -308,34 +465,179 @@ export default function WeatherRecordsCard() {
       return
     }
 
+    const input: WeatherRecordInput = {
+      location: formData.location,
+      dateRange: formData.dateRange,
+      temperatures: formData.temperatures,
+      variables: formData.variables ?? [],
+      resolution: formData.resolution ?? "daily",
+      hourly: formData.resolution === "hourly" ? formData.hourly : undefined,
+      schemaVersion: RECORD_SCHEMA_VERSION,
+    }
+
+    // The form is cleared right away; it comes back if the save fails so nothing is lost
+    const previous = { formData, selectedRecord, locationQuery }
+    const restoreForm = () => {
+      setFormData(previous.formData)
+      setSelectedRecord(previous.selectedRecord)
+      setLocationQuery(previous.locationQuery)
+      setActiveTab("create")
+    }
+    resetForm()
+
+    if (selectedRecord?._id) {
+      await commitUpdate(selectedRecord, input, restoreForm)
+    } else {
+      await commitCreate(input, restoreForm)
+    }
+  }
+
+  const setRecordPending = (id: string, pending: boolean) => {
+    setPendingRecordIds(prev => (pending ? [...prev, id] : prev.filter(pendingId => pendingId !== id)))
+  }
+
+  const replaceRecord = (id: string, replacement: WeatherRecord) => {
+    setRecords(prev => prev.map((record) => (record._id === id ? replacement : record)))
+  }
+
+  const commitCreate = async (input: WeatherRecordInput, rollback: () => void) => {
+    const pendingId = `${PENDING_ID_PREFIX}${Date.now()}`
+    setRecords(prev => [...prev, { ...input, _id: pendingId, createdAt: new Date() }])
+    setRecordPending(pendingId, true)
+
     try {
-      if (selectedRecord?._id) {
-        const response = await axios.put(`${BACKEND_URL}/api/weather/${selectedRecord._id}`, formData)
-        setRecords(records.map((record) => (record._id === selectedRecord._id ? response.data : record)))
+      const { value: created, queued } = await saveNewRecord(input)
+      replaceRecord(pendingId, created)
+      if (queued) {
+        notifyQueued()
+        resyncRecords()
+      } else {
         toast({
           title: "Success",
-          description: "Weather record updated successfully",
+          description: "Weather record created successfully",
         })
+      }
+    } catch (error) {
+      console.error("Error creating record", error)
+      setRecords(prev => prev.filter((record) => record._id !== pendingId))
+      rollback()
+      toast({
+        title: "Error",
+        description: recordErrorDescription(error, "Failed to save weather record"),
+        variant: "destructive",
+      })
+    } finally {
+      setRecordPending(pendingId, false)
+      setSyncStatus(await getSyncStatus())
+    }
+  }
+
+  /** @param base - Version the edit started from, shown again if the update fails */
+  const commitUpdate = async (base: WeatherRecord, input: WeatherRecordInput, rollback?: () => void) => {
+    if (!base._id) return
+    const id = base._id
+    replaceRecord(id, { ...base, ...input })
+    setRecordPending(id, true)
+
+    try {
+      const { value: updated, queued } = await saveRecordUpdate(id, input, base)
+      replaceRecord(id, updated)
+      if (queued) {
+        notifyQueued()
+        resyncRecords()
       } else {
-        const response = await axios.post(`${BACKEND_URL}/api/weather/`, formData)
-        setRecords([...records, response.data])
         toast({
           title: "Success",
-          description: "Weather record created successfully",
+          description: "Weather record updated successfully",
         })
       }
-
-      resetForm()
     } catch (error) {
-      console.error("Error saving record", error)
+      if (isRecordConflictError(error)) {
+        // Show what is actually stored and let the user decide what to keep
+        replaceRecord(id, error.current)
+        setConflict({ mine: input, theirs: error.current })
+        return
+      }
+      console.error("Error updating record", error)
+      replaceRecord(id, base)
+      rollback?.()
       toast({
         title: "Error",
-        description: "Failed to save weather record",
+        description: recordErrorDescription(error, "Failed to save weather record"),
         variant: "destructive",
       })
+    } finally {
+      setRecordPending(id, false)
+      setSyncStatus(await getSyncStatus())
     }
   }
 
+  const removeRecord = (id: string) => {
+    const index = records.findIndex((record) => record._id === id)
+    const removed = records[index]
+    if (!removed) return
+
+    setRecords(prev => prev.filter((record) => record._id !== id))
+    setSelectedRecordIds(prev => prev.filter((selectedId) => selectedId !== id))
+    const restore = () =>
+      setRecords(prev =>
+        prev.some((record) => record._id === id) ? prev : [...prev.slice(0, index), removed, ...prev.slice(index)]
+      )
+
+    // The backend delete waits for the undo window, so undoing keeps the record's id and creation date
+    const timer = setTimeout(async () => {
+      pendingDeletes.current.delete(id)
+      try {
+        const { queued } = await removeSavedRecord(id)
+        if (queued) resyncRecords()
+      } catch (error) {
+        console.error("Error deleting record", error)
+        restore()
+        toast({
+          title: "Error",
+          description: "Failed to delete weather record, it has been restored",
+          variant: "destructive",
+        })
+      }
+    }, UNDO_DELETE_MS)
+    pendingDeletes.current.set(id, timer)
+
+    const undo = () => {
+      if (!pendingDeletes.current.has(id)) return
+      clearTimeout(timer)
+      pendingDeletes.current.delete(id)
+      restore()
+    }
+
+    toast({
+      title: "Weather record deleted",
+      description: removed.location.name,
+      duration: UNDO_DELETE_MS,
+      action: (
+        <ToastAction altText="Undo delete" onClick={undo}>
+          Undo
+        </ToastAction>
+      ),
+    })
+  }
+
+  // Deletes still inside their undo window are sent when the card unmounts or the page is left
+  useEffect(() => {
+    const pending = pendingDeletes.current
+    const flush = () => {
+      pending.forEach((timer, id) => {
+        clearTimeout(timer)
+        removeSavedRecord(id, { keepalive: true }).catch((error) => console.error("Error deleting record", error))
+      })
+      pending.clear()
+    }
+    window.addEventListener("pagehide", flush)
+    return () => {
+      window.removeEventListener("pagehide", flush)
+      flush()
+    }
+  }, [])
+
   const resetForm = () => {
     setFormData({
       location: { name: "", coordinates: { lat: 0, lon: 0 } },
@@ -343,6 +645,9 @@ export default function WeatherRecordsCard() {
         startDate: new Date(),
         endDate: addDays(new Date(), 5),
       },
+      // Keep the variable selection so several records can be created with the same columns
+      variables: formData.variables,
+      resolution: formData.resolution,
     })
     setSelectedRecord(null)
     setLocationQuery("")
@@ -350,118 +655,85 @@ export default function WeatherRecordsCard() {
 
   const handleEditRecord = (record: WeatherRecord) => {
     setSelectedRecord(record)
-    setFormData({
-      ...record,
-      dateRange: {
-        startDate: new Date(record.dateRange.startDate),
-        endDate: new Date(record.dateRange.endDate),
-      },
-    })
+    setFormData(record)
     setLocationQuery(record.location.name)
   }
-  // Update location search to only trigger on Enter or button click
-  const handleLocationInputChange = (e: React.ChangeEvent<HTMLInputElement>) => {
-    setLocationQuery(e.target.value)
-  }
+  const exportRecord = (record: WeatherRecord, exporter: RecordExporter) => {
+    try {
+      downloadFile(exporter.serialize(record, units), `${recordFileName(record)}.${exporter.extension}`, exporter.mimeType);
 
-  const handleLocationInputKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
-    if (e.key === "Enter" && locationQuery.length >= 3) {
-      searchLocation(locationQuery)
-    }
-  }
-  // @ts-expect-error: field is a same 
-  const escapeCSV = (field) => {
-    // If the field contains commas, quotes, or newlines, wrap it in quotes
-    if (field && (field.includes(',') || field.includes('"') || field.includes('\n'))) {
-      // Replace any quotes with double quotes (CSV standard)
-      return `"${field.replace(/"/g, '""')}"`;
+      toast({
+        title: "Success",
+        description: `Record exported as ${exporter.label}`,
+      });
+    } catch (error) {
+      console.error("Export error:", error);
+      toast({
+        title: "Error",
+        description: "Failed to export record",
+        variant: "destructive",
+      });
     }
-    return field;
   };
-  // @ts-expect-error: Record is sure to be a WeatherRecord
-  const convertToCSV = (record) => {
-    // Add metadata at the top of the CSV
-    const metadata = [
-      `# Location: ${record.location.name}`,
-      `# Latitude: ${record.location.coordinates.lat}`,
-      `# Longitude: ${record.location.coordinates.lon}`,
-      `# Date Range: ${dateFormat(new Date(record.dateRange.startDate), "yyyy-MM-dd")} to ${dateFormat(new Date(record.dateRange.endDate), "yyyy-MM-dd")}`,
-      '' // Empty line to separate metadata from data
-    ];
-
-    // CSV Headers
-    const headers = ['Date,Temperature (°C),Description,Humidity (%),Wind Speed (m/s)'];
-    
-    // Convert temperature records to CSV rows
-    // @ts-expect-error: temperatures is an array
-    const rows = record.temperatures.map(temp => {
-      // Ensure we're working with proper Date objects
-      const date = new Date(temp.date);
-      
-      // Create array of fields and properly escape each one
-      const fields = [
-        dateFormat(date, "yyyy-MM-dd"),
-        temp.temperature.toFixed(1),
-        temp.description,
-        temp.humidity?.toFixed(1) || '',
-        temp.windSpeed?.toFixed(1) || ''
-      ].map(escapeCSV);
-
-      return fields.join(',');
-    });
-
-    // Combine metadata, headers and rows
-    return [...metadata, ...headers, ...rows].join('\n');
+
+  const toggleRecordSelection = (id: string) => {
+    setSelectedRecordIds(prev => (prev.includes(id) ? prev.filter(selected => selected !== id) : [...prev, id]));
   };
 
-  // @ts-expect-error: record is sure to be a WeatherRecord and format is either 'json' or 'csv'
-  const exportRecord = (record, exportFormat) => {
+  /** Records with a save in flight can't be selected, edited or deleted yet */
+  const isRecordPending = (record: WeatherRecord) => !!record._id && pendingRecordIds.includes(record._id);
+
+  const matchingIds = matchingRecords.flatMap(record => (record._id && !isRecordPending(record) ? [record._id] : []));
+  const allMatchingSelected = matchingIds.length > 0 && matchingIds.every(id => selectedRecordIds.includes(id));
+
+  /** Selects or clears every record matching the current filters, across all pages */
+  const toggleAllRecords = () => {
+    setSelectedRecordIds(prev =>
+      allMatchingSelected ? prev.filter(id => !matchingIds.includes(id)) : [...new Set([...prev, ...matchingIds])]
+    );
+  };
+
+  const exportRecords = (exportFormat: 'csv' | 'json' | RecordExporter) => {
+    // Without a selection every record matching the filters is exported
+    const selected = selectedRecordIds.length > 0
+      ? records.filter(record => record._id && selectedRecordIds.includes(record._id))
+      : matchingRecords;
+    if (selected.length === 0) return;
+
     try {
-      let exportData;
-      let fileName = `weather-record-${dateFormat(new Date(record.createdAt), "yyyy-MM-dd")}`;
-      
-      if (exportFormat === 'json') {
-        // For JSON, include the full record data
-        exportData = JSON.stringify({
-          location: record.location,
-          dateRange: {
-            startDate: dateFormat(new Date(record.dateRange.startDate), "yyyy-MM-dd"),
-            endDate: dateFormat(new Date(record.dateRange.endDate), "yyyy-MM-dd")
-          },
-          //@ts-expect-error: temperatures is an array
-          temperatures: record.temperatures.map(temp => ({
-            ...temp,
-            date: dateFormat(new Date(temp.date), "yyyy-MM-dd"),
-            temperature: Number(temp.temperature.toFixed(1)),
-            humidity: temp.humidity ? Number(temp.humidity.toFixed(1)) : null,
-            windSpeed: temp.windSpeed ? Number(temp.windSpeed.toFixed(1)) : null
-          })),
-          createdAt: dateFormat(new Date(record.createdAt), "yyyy-MM-dd")
-        }, null, 2);
-        fileName += '.json';
-        downloadFile(exportData, fileName, 'application/json');
-      } else if (exportFormat === 'csv') {
-        exportData = convertToCSV(record);
-        fileName += '.csv';
-        downloadFile(exportData, fileName, 'text/csv');
+      const fileName = `weather-records-${dateFormat(new Date(), "yyyy-MM-dd")}`;
+
+      if (exportFormat === 'csv') {
+        downloadFile(recordsToCSV(selected, units), `${fileName}.csv`, 'text/csv');
+      } else if (exportFormat === 'json') {
+        downloadFile(JSON.stringify(recordsToJSON(selected, units), null, 2), `${fileName}.json`, 'application/json');
+      } else {
+        downloadFile(recordsToZip(selected, exportFormat, units), `${fileName}.zip`, 'application/zip');
       }
 
       toast({
         title: "Success",
-        description: `Record exported as ${exportFormat.toUpperCase()}`,
+        description: `Exported ${selected.length} ${selected.length === 1 ? "record" : "records"}`,
       });
     } catch (error) {
-      console.error("Export error:", error);
+      console.error("Bulk export error:", error);
       toast({
         title: "Error",
-        description: "Failed to export record",
+        description: "Failed to export records",
         variant: "destructive",
       });
     }
   };
 
-  //@ts-expect-error: content is a file, fileName is a string, and contentType is a string
-  const downloadFile = (content, fileName, contentType) => {
+  /** One selected record is compared with its climate normal, two with each other */
+  const compareSelected = () => {
+    const selected = selectedRecordIds
+      .map(id => records.find(record => record._id === id))
+      .filter((record): record is WeatherRecord => record !== undefined);
+    if (selected.length === 1 || selected.length === 2) setComparedRecords(selected);
+  };
+
+  const downloadFile = (content: BlobPart, fileName: string, contentType: string) => {
     const blob = new Blob([content], { type: contentType });
     const url = window.URL.createObjectURL(blob);
     const link = document.createElement('a');
@@ -475,8 +747,20 @@ export default function WeatherRecordsCard() {
 
   return (
     <Card className="w-full max-w-3xl bg-white/95 backdrop-blur">
-      <CardHeader>
-        <CardTitle>Historical Weather Records</CardTitle>
+      <CardHeader className="flex flex-row items-center justify-between space-y-0">
+        <CardTitle className="flex items-center gap-2">
+          Historical Weather Records
+          {isOffline && (
+            <span className="inline-flex items-center gap-1 rounded bg-amber-50 px-1.5 py-0.5 text-xs font-normal text-amber-700">
+              <WifiOff className="h-3 w-3" />
+              Offline
+            </span>
+          )}
+        </CardTitle>
+        <Button variant="outline" size="sm" onClick={() => setIsImportOpen(true)}>
+          <Upload className="h-4 w-4 mr-2" />
+          Import
+        </Button>
       </CardHeader>
       <CardContent>
         <Tabs value={activeTab} onValueChange={(value) => setActiveTab(value as "create" | "view")} className="w-full">
@@ -496,41 +780,12 @@ export default function WeatherRecordsCard() {
               {/* Location Search */}
               <div className="space-y-2">
                 <label className="text-sm font-medium">Location</label>
-                <div className="relative">
-                  <Input
-                    value={locationQuery}
-                    onChange={handleLocationInputChange}
-                    onKeyDown={handleLocationInputKeyDown}
-                    placeholder="Search for a location..."
-                    className="pr-10"
-                  />
-                  <Button
-                    variant="ghost"
-                    size="icon"
-                    className="absolute right-0 top-0"
-                    disabled={isSearching || locationQuery.length < 3}
-                    onClick={() => searchLocation(locationQuery)}
-                  >
-                    {isSearching ? <Loader2 className="h-4 w-4 animate-spin" /> : <Search className="h-4 w-4" />}
-                  </Button>
-                </div>
-                {locationSuggestions.length > 0 && (
-                  <Card className="absolute z-10 mt-1 w-full max-w-md">
-                    <CardContent className="p-0">
-                      {locationSuggestions.map((suggestion) => (
-                        <Button
-                          key={suggestion.place_id}
-                          variant="ghost"
-                          className="w-full justify-start text-left p-2 hover:bg-gray-100"
-                          onClick={() => handleLocationSelect(suggestion)}
-                        >
-                          <MapPin className="h-4 w-4 mr-2 flex-shrink-0" />
-                          <span className="truncate">{suggestion.display_name}</span>
-                        </Button>
-                      ))}
-                    </CardContent>
-                  </Card>
-                )}
+                <LocationSearch
+                  value={locationQuery}
+                  onValueChange={setLocationQuery}
+                  onSelect={handleLocationSelect}
+                  onError={(message) => toast({ title: "Error", description: message, variant: "destructive" })}
+                />
               </div>
 
               {/* Date Range Selection */}
@@ -543,6 +798,7 @@ export default function WeatherRecordsCard() {
                       variant={selectedRange === option ? "default" : "outline"}
                       className="w-full"
                       onClick={() => handleRangeChange(option)}
+                      disabled={formData.resolution === "hourly" && option.days > MAX_HOURLY_RECORD_DAYS}
                     >
                       {option.label}
                     </Button>
@@ -556,6 +812,7 @@ export default function WeatherRecordsCard() {
                         type="date"
                         value={formData.dateRange?.startDate ? dateFormat(formData.dateRange.startDate, "yyyy-MM-dd") : ""}
                         onChange={(e) => handleDateChange("start", new Date(e.target.value))}
+                        min={HISTORICAL_START_DATE}
                         max={dateFormat(today, "yyyy-MM-dd")}
                         disabled={isLoadingWeather}
                       />
@@ -566,6 +823,7 @@ export default function WeatherRecordsCard() {
                         type="date"
                         value={formData.dateRange?.endDate ? dateFormat(formData.dateRange.endDate, "yyyy-MM-dd") : ""}
                         onChange={(e) => handleDateChange("end", undefined, new Date(e.target.value))}
+                        min={HISTORICAL_START_DATE}
                         max={dateFormat(today, "yyyy-MM-dd")}
                         disabled={isLoadingWeather}
                       />
@@ -574,28 +832,112 @@ export default function WeatherRecordsCard() {
                 )}
               </div>
 
+              {/* Daily Variables */}
+              <div className="space-y-2">
+                <label className="text-sm font-medium">Daily Variables</label>
+                <DailyVariablePicker
+                  selected={formData.variables ?? []}
+                  onChange={handleVariablesChange}
+                  disabled={isLoadingWeather}
+                />
+              </div>
+
+              {/* Resolution */}
+              <div className="space-y-2">
+                <label className="text-sm font-medium">Resolution</label>
+                <div className="grid grid-cols-2 gap-2">
+                  {(["daily", "hourly"] as const).map((resolution) => (
+                    <Button
+                      key={resolution}
+                      variant={(formData.resolution ?? "daily") === resolution ? "default" : "outline"}
+                      className="w-full capitalize"
+                      onClick={() => handleResolutionChange(resolution)}
+                      disabled={isLoadingWeather || (resolution === "hourly" && isHourlyRangeTooLong)}
+                      title={
+                        resolution === "hourly" && isHourlyRangeTooLong
+                          ? `Hourly records cover at most ${MAX_HOURLY_RECORD_DAYS} days`
+                          : undefined
+                      }
+                    >
+                      {resolution}
+                    </Button>
+                  ))}
+                </div>
+              </div>
+
+              {/* Loading Progress */}
+              {isLoadingWeather && (
+                <div className="space-y-1">
+                  <div className="flex items-center justify-between text-xs text-gray-500">
+                    <span className="flex items-center">
+                      <Loader2 className="h-3 w-3 mr-1 animate-spin" />
+                      {weatherProgress && weatherProgress.totalChunks > 1
+                        ? `Loading ${weatherProgress.stage} data: year ${Math.min(weatherProgress.completedChunks + 1, weatherProgress.totalChunks)} of ${weatherProgress.totalChunks} (${weatherProgress.rows} rows)`
+                        : weatherProgress?.stage === "hourly" ? "Loading hourly data" : "Loading weather data"}
+                    </span>
+                    <Button variant="ghost" size="sm" className="h-6 px-2 text-xs" onClick={cancelHistoricalWeather}>
+                      <X className="h-3 w-3 mr-1" />
+                      Cancel
+                    </Button>
+                  </div>
+                  {weatherProgress && weatherProgress.totalChunks > 1 && (
+                    <div className="h-1.5 w-full overflow-hidden rounded-full bg-gray-100">
+                      <div
+                        className="h-full bg-primary transition-all"
+                        style={{ width: `${(weatherProgress.completedChunks / weatherProgress.totalChunks) * 100}%` }}
+                      />
+                    </div>
+                  )}
+                </div>
+              )}
+
               {/* Temperature Display */}
               {formData.temperatures && (
                 <div>
                   <h3 className="text-sm font-medium text-gray-700 mb-2">Historical Temperatures</h3>
-                  <ScrollArea className="h-60 rounded-md border">
-                    <div className="space-y-2 p-4">
-                      {formData.temperatures.map((temp, index) => (
-                        <div key={index} className="text-sm border-b last:border-0 pb-2">
+                  <div className="mb-4">
+                    <HistoricalWeatherChart temperatures={formData.temperatures} />
+                  </div>
+                  <VirtualizedList
+                    className="rounded-md border"
+                    height={240}
+                    count={formData.temperatures.length}
+                    rowHeight={formData.variables && formData.variables.length > 0 ? PREVIEW_ROW_HEIGHT + 16 : PREVIEW_ROW_HEIGHT}
+                    renderRow={(index) => {
+                      const temp = formData.temperatures![index]
+                      return (
+                        <div className="h-full text-sm border-b px-4 pt-2">
                           <div className="flex justify-between">
-                            <span>{dateFormat(new Date(temp.date), "PP")}</span>
-                            <span className="font-medium">{Number(temp.temperature).toFixed(1)}°C</span>
+                            <span>{format.date(temp.date)}</span>
+                            <span className="font-medium">{format.temperature(temp.temperature, 1)}</span>
                           </div>
                           <div className="flex justify-between text-xs text-gray-500">
-                            <span>{temp.description}</span>
                             <span>
-                              {temp.humidity}% · {temp.windSpeed} m/s
+                              High: {format.temperature(temp.tempMax, 1)}, Low: {format.temperature(temp.tempMin, 1)}
+                            </span>
+                            <span>
+                              {format.value(temp.precipitation, "mm")} · {format.value(temp.humidity, "%", 0)} · {format.wind(temp.windSpeed)}
                             </span>
                           </div>
+                          {formData.variables && formData.variables.length > 0 && (
+                            <div className="truncate text-xs text-gray-500">
+                              {formData.variables.map((key) => (
+                                <span key={key} className="mr-3">
+                                  {getDailyVariable(key).label}: {format.value(temp.values?.[key], getDailyVariable(key).unit)}
+                                </span>
+                              ))}
+                            </div>
+                          )}
                         </div>
-                      ))}
+                      )
+                    }}
+                  />
+                  {formData.resolution === "hourly" && formData.hourly && (
+                    <div className="mt-4">
+                      <h3 className="text-sm font-medium text-gray-700 mb-2">Hourly Conditions</h3>
+                      <HourlyWeatherChart hours={formData.hourly} />
                     </div>
-                  </ScrollArea>
+                  )}
                 </div>
               )}
 
@@ -613,24 +955,121 @@ export default function WeatherRecordsCard() {
 
           <TabsContent value="view">
             <div className="space-y-4">
-              {records.map((record) => (
+              {records.length > 0 && (
+                <RecordFilters
+                  query={recordQuery}
+                  onChange={setRecordQuery}
+                  matchingCount={matchingRecords.length}
+                  totalCount={records.length}
+                />
+              )}
+              {matchingRecords.length > 0 && (
+                <div className="flex items-center justify-between">
+                  <label className="flex items-center gap-2 text-sm">
+                    <input
+                      type="checkbox"
+                      className="h-4 w-4"
+                      checked={allMatchingSelected}
+                      onChange={toggleAllRecords}
+                    />
+                    {selectedRecordIds.length > 0 ? `${selectedRecordIds.length} selected` : "Select all"}
+                  </label>
+                  <div className="flex gap-2">
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      disabled={selectedRecordIds.length < 1 || selectedRecordIds.length > 2}
+                      title="Select two records, or one to compare with its 1991–2020 climate normal"
+                      onClick={compareSelected}
+                    >
+                      <GitCompare className="h-4 w-4 mr-2" />
+                      {selectedRecordIds.length === 1 ? "Compare with normal" : "Compare"}
+                    </Button>
+                    <DropdownMenu>
+                      <DropdownMenuTrigger asChild>
+                        <Button variant="outline" size="sm">
+                          <Download className="h-4 w-4 mr-2" />
+                          {selectedRecordIds.length > 0
+                            ? `Export ${selectedRecordIds.length} selected`
+                            : hasRecordFilters(recordQuery) ? `Export ${matchingRecords.length} matching` : "Export all"}
+                        </Button>
+                      </DropdownMenuTrigger>
+                      <DropdownMenuContent align="end">
+                        <DropdownMenuItem onClick={() => exportRecords('csv')}>Combined CSV</DropdownMenuItem>
+                        <DropdownMenuItem onClick={() => exportRecords('json')}>JSON array</DropdownMenuItem>
+                        {RECORD_EXPORTERS.map((exporter) => (
+                          <DropdownMenuItem key={exporter.id} onClick={() => exportRecords(exporter)}>
+                            ZIP of {exporter.label} files
+                          </DropdownMenuItem>
+                        ))}
+                      </DropdownMenuContent>
+                    </DropdownMenu>
+                  </div>
+                </div>
+              )}
+              {records.length > 0 && matchingRecords.length === 0 && (
+                <p className="text-sm text-gray-500 text-center py-6">No records match these filters.</p>
+              )}
+              {pageRecords.map((record) => (
                 <Card key={record._id} className="hover:bg-gray-50 transition-colors">
                   <CardContent className="p-4">
                     <div className="flex justify-between items-start">
+                      <div className="flex items-start gap-3">
+                        <input
+                          type="checkbox"
+                          className="mt-1 h-4 w-4"
+                          aria-label={`Select ${record.location.name}`}
+                          checked={!!record._id && selectedRecordIds.includes(record._id)}
+                          disabled={isRecordPending(record)}
+                          onChange={() => record._id && toggleRecordSelection(record._id)}
+                        />
                       <div>
-                        <h3 className="font-medium">{record.location.name}</h3>
+                        <h3 className="font-medium flex items-center gap-2">
+                          {record.location.name}
+                          {isRecordPending(record) && <Loader2 className="h-3 w-3 animate-spin text-gray-400" aria-label="Saving" />}
+                        </h3>
                         <p className="text-sm text-gray-500">
-                          {dateFormat(new Date(record.dateRange.startDate), "PP")} -{" "}
-                          {dateFormat(new Date(record.dateRange.endDate), "PP")}
+                          {format.date(record.dateRange.startDate)} -{" "}
+                          {format.date(record.dateRange.endDate)}
                         </p>
                         <p className="text-xs text-gray-400 mt-1">
-                          Created: {dateFormat(new Date(record.createdAt), "PPp")}
+                          Created: {format.date(record.createdAt, { dateStyle: "medium", timeStyle: "short" })}
                         </p>
+                        {!isRecordPending(record) && (
+                          <div className="mt-1">
+                            <SyncStatusBadge
+                              status={(record._id && syncStatus[record._id]) || "synced"}
+                              onRetry={retrySync}
+                            />
+                          </div>
+                        )}
+                        {(record.resolution === "hourly" || (record.variables && record.variables.length > 0)) && (
+                          <div className="flex flex-wrap gap-1 mt-2">
+                            {record.resolution === "hourly" && (
+                              <span className="rounded bg-blue-50 px-1.5 py-0.5 text-xs text-blue-700">Hourly</span>
+                            )}
+                            {(record.variables ?? []).map((key) => (
+                              <span key={key} className="rounded bg-gray-100 px-1.5 py-0.5 text-xs text-gray-600">
+                                {getDailyVariable(key).label}
+                              </span>
+                            ))}
+                          </div>
+                        )}
+                      </div>
                       </div>
                       <div className="flex space-x-2">
                         <Button
                           variant="ghost"
                           size="icon"
+                          aria-pressed={chartedRecordId === record._id}
+                          onClick={() => setChartedRecordId(chartedRecordId === record._id ? null : record._id ?? null)}
+                        >
+                          <ChartLine className="h-4 w-4" />
+                        </Button>
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          disabled={isRecordPending(record)}
                           onClick={() => {
                             handleEditRecord(record);
                             setActiveTab("create");
@@ -645,17 +1084,17 @@ export default function WeatherRecordsCard() {
                             </Button>
                           </DropdownMenuTrigger>
                           <DropdownMenuContent>
-                            <DropdownMenuItem onClick={() => exportRecord(record, 'json')}>
-                              Export as JSON
-                            </DropdownMenuItem>
-                            <DropdownMenuItem onClick={() => exportRecord(record, 'csv')}>
-                              Export as CSV
-                            </DropdownMenuItem>
+                            {RECORD_EXPORTERS.map((exporter) => (
+                              <DropdownMenuItem key={exporter.id} onClick={() => exportRecord(record, exporter)}>
+                                Export as {exporter.label}
+                              </DropdownMenuItem>
+                            ))}
                           </DropdownMenuContent>
                         </DropdownMenu>
                         <Button
                           variant="ghost"
                           size="icon"
+                          disabled={isRecordPending(record)}
                           onClick={() => {
                             setRecordToDelete(record._id || null);
                             setIsDeleteModalOpen(true);
@@ -665,19 +1104,78 @@ export default function WeatherRecordsCard() {
                         </Button>
                       </div>
                     </div>
+                    {chartedRecordId === record._id && (
+                      <div className="mt-4">
+                        <HistoricalWeatherChart temperatures={record.temperatures} />
+                        {record.resolution === "hourly" && record.hourly && (
+                          <div className="mt-4">
+                            <HourlyWeatherChart hours={record.hourly} />
+                          </div>
+                        )}
+                      </div>
+                    )}
                   </CardContent>
                 </Card>
               ))}
+              {pageCount > 1 && (
+                <div className="flex items-center justify-between">
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    disabled={page <= 1}
+                    onClick={() => setRecordQuery({ page: page - 1 })}
+                  >
+                    <ChevronLeft className="h-4 w-4 mr-1" />
+                    Previous
+                  </Button>
+                  <span className="text-sm text-gray-500">
+                    Page {page} of {pageCount}
+                  </span>
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    disabled={page >= pageCount}
+                    onClick={() => setRecordQuery({ page: page + 1 })}
+                  >
+                    Next
+                    <ChevronRight className="h-4 w-4 ml-1" />
+                  </Button>
+                </div>
+              )}
             </div>
           </TabsContent>
         </Tabs>
 
+        <ImportRecordDialog
+          open={isImportOpen}
+          onOpenChange={setIsImportOpen}
+          onImported={(record) => {
+            setRecords(prev => [...prev, record])
+            setActiveTab("view")
+          }}
+        />
+
+        <RecordConflictDialog
+          conflict={conflict}
+          onKeepTheirs={() => setConflict(null)}
+          onOverwrite={(rejected) => {
+            setConflict(null)
+            commitUpdate(rejected.theirs, rejected.mine)
+          }}
+        />
+
+        <RecordComparisonDialog
+          records={comparedRecords}
+          onClose={() => setComparedRecords(null)}
+          onDownload={downloadFile}
+        />
+
         <Dialog open={isDeleteModalOpen} onOpenChange={setIsDeleteModalOpen}>
           <DialogContent>
             <DialogHeader>
               <DialogTitle>Delete Weather Record</DialogTitle>
               <DialogDescription>
-                Are you sure you want to delete this weather record? This action cannot be undone.
+                Are you sure you want to delete this weather record? You can undo this for a few seconds afterwards.
               </DialogDescription>
             </DialogHeader>
             <DialogFooter>
@@ -686,26 +1184,10 @@ export default function WeatherRecordsCard() {
               </Button>
               <Button
                 variant="destructive"
-                onClick={async () => {
-                  if (!recordToDelete) return
-
-                  try {
-                    await axios.delete(`${BACKEND_URL}/api/weather/${recordToDelete}`)
-                    setRecords(records.filter((record) => record._id !== recordToDelete))
-                    setIsDeleteModalOpen(false)
-                    setRecordToDelete(null)
-                    toast({
-                      title: "Success",
-                      description: "Weather record deleted successfully",
-                    })
-                  } catch (error) {
-                    console.error("Error deleting record", error)
-                    toast({
-                      title: "Error",
-                      description: "Failed to delete weather record",
-                      variant: "destructive",
-                    })
-                  }
+                onClick={() => {
+                  if (recordToDelete) removeRecord(recordToDelete)
+                  setIsDeleteModalOpen(false)
+                  setRecordToDelete(null)
                 }}
               >
                 Delete
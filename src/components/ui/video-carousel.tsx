@@ -3,21 +3,10 @@
 import * as React from "react"
 import { ChevronLeft, ChevronRight } from "lucide-react"
 import { Button } from "@/components/ui/button"
-
-interface Video {
-  id: { videoId: string }
-  snippet: {
-    title: string
-    thumbnails: {
-      medium: {
-        url: string
-      }
-    }
-  }
-}
+import type { LocationVideo } from "@/lib/weather"
 
 interface VideoCarouselProps {
-  videos: Video[]
+  videos: LocationVideo[]
 }
 
 export function VideoCarousel({ videos }: VideoCarouselProps) {
@@ -43,18 +32,18 @@ export function VideoCarousel({ videos }: VideoCarouselProps) {
     <div className="relative h-40 group">
       <div className="absolute inset-0">
         <a
-          href={`https://www.youtube.com/watch?v=${videos[currentIndex].id.videoId}`}
+          href={`https://www.youtube.com/watch?v=${videos[currentIndex].videoId}`}
           target="_blank"
           rel="noopener noreferrer"
           className="block w-full h-full"
         >
           <img
-            src={videos[currentIndex].snippet.thumbnails.medium.url || "/placeholder.svg"}
-            alt={videos[currentIndex].snippet.title}
+            src={videos[currentIndex].thumbnailUrl || "/placeholder.svg"}
+            alt={videos[currentIndex].title}
             className="w-full h-full object-cover"
           />
           <div className="absolute bottom-0 left-0 right-0 bg-black/60 p-2">
-            <p className="text-white text-sm line-clamp-1">{videos[currentIndex].snippet.title}</p>
+            <p className="text-white text-sm line-clamp-1">{videos[currentIndex].title}</p>
           </div>
         </a>
       </div>
@@ -0,0 +1,133 @@
+"use client"
+
+import { useCallback, useEffect, useRef, useState } from "react"
+import { idbGet, idbPut } from "@/lib/idb"
+import { favoriteId } from "@/lib/favorites"
+import {
+  fetchAirQuality,
+  fetchCurrent,
+  fetchForecast,
+  type AirQuality,
+  type Coordinates,
+  type CurrentConditions,
+  type Forecast,
+  type ProviderResult,
+} from "@/lib/weather"
+
+/** Key in the IndexedDB "state" store of the pinned comparison locations */
+const COMPARISON_PINS_KEY = "comparisonPins"
+
+export const MIN_COMPARISON_PINS = 2
+export const MAX_COMPARISON_PINS = 6
+
+/** Colour of each pin by position, shared by its map marker, table column and chart line */
+export const COMPARISON_COLORS = ["#2563eb", "#ef4444", "#16a34a", "#f59e0b", "#a855f7", "#0d9488"]
+
+export interface ComparisonPin {
+  /** Same id as a favorite of the location (see lib/favorites) */
+  id: string
+  name: string
+  lat: number
+  lon: number
+}
+
+export interface PinWeather {
+  isLoading: boolean
+  current: ProviderResult<CurrentConditions> | null
+  forecast: ProviderResult<Forecast> | null
+  air: ProviderResult<AirQuality> | null
+  /** Set when the current conditions could not be loaded; forecast and air quality may still be missing silently */
+  error?: string
+}
+
+const EMPTY_WEATHER: PinWeather = { isLoading: false, current: null, forecast: null, air: null }
+
+const settledValue = <T>(result: PromiseSettledResult<T>) => (result.status === "fulfilled" ? result.value : null)
+
+/**
+ * Locations pinned for side-by-side comparison and their current conditions, forecast and air quality.
+ * - Pins are restored from IndexedDB on mount and saved on every change; at most MAX_COMPARISON_PINS
+ * - Pins added before the saved ones have loaded are kept after them, up to the limit
+ * - Weather is (re)loaded whenever the pins change; unchanged pins are answered from the weather cache
+ * - A pin whose forecast or air quality fails still shows the data that loaded
+ */
+export function useComparison() {
+  const [pins, setPins] = useState<ComparisonPin[]>([])
+  const [weather, setWeather] = useState<Record<string, PinWeather>>({})
+
+  // Latest pins, so changes are computed and saved outside the state updater
+  const pinsRef = useRef(pins)
+
+  const update = useCallback((change: (current: ComparisonPin[]) => ComparisonPin[]) => {
+    const next = change(pinsRef.current)
+    pinsRef.current = next
+    setPins(next)
+    void idbPut<ComparisonPin[]>("state", COMPARISON_PINS_KEY, next)
+  }, [])
+
+  useEffect(() => {
+    idbGet<ComparisonPin[]>("state", COMPARISON_PINS_KEY).then((saved) => {
+      if (!saved) return
+      // Pins added meanwhile were saved without the restored ones, so the merged list is saved again
+      if (pinsRef.current.length === 0) {
+        pinsRef.current = saved
+        setPins(saved)
+      } else {
+        update((current) =>
+          [...saved, ...current.filter((pin) => !saved.some((s) => s.id === pin.id))].slice(0, MAX_COMPARISON_PINS),
+        )
+      }
+    })
+  }, [update])
+
+  useEffect(() => {
+    const controller = new AbortController()
+    const { signal } = controller
+
+    for (const pin of pins) {
+      setWeather((previous) => ({
+        ...previous,
+        [pin.id]: { ...(previous[pin.id] ?? EMPTY_WEATHER), isLoading: true },
+      }))
+
+      const coordinates = { lat: pin.lat, lon: pin.lon }
+      Promise.allSettled([
+        fetchCurrent(coordinates, { signal }),
+        fetchForecast(coordinates, { signal }),
+        fetchAirQuality(coordinates, { signal }),
+      ]).then(([current, forecast, air]) => {
+        if (signal.aborted) return
+        if (current.status === "rejected") console.error("Comparison weather error:", current.reason)
+        setWeather((previous) => ({
+          ...previous,
+          [pin.id]: {
+            isLoading: false,
+            current: settledValue(current),
+            forecast: settledValue(forecast),
+            air: settledValue(air),
+            error: current.status === "rejected" ? "Weather unavailable" : undefined,
+          },
+        }))
+      })
+    }
+
+    return () => controller.abort()
+  }, [pins])
+
+  /** Pins a location; ignored when it is already pinned or MAX_COMPARISON_PINS are pinned */
+  const addPin = useCallback(
+    (location: Coordinates & { name: string }) => {
+      const id = favoriteId(location)
+      update((current) =>
+        current.length >= MAX_COMPARISON_PINS || current.some((pin) => pin.id === id)
+          ? current
+          : [...current, { id, name: location.name, lat: location.lat, lon: location.lon }],
+      )
+    },
+    [update],
+  )
+
+  const removePin = useCallback((id: string) => update((current) => current.filter((pin) => pin.id !== id)), [update])
+
+  return { pins, weather, addPin, removePin, isFull: pins.length >= MAX_COMPARISON_PINS }
+}
@@ -0,0 +1,58 @@
+"use client"
+
+import { useCallback, useEffect, useRef, useState } from "react"
+import { favoriteId, loadFavorites, saveFavorites, type FavoriteLocation } from "@/lib/favorites"
+import type { Coordinates } from "@/lib/weather"
+
+/**
+ * Starred locations, restored from IndexedDB on mount; every change is saved right away.
+ * Stars added before the saved list has loaded are kept after it.
+ */
+export function useFavorites() {
+  const [favorites, setFavorites] = useState<FavoriteLocation[]>([])
+  // Latest list, so changes are computed and saved outside the state updater
+  const favoritesRef = useRef(favorites)
+
+  const update = useCallback((change: (current: FavoriteLocation[]) => FavoriteLocation[]) => {
+    const next = change(favoritesRef.current)
+    favoritesRef.current = next
+    setFavorites(next)
+    void saveFavorites(next)
+  }, [])
+
+  useEffect(() => {
+    loadFavorites().then((saved) => {
+      // Stars added meanwhile were saved without the restored ones, so the merged list is saved again
+      if (favoritesRef.current.length === 0) {
+        favoritesRef.current = saved
+        setFavorites(saved)
+      } else {
+        update((current) => [...saved, ...current.filter((favorite) => !saved.some((s) => s.id === favorite.id))])
+      }
+    })
+  }, [update])
+
+  const isFavorite = useCallback(
+    (coordinates: Coordinates) => favorites.some((favorite) => favorite.id === favoriteId(coordinates)),
+    [favorites],
+  )
+
+  const toggleFavorite = useCallback(
+    (location: Coordinates & { name: string }) => {
+      const id = favoriteId(location)
+      update((current) =>
+        current.some((favorite) => favorite.id === id)
+          ? current.filter((favorite) => favorite.id !== id)
+          : [...current, { id, name: location.name, lat: location.lat, lon: location.lon }],
+      )
+    },
+    [update],
+  )
+
+  const removeFavorite = useCallback(
+    (id: string) => update((current) => current.filter((favorite) => favorite.id !== id)),
+    [update],
+  )
+
+  return { favorites, isFavorite, toggleFavorite, removeFavorite }
+}
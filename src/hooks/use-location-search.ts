@@ -0,0 +1,193 @@
+"use client"
+
+import { useCallback, useEffect, useRef, useState, type KeyboardEvent } from "react"
+import {
+  describeWeatherError,
+  findLocations,
+  isLocalQuery,
+  isWeatherClientError,
+  nameLocation,
+  parseLocationQuery,
+  type LocationMatch,
+  type LocationSuggestion,
+} from "@/lib/weather"
+
+/** Shortest query that is sent to the geocoder */
+const MIN_QUERY_LENGTH = 3
+
+/** Pause in typing before suggestions are fetched */
+const SEARCH_DEBOUNCE_MS = 300
+
+export interface LocationSearchOptions {
+  /** Controlled input text; the hook keeps its own when omitted */
+  value?: string
+  onValueChange?: (value: string) => void
+  onSelect: (suggestion: LocationSuggestion) => void
+  /** Called with a user-facing message when a search fails */
+  onError?: (message: string) => void
+  /** Empty the input after a selection instead of showing the chosen place */
+  clearOnSelect?: boolean
+}
+
+/** What to look up, and how long to wait first */
+interface PendingSearch {
+  text: string
+  delayMs: number
+}
+
+/**
+ * Debounced location autocomplete backing the LocationSearch combobox.
+ * - Only typing (setQuery) and explicit searches query the geocoder; setting `value` from outside never does
+ * - A newer search aborts the request of the previous one, so stale results can't replace fresh ones
+ * - Coordinates and plus codes are resolved without waiting for the debounce or the geocoder; picking one
+ *   reverse-geocodes it for a display name (see location-query.ts)
+ * - handleKeyDown implements the combobox keys: arrows move, Enter picks (or searches right away), Escape closes
+ */
+export function useLocationSearch({ value, onValueChange, onSelect, onError, clearOnSelect = false }: LocationSearchOptions) {
+  const [ownValue, setOwnValue] = useState("")
+  const query = value ?? ownValue
+
+  const [pending, setPending] = useState<PendingSearch | null>(null)
+  const [suggestions, setSuggestions] = useState<LocationMatch[]>([])
+  const [isSearching, setIsSearching] = useState(false)
+  const [isOpen, setIsOpen] = useState(false)
+  const [activeIndex, setActiveIndex] = useState(-1)
+
+  // Latest callbacks, so passing inline functions doesn't restart a running search
+  const callbacks = useRef({ onValueChange, onSelect, onError })
+  useEffect(() => {
+    callbacks.current = { onValueChange, onSelect, onError }
+  })
+
+  const setText = useCallback(
+    (text: string) => {
+      if (value === undefined) setOwnValue(text)
+      callbacks.current.onValueChange?.(text)
+    },
+    [value],
+  )
+
+  useEffect(() => {
+    if (!pending) return
+    const text = pending.text.trim()
+    if (text.length < MIN_QUERY_LENGTH) {
+      setSuggestions([])
+      setIsOpen(false)
+      setIsSearching(false)
+      return
+    }
+
+    const query = parseLocationQuery(text)
+    const controller = new AbortController()
+    const timer = setTimeout(async () => {
+      setIsSearching(true)
+      try {
+        const results = await findLocations(query, { signal: controller.signal })
+        setSuggestions(results)
+        // A resolved coordinate is the only match, so Enter picks it
+        setActiveIndex(isLocalQuery(query) ? 0 : -1)
+        setIsOpen(true)
+      } catch (error) {
+        if (controller.signal.aborted) return
+        console.error("Location search error", error)
+        setIsOpen(false)
+        callbacks.current.onError?.(
+          isWeatherClientError(error) ? describeWeatherError(error) : "Failed to search location",
+        )
+      } finally {
+        if (!controller.signal.aborted) setIsSearching(false)
+      }
+    }, isLocalQuery(query) ? 0 : pending.delayMs)
+
+    return () => {
+      clearTimeout(timer)
+      controller.abort()
+    }
+  }, [pending])
+
+  /** Updates the text as the user types and schedules a debounced search */
+  const setQuery = useCallback(
+    (text: string) => {
+      setText(text)
+      setPending({ text, delayMs: SEARCH_DEBOUNCE_MS })
+    },
+    [setText],
+  )
+
+  /** Searches for the current text without waiting for the debounce */
+  const searchNow = useCallback(() => setPending({ text: query, delayMs: 0 }), [query])
+
+  const close = useCallback(() => {
+    setIsOpen(false)
+    setActiveIndex(-1)
+  }, [])
+
+  const select = useCallback(
+    async (match: LocationMatch) => {
+      setPending(null)
+      setSuggestions([])
+      close()
+      // Clearing `pending` aborts a search still in flight, which then leaves isSearching to us
+      setIsSearching(false)
+
+      let suggestion: LocationSuggestion = match
+      if (match.local) {
+        setText(match.displayName)
+        setIsSearching(true)
+        suggestion = await nameLocation(match)
+        setIsSearching(false)
+      }
+      setText(clearOnSelect ? "" : suggestion.displayName)
+      callbacks.current.onSelect(suggestion)
+    },
+    [clearOnSelect, close, setText],
+  )
+
+  const handleKeyDown = useCallback(
+    (event: KeyboardEvent<HTMLInputElement>) => {
+      switch (event.key) {
+        case "ArrowDown":
+        case "ArrowUp": {
+          if (suggestions.length === 0) return
+          event.preventDefault()
+          const step = event.key === "ArrowDown" ? 1 : -1
+          setIsOpen(true)
+          setActiveIndex((index) =>
+            !isOpen || index < 0
+              ? step === 1 ? 0 : suggestions.length - 1
+              : (index + step + suggestions.length) % suggestions.length,
+          )
+          return
+        }
+        case "Enter":
+          event.preventDefault()
+          if (isOpen && activeIndex >= 0 && suggestions[activeIndex]) select(suggestions[activeIndex])
+          else searchNow()
+          return
+        case "Escape":
+          if (!isOpen) return
+          event.preventDefault()
+          close()
+          return
+        case "Tab":
+          close()
+      }
+    },
+    [activeIndex, close, isOpen, searchNow, select, suggestions],
+  )
+
+  return {
+    query,
+    setQuery,
+    suggestions,
+    isSearching,
+    isOpen,
+    activeIndex,
+    setActiveIndex,
+    searchNow,
+    select,
+    close,
+    handleKeyDown,
+    minLength: MIN_QUERY_LENGTH,
+  }
+}
@@ -0,0 +1,30 @@
+"use client"
+
+import { useCallback, useMemo } from "react"
+import { usePathname, useRouter, useSearchParams } from "next/navigation"
+import { parseRecordQuery, recordQueryToParams, type RecordQuery } from "@/lib/records/query"
+
+/**
+ * Records list query kept in the URL, so a filtered view can be shared or bookmarked.
+ * Updates replace the current history entry; any change other than the page resets to page 1.
+ * Components using this hook must render inside a <Suspense> boundary (useSearchParams).
+ */
+export function useRecordQuery() {
+  const searchParams = useSearchParams()
+  const router = useRouter()
+  const pathname = usePathname()
+
+  const query = useMemo(() => parseRecordQuery(new URLSearchParams(searchParams.toString())), [searchParams])
+
+  const setQuery = useCallback(
+    (changes: Partial<RecordQuery>) => {
+      const next = { ...query, page: 1, ...changes }
+      const params = recordQueryToParams(next, new URLSearchParams(searchParams.toString()))
+      const search = params.toString()
+      router.replace(search ? `${pathname}?${search}` : pathname, { scroll: false })
+    },
+    [query, searchParams, router, pathname],
+  )
+
+  return { query, setQuery }
+}
@@ -0,0 +1,9 @@
+"use client"
+
+import { useContext } from "react"
+import { UnitPreferencesContext } from "@/components/UnitPreferencesProvider"
+
+/** The chosen display units, a formatter for them and a setter that persists changes */
+export function useUnits() {
+  return useContext(UnitPreferencesContext)
+}
@@ -0,0 +1,30 @@
+import { idbGet, idbPut } from "@/lib/idb"
+import type { Coordinates } from "@/lib/weather"
+
+/**
+ * @file favorites.ts
+ * @description Locations the user starred, kept in the IndexedDB "state" store so they survive reloads.
+ * - A location is identified by its coordinates rounded to 4 decimals (about 10 m), so the same place
+ *   found through different searches is starred only once
+ * - Favorites are kept in the order they were added
+ */
+
+/** Key in the IndexedDB "state" store of the favorites list */
+const FAVORITES_KEY = "favorites"
+
+export interface FavoriteLocation {
+  id: string
+  name: string
+  lat: number
+  lon: number
+}
+
+export const favoriteId = ({ lat, lon }: Coordinates) => `${lat.toFixed(4)},${lon.toFixed(4)}`
+
+export async function loadFavorites(): Promise<FavoriteLocation[]> {
+  return (await idbGet<FavoriteLocation[]>("state", FAVORITES_KEY)) ?? []
+}
+
+export function saveFavorites(favorites: FavoriteLocation[]): Promise<void> {
+  return idbPut<FavoriteLocation[]>("state", FAVORITES_KEY, favorites)
+}
@@ -0,0 +1,85 @@
+/**
+ * @file idb.ts
+ * @description Minimal promise wrapper around the browser's IndexedDB for the app's local database.
+ * - Every helper resolves to undefined / no-ops when IndexedDB is unavailable (SSR, private browsing),
+ *   so callers can treat persistence as best effort
+ * - Bump DB_VERSION and add the store to STORES when a new object store is needed
+ */
+
+const DB_NAME = "weather-app"
+const DB_VERSION = 2
+
+/**
+ * - responses: persisted weather API responses (lib/weather/cache.ts)
+ * - records, outbox: offline copy of the weather records and their queued changes (lib/records/offline.ts)
+ * - state: small pieces of UI state restored on the next visit
+ */
+export type StoreName = "responses" | "records" | "outbox" | "state"
+
+const STORES: StoreName[] = ["responses", "records", "outbox", "state"]
+
+let dbPromise: Promise<IDBDatabase | null> | null = null
+
+const promisify = <T>(request: IDBRequest<T>) =>
+  new Promise<T>((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result)
+    request.onerror = () => reject(request.error)
+  })
+
+export function openDatabase(): Promise<IDBDatabase | null> {
+  if (typeof indexedDB === "undefined") return Promise.resolve(null)
+
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION)
+      request.onupgradeneeded = () => {
+        const db = request.result
+        for (const store of STORES) {
+          if (!db.objectStoreNames.contains(store)) db.createObjectStore(store)
+        }
+      }
+      request.onsuccess = () => resolve(request.result)
+      request.onerror = () => {
+        console.warn("IndexedDB unavailable:", request.error)
+        resolve(null)
+      }
+    })
+  }
+  return dbPromise
+}
+
+async function withStore<T>(
+  store: StoreName,
+  mode: IDBTransactionMode,
+  run: (objectStore: IDBObjectStore) => IDBRequest<T>,
+): Promise<T | undefined> {
+  const db = await openDatabase()
+  if (!db) return undefined
+  try {
+    return await promisify(run(db.transaction(store, mode).objectStore(store)))
+  } catch (error) {
+    console.warn(`IndexedDB ${mode} on "${store}" failed:`, error)
+    return undefined
+  }
+}
+
+export async function idbGet<T>(store: StoreName, key: IDBValidKey): Promise<T | undefined> {
+  return withStore<T>(store, "readonly", (objectStore) => objectStore.get(key))
+}
+
+/** All values of a store, in key order */
+export async function idbGetAll<T>(store: StoreName): Promise<T[]> {
+  return (await withStore<T[]>(store, "readonly", (objectStore) => objectStore.getAll())) ?? []
+}
+
+export async function idbPut<T>(store: StoreName, key: IDBValidKey, value: T): Promise<void> {
+  await withStore(store, "readwrite", (objectStore) => objectStore.put(value, key))
+}
+
+export async function idbDelete(store: StoreName, key: IDBValidKey): Promise<void> {
+  await withStore(store, "readwrite", (objectStore) => objectStore.delete(key))
+}
+
+export async function idbClear(store: StoreName): Promise<void> {
+  await withStore(store, "readwrite", (objectStore) => objectStore.clear())
+}
@@ -0,0 +1,77 @@
+import { startOfMonth, startOfWeek, startOfYear } from "date-fns"
+import type { DailyWeather } from "@/lib/records/types"
+
+/**
+ * @file aggregate.ts
+ * @description Rolls daily record rows up into weeks, months or years so long ranges stay readable when charted.
+ * Means are averaged over the days that have a value; max/min keep the extremes and precipitation is summed.
+ */
+
+export type AggregationBucket = "day" | "week" | "month" | "year"
+
+export interface AggregatedWeather {
+  /** First day of the bucket */
+  date: Date
+  temperature: number | null
+  tempMax: number | null
+  tempMin: number | null
+  humidity: number | null
+  windSpeed: number | null
+  precipitation: number | null
+  /** Number of days in the bucket */
+  days: number
+}
+
+/** Picks the finest bucket that keeps a chart at a few hundred points at most */
+export function bucketForDays(days: number): AggregationBucket {
+  if (days <= 92) return "day"
+  if (days <= 731) return "week"
+  if (days <= 15 * 366) return "month"
+  return "year"
+}
+
+const BUCKET_START: Record<AggregationBucket, (date: Date) => Date> = {
+  day: (date) => date,
+  week: (date) => startOfWeek(date, { weekStartsOn: 1 }),
+  month: startOfMonth,
+  year: startOfYear,
+}
+
+const present = (values: (number | undefined)[]) =>
+  values.filter((value): value is number => typeof value === "number" && Number.isFinite(value))
+
+const mean = (values: (number | undefined)[]) => {
+  const numbers = present(values)
+  return numbers.length > 0 ? numbers.reduce((total, value) => total + value, 0) / numbers.length : null
+}
+
+const extreme = (values: (number | undefined)[], pick: (...numbers: number[]) => number) => {
+  const numbers = present(values)
+  return numbers.length > 0 ? pick(...numbers) : null
+}
+
+const sum = (values: (number | undefined)[]) => {
+  const numbers = present(values)
+  return numbers.length > 0 ? numbers.reduce((total, value) => total + value, 0) : null
+}
+
+export function aggregateWeather(temperatures: DailyWeather[], bucket: AggregationBucket): AggregatedWeather[] {
+  const groups = new Map<number, DailyWeather[]>()
+  for (const day of temperatures) {
+    const key = BUCKET_START[bucket](new Date(day.date)).getTime()
+    const group = groups.get(key)
+    if (group) group.push(day)
+    else groups.set(key, [day])
+  }
+
+  return Array.from(groups, ([key, days]) => ({
+    date: new Date(key),
+    temperature: mean(days.map((day) => day.temperature)),
+    tempMax: extreme(days.map((day) => day.tempMax), Math.max),
+    tempMin: extreme(days.map((day) => day.tempMin), Math.min),
+    humidity: mean(days.map((day) => day.humidity)),
+    windSpeed: mean(days.map((day) => day.windSpeed)),
+    precipitation: sum(days.map((day) => day.precipitation)),
+    days: days.length,
+  })).sort((a, b) => a.date.getTime() - b.date.getTime())
+}
@@ -0,0 +1,115 @@
+import axios, { type AxiosResponse } from "axios"
+import type { z } from "zod"
+import { weatherRecordListSchema, weatherRecordSchema } from "@/lib/records/schemas"
+import type { WeatherRecord } from "@/lib/records/types"
+import { formatIssues } from "@/lib/weather/schemas"
+
+/**
+ * @file api.ts
+ * @description Client for the weather records backend (/api/weather). Every response is validated and normalized
+ * by schemas.ts; a malformed one is rejected with InvalidRecordResponseError.
+ * - Updates are conditional: the last ETag seen for a record is sent as If-Match and its updatedAt as
+ *   If-Unmodified-Since, so a record changed by someone else is rejected instead of overwritten
+ * - Without NEXT_PUBLIC_BACKEND_URL the app's own file-backed /api/weather route handlers are used
+ */
+
+/** The external backend when configured, otherwise the local route handlers */
+const RECORDS_URL = `${process.env.NEXT_PUBLIC_BACKEND_URL || ""}/api/weather`
+
+export type WeatherRecordInput = Omit<WeatherRecord, "_id" | "createdAt" | "updatedAt">
+
+/** Thrown by updateRecord when the record changed on the backend since it was loaded */
+export class RecordConflictError extends Error {
+  /** The record as it is now stored on the backend */
+  readonly current: WeatherRecord
+
+  constructor(current: WeatherRecord) {
+    super(`Weather record ${current._id} was changed by someone else`)
+    this.name = "RecordConflictError"
+    this.current = current
+  }
+}
+
+export function isRecordConflictError(error: unknown): error is RecordConflictError {
+  return error instanceof RecordConflictError
+}
+
+/** Thrown when the backend answers with something that is not a (list of) weather record(s) */
+export class InvalidRecordResponseError extends Error {
+  /** Offending fields, e.g. "dateRange.startDate: Invalid date" */
+  readonly issues: string
+
+  constructor(issues: string) {
+    super(`The records backend returned malformed data: ${issues}`)
+    this.name = "InvalidRecordResponseError"
+    this.issues = issues
+  }
+}
+
+export function isInvalidRecordResponseError(error: unknown): error is InvalidRecordResponseError {
+  return error instanceof InvalidRecordResponseError
+}
+
+const parseRecords = <T>(schema: z.ZodType<T, z.ZodTypeDef, unknown>, data: unknown): T => {
+  const result = schema.safeParse(data)
+  if (!result.success) throw new InvalidRecordResponseError(formatIssues(result.error))
+  return result.data
+}
+
+/** Last ETag returned for each record id */
+const etags = new Map<string, string>()
+
+/** Validates a single-record response and remembers its ETag */
+const toRecord = (response: AxiosResponse<unknown>): WeatherRecord => {
+  const record = parseRecords(weatherRecordSchema, response.data)
+  const etag = response.headers.etag
+  if (typeof etag === "string" && record._id) etags.set(record._id, etag)
+  return record
+}
+
+export async function fetchRecords(): Promise<WeatherRecord[]> {
+  const response = await axios.get<unknown>(RECORDS_URL)
+  return parseRecords(weatherRecordListSchema, response.data)
+}
+
+export async function fetchRecord(id: string): Promise<WeatherRecord> {
+  return toRecord(await axios.get<unknown>(`${RECORDS_URL}/${id}`))
+}
+
+export async function createRecord(record: WeatherRecordInput): Promise<WeatherRecord> {
+  return toRecord(await axios.post<unknown>(RECORDS_URL, record))
+}
+
+/**
+ * @param base - The version the edit started from; its updatedAt is used when no ETag is known
+ * @throws RecordConflictError when the backend answers 409 or 412
+ */
+export async function updateRecord(id: string, record: WeatherRecordInput, base?: WeatherRecord): Promise<WeatherRecord> {
+  const headers: Record<string, string> = {}
+  const etag = etags.get(id)
+  if (etag) headers["If-Match"] = etag
+  if (base?.updatedAt) headers["If-Unmodified-Since"] = base.updatedAt.toUTCString()
+
+  let response: AxiosResponse<unknown>
+  try {
+    response = await axios.put<unknown>(`${RECORDS_URL}/${id}`, record, { headers })
+  } catch (error) {
+    const conflict = axios.isAxiosError(error) ? error.response : undefined
+    if (!conflict || (conflict.status !== 409 && conflict.status !== 412)) throw error
+    // Backends may return the current version with the conflict; otherwise load it
+    if (weatherRecordSchema.safeParse(conflict.data).success) throw new RecordConflictError(toRecord(conflict))
+    throw new RecordConflictError(await fetchRecord(id))
+  }
+  return toRecord(response)
+}
+
+/**
+ * @param options.keepalive - Lets the request outlive the page, for deletes flushed while it unloads
+ */
+export async function deleteRecord(id: string, { keepalive = false }: { keepalive?: boolean } = {}): Promise<void> {
+  await axios.delete(
+    `${RECORDS_URL}/${id}`,
+    keepalive ? { adapter: "fetch", fetchOptions: { keepalive: true } } : undefined,
+  )
+  etags.delete(id)
+}
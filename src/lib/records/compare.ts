@@ -0,0 +1,211 @@
+import { format as dateFormat } from "date-fns"
+import { escapeCSV } from "@/lib/records/export"
+import type { DailyWeather, WeatherRecord } from "@/lib/records/types"
+import type { ClimateNormalDay, ClimateNormals } from "@/lib/weather/models"
+import { convertTemperatureDifference, exportUnits, fromMetric, unitLabel, type UnitPreferences } from "@/lib/weather/units"
+
+/**
+ * @file compare.ts
+ * @description Day-aligned comparison of a record with a second record or with the climate normals of its location.
+ * - Two records are aligned by day number, so ranges from different years or places line up
+ * - A record and the normals are aligned by calendar day (MM-dd)
+ * - The anomaly of a day is its mean temperature minus the other side's; totals only count days both sides have
+ */
+
+/** Values of one side of a compared day, in °C and mm */
+export interface ComparedValues {
+  /** yyyy-MM-dd for records, MM-dd for normals */
+  date: string
+  temperature: number | null
+  tempMax: number | null
+  tempMin: number | null
+  precipitation: number | null
+}
+
+export interface ComparedDay {
+  /** 1-based day number within the comparison */
+  day: number
+  a?: ComparedValues
+  b?: ComparedValues
+  /** Mean temperature of A minus B in °C */
+  anomaly: number | null
+}
+
+export interface ComparisonTotals {
+  /** Days that both sides have */
+  days: number
+  meanA: number | null
+  meanB: number | null
+  maxA: number | null
+  maxB: number | null
+  minA: number | null
+  minB: number | null
+  precipitationA: number | null
+  precipitationB: number | null
+  /** Days on which A was warmer or colder than B */
+  warmerDays: number
+  colderDays: number
+}
+
+export interface RecordComparison {
+  labelA: string
+  labelB: string
+  /** Whether B are the climate normals rather than a second record */
+  againstNormals: boolean
+  days: ComparedDay[]
+  totals: ComparisonTotals
+}
+
+export const recordLabel = (record: WeatherRecord) =>
+  `${record.location.name} (${dateFormat(record.dateRange.startDate, "yyyy-MM-dd")} – ${dateFormat(record.dateRange.endDate, "yyyy-MM-dd")})`
+
+const fromRecordDay = (day: DailyWeather): ComparedValues => ({
+  date: dateFormat(day.date, "yyyy-MM-dd"),
+  temperature: day.temperature,
+  tempMax: day.tempMax ?? null,
+  tempMin: day.tempMin ?? null,
+  precipitation: day.precipitation ?? null,
+})
+
+const fromNormalDay = (day: ClimateNormalDay): ComparedValues => ({
+  date: day.day,
+  temperature: day.temperatureMean,
+  tempMax: day.temperatureMax,
+  tempMin: day.temperatureMin,
+  precipitation: day.precipitationSum,
+})
+
+const sortedDays = (record: WeatherRecord) =>
+  [...record.temperatures].sort((x, y) => x.date.getTime() - y.date.getTime())
+
+const difference = (a: number | null | undefined, b: number | null | undefined) =>
+  a === null || a === undefined || b === null || b === undefined ? null : a - b
+
+const toComparedDay = (day: number, a?: ComparedValues, b?: ComparedValues): ComparedDay => ({
+  day,
+  a,
+  b,
+  anomaly: difference(a?.temperature, b?.temperature),
+})
+
+function summarize(days: ComparedDay[]): ComparisonTotals {
+  const paired = days.filter((day) => day.a && day.b)
+  const values = (side: "a" | "b", field: Exclude<keyof ComparedValues, "date">) =>
+    paired.map((day) => day[side]?.[field]).filter((value): value is number => value !== null && value !== undefined)
+  const mean = (list: number[]) => (list.length > 0 ? list.reduce((sum, value) => sum + value, 0) / list.length : null)
+  const sum = (list: number[]) => (list.length > 0 ? list.reduce((total, value) => total + value, 0) : null)
+
+  return {
+    days: paired.length,
+    meanA: mean(values("a", "temperature")),
+    meanB: mean(values("b", "temperature")),
+    maxA: mean(values("a", "tempMax")),
+    maxB: mean(values("b", "tempMax")),
+    minA: mean(values("a", "tempMin")),
+    minB: mean(values("b", "tempMin")),
+    precipitationA: sum(values("a", "precipitation")),
+    precipitationB: sum(values("b", "precipitation")),
+    warmerDays: paired.filter((day) => day.anomaly !== null && day.anomaly > 0).length,
+    colderDays: paired.filter((day) => day.anomaly !== null && day.anomaly < 0).length,
+  }
+}
+
+/** Compares two records day by day; the longer record keeps its extra days with no counterpart */
+export function compareRecords(a: WeatherRecord, b: WeatherRecord): RecordComparison {
+  const daysA = sortedDays(a)
+  const daysB = sortedDays(b)
+  const days = Array.from({ length: Math.max(daysA.length, daysB.length) }, (_, i) =>
+    toComparedDay(i + 1, daysA[i] && fromRecordDay(daysA[i]), daysB[i] && fromRecordDay(daysB[i])),
+  )
+  return { labelA: recordLabel(a), labelB: recordLabel(b), againstNormals: false, days, totals: summarize(days) }
+}
+
+/** Compares a record with the climate normals of the same calendar days */
+export function compareWithNormals(record: WeatherRecord, normals: ClimateNormals): RecordComparison {
+  const byDay = new Map(normals.days.map((day) => [day.day, day]))
+  const days = sortedDays(record).map((day, i) => {
+    const normal = byDay.get(dateFormat(day.date, "MM-dd"))
+    return toComparedDay(i + 1, fromRecordDay(day), normal && fromNormalDay(normal))
+  })
+  return {
+    labelA: recordLabel(record),
+    labelB: `${normals.startYear}–${normals.endYear} normal`,
+    againstNormals: true,
+    days,
+    totals: summarize(days),
+  }
+}
+
+/* ---------------------------------------- CSV ---------------------------------------- */
+
+const formatNumber = (value: number | null | undefined, digits = 1) =>
+  value === null || value === undefined ? "" : value.toFixed(digits)
+
+/**
+ * The comparison as CSV: "# Key: value" metadata with the totals, then one row per day.
+ * Temperatures and their differences are written in the user's temperature unit, precipitation in mm.
+ */
+export function comparisonToCSV(comparison: RecordComparison, preferredUnits: UnitPreferences): string {
+  const units = exportUnits(preferredUnits)
+  const temperature = (celsius: number | null | undefined) =>
+    formatNumber(celsius === null || celsius === undefined ? null : fromMetric(celsius, "°C", units))
+  const temperatureDifference = (celsius: number | null) =>
+    formatNumber(celsius === null ? null : convertTemperatureDifference(celsius, units.temperature))
+  const { totals } = comparison
+  const tempUnit = unitLabel("°C", units)
+
+  const metadata = [
+    `# A: ${comparison.labelA}`,
+    `# B: ${comparison.labelB}`,
+    `# Units: Temperature ${tempUnit}, Precipitation mm`,
+    `# Days Compared: ${totals.days}`,
+    `# Mean Temperature: A ${temperature(totals.meanA)}, B ${temperature(totals.meanB)}, Difference ${temperatureDifference(difference(totals.meanA, totals.meanB))}`,
+    `# Mean Max Temperature: A ${temperature(totals.maxA)}, B ${temperature(totals.maxB)}, Difference ${temperatureDifference(difference(totals.maxA, totals.maxB))}`,
+    `# Mean Min Temperature: A ${temperature(totals.minA)}, B ${temperature(totals.minB)}, Difference ${temperatureDifference(difference(totals.minA, totals.minB))}`,
+    `# Total Precipitation: A ${formatNumber(totals.precipitationA)}, B ${formatNumber(totals.precipitationB)}, Difference ${formatNumber(difference(totals.precipitationA, totals.precipitationB))}`,
+    `# Warmer Days: ${totals.warmerDays}`,
+    `# Colder Days: ${totals.colderDays}`,
+    "",
+  ]
+
+  const header = [
+    "Day",
+    "A Date",
+    "B Date",
+    `A Temperature (${tempUnit})`,
+    `B Temperature (${tempUnit})`,
+    `Anomaly (${tempUnit})`,
+    `A Max Temperature (${tempUnit})`,
+    `B Max Temperature (${tempUnit})`,
+    `A Min Temperature (${tempUnit})`,
+    `B Min Temperature (${tempUnit})`,
+    "A Precipitation (mm)",
+    "B Precipitation (mm)",
+    "Precipitation Difference (mm)",
+  ]
+
+  const rows = comparison.days.map(({ day, a, b, anomaly }) =>
+    [
+      String(day),
+      a?.date ?? "",
+      b?.date ?? "",
+      temperature(a?.temperature),
+      temperature(b?.temperature),
+      temperatureDifference(anomaly),
+      temperature(a?.tempMax),
+      temperature(b?.tempMax),
+      temperature(a?.tempMin),
+      temperature(b?.tempMin),
+      formatNumber(a?.precipitation),
+      formatNumber(b?.precipitation),
+      formatNumber(difference(a?.precipitation, b?.precipitation)),
+    ]
+      .map(escapeCSV)
+      .join(","),
+  )
+
+  return [...metadata, header.map(escapeCSV).join(","), ...rows].join("\n")
+}
+
+export const comparisonFileName = (comparison: RecordComparison) =>
+  `weather-comparison-${comparison.days[0]?.a?.date ?? dateFormat(new Date(), "yyyy-MM-dd")}`
@@ -0,0 +1,19 @@
+/**
+ * Records store the daily high/low inside their description, e.g. "High: 12.3°C, Low: 4.1°C".
+ * These helpers write and read that format; a missing high or low is left out.
+ */
+
+const HIGH_PATTERN = /High:\s*(-?\d+(?:\.\d+)?)\s*°C/i
+const LOW_PATTERN = /Low:\s*(-?\d+(?:\.\d+)?)\s*°C/i
+
+const isValue = (value: number | null | undefined): value is number => typeof value === "number" && Number.isFinite(value)
+
+export function formatHighLow(high: number | null | undefined, low: number | null | undefined): string {
+  return [isValue(high) && `High: ${high}°C`, isValue(low) && `Low: ${low}°C`].filter(Boolean).join(", ")
+}
+
+export function parseHighLow(description: string | undefined): { high?: number; low?: number } {
+  const high = description?.match(HIGH_PATTERN)
+  const low = description?.match(LOW_PATTERN)
+  return { high: high ? Number(high[1]) : undefined, low: low ? Number(low[1]) : undefined }
+}
@@ -0,0 +1,65 @@
+import { format as dateFormat } from "date-fns"
+import type { WeatherRecordInput } from "@/lib/records/api"
+import type { DailyWeather, WeatherRecord } from "@/lib/records/types"
+import { getDailyVariable } from "@/lib/weather/variables"
+
+/**
+ * @file diff.ts
+ * @description Field-by-field comparison of two versions of a record, shown when an update conflicts.
+ */
+
+export interface RecordFieldDiff {
+  field: string
+  /** Display value of the local edit */
+  mine: string
+  /** Display value currently stored on the backend */
+  theirs: string
+}
+
+const formatRange = ({ dateRange }: WeatherRecordInput) =>
+  `${dateFormat(dateRange.startDate, "yyyy-MM-dd")} – ${dateFormat(dateRange.endDate, "yyyy-MM-dd")}`
+
+const formatVariables = (record: WeatherRecordInput) =>
+  (record.variables ?? []).map((key) => getDailyVariable(key).label).join(", ") || "None"
+
+const dayKey = (day: DailyWeather) =>
+  JSON.stringify([
+    dateFormat(day.date, "yyyy-MM-dd"),
+    day.temperature,
+    day.tempMax,
+    day.tempMin,
+    day.precipitation,
+    day.humidity,
+    day.windSpeed,
+    day.values,
+  ])
+
+/** Days of `days` that are missing from, or differ in, `other` */
+const daysNotIn = (days: DailyWeather[], other: DailyWeather[]) => {
+  const otherKeys = new Set(other.map(dayKey))
+  return days.filter((day) => !otherKeys.has(dayKey(day))).length
+}
+
+/** Returns only the fields that differ; an empty list means both versions hold the same data */
+export function diffRecords(mine: WeatherRecordInput, theirs: WeatherRecord): RecordFieldDiff[] {
+  const fields: RecordFieldDiff[] = [
+    { field: "Location", mine: mine.location.name, theirs: theirs.location.name },
+    {
+      field: "Coordinates",
+      mine: `${mine.location.coordinates.lat.toFixed(4)}, ${mine.location.coordinates.lon.toFixed(4)}`,
+      theirs: `${theirs.location.coordinates.lat.toFixed(4)}, ${theirs.location.coordinates.lon.toFixed(4)}`,
+    },
+    { field: "Date range", mine: formatRange(mine), theirs: formatRange(theirs) },
+    { field: "Resolution", mine: mine.resolution ?? "daily", theirs: theirs.resolution ?? "daily" },
+    { field: "Variables", mine: formatVariables(mine), theirs: formatVariables(theirs) },
+    { field: "Days", mine: String(mine.temperatures.length), theirs: String(theirs.temperatures.length) },
+  ]
+  const diffs = fields.filter((diff) => diff.mine !== diff.theirs)
+
+  const mineChanged = daysNotIn(mine.temperatures, theirs.temperatures)
+  const theirsChanged = daysNotIn(theirs.temperatures, mine.temperatures)
+  if ((mineChanged > 0 || theirsChanged > 0) && !diffs.some((diff) => diff.field === "Date range")) {
+    diffs.push({ field: "Daily values", mine: `${mineChanged} days differ`, theirs: `${theirsChanged} days differ` })
+  }
+  return diffs
+}
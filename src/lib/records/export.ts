@@ -0,0 +1,225 @@
+import { format as dateFormat } from "date-fns"
+import type { DailyWeather, WeatherRecord } from "@/lib/records/types"
+import { exportUnits, fromMetric, METRIC_UNITS, unitLabel, type UnitPreferences } from "@/lib/weather/units"
+import { DAILY_VARIABLES, dailyVariableHeader, getDailyVariable, type DailyVariableKey } from "@/lib/weather/variables"
+
+/**
+ * @file export.ts
+ * @description Serializes a record to the JSON and CSV files offered for download.
+ * The CSV starts with "# Key: value" metadata lines, then the daily table; hourly records add a second table.
+ * import.ts reads both formats back, so column names here are part of the file format.
+ * Several records can be exported together as one CSV or a JSON array; exporters.ts builds ZIP archives.
+ * Values are written in the user's units (Beaufort as m/s, see exportUnits): CSV column headers and the JSON
+ * `units` member name them, and import.ts converts them back to metric.
+ */
+
+/** Daily CSV columns in metric units; new columns are appended so existing consumers keep working */
+export const DAILY_CSV_COLUMNS = [
+  "Date",
+  "Temperature (°C)",
+  "Description",
+  "Humidity (%)",
+  "Wind Speed (m/s)",
+  "Max Temperature (°C)",
+  "Min Temperature (°C)",
+  "Precipitation (mm)",
+] as const
+
+export const HOURLY_CSV_COLUMNS = [
+  "Time",
+  "Temperature (°C)",
+  "Humidity (%)",
+  "Precipitation (mm)",
+  "Wind Speed (m/s)",
+  "Wind Direction (°)",
+  "Cloud Cover (%)",
+  "Pressure (hPa)",
+  "Description",
+] as const
+
+/** Comment line that starts the hourly table */
+export const HOURLY_CSV_MARKER = "# Hourly (local time)"
+
+const CONVERTED_UNIT_SUFFIX = /\((°C|m\/s|hPa)\)$/
+
+/** A metric column header relabelled in the given units, e.g. "Temperature (°F)" */
+export const columnInUnits = (column: string, units: UnitPreferences) =>
+  column.replace(CONVERTED_UNIT_SUFFIX, (_, unit: string) => `(${unitLabel(unit, units)})`)
+
+export const dailyCSVColumns = (variables: DailyVariableKey[], units: UnitPreferences) =>
+  [...DAILY_CSV_COLUMNS, ...variables.map(dailyVariableHeader)].map((column) => columnInUnits(column, units))
+
+export const hourlyCSVColumns = (units: UnitPreferences) => HOURLY_CSV_COLUMNS.map((column) => columnInUnits(column, units))
+
+/** Unit of every converted field, written as the `units` member of JSON and GeoJSON files */
+export const fieldUnits = (units: UnitPreferences) => ({
+  temperature: unitLabel("°C", units),
+  windSpeed: unitLabel("m/s", units),
+  pressure: unitLabel("hPa", units),
+  precipitation: "mm",
+  humidity: "%",
+})
+
+/** One-line summary for metadata headers, e.g. "Temperature °F, Wind km/h, Pressure inHg" */
+export const describeUnits = (units: UnitPreferences) => {
+  const { temperature, windSpeed, pressure } = fieldUnits(units)
+  return `Temperature ${temperature}, Wind ${windSpeed}, Pressure ${pressure}`
+}
+
+/** A stored metric value in the given units */
+export const valueInUnits = (value: number | undefined, metricUnit: string, units: UnitPreferences) =>
+  value === undefined ? undefined : fromMetric(value, metricUnit, units)
+
+export const escapeCSV = (field: string) => {
+  // If the field contains commas, quotes, or newlines, wrap it in quotes
+  if (field && (field.includes(",") || field.includes('"') || field.includes("\n"))) {
+    // Replace any quotes with double quotes (CSV standard)
+    return `"${field.replace(/"/g, '""')}"`
+  }
+  return field
+}
+
+const formatOptional = (value: number | undefined, digits = 1) => (value === undefined ? "" : value.toFixed(digits))
+const roundOptional = (value: number | undefined, digits = 1) => (value === undefined ? null : Number(value.toFixed(digits)))
+
+/** Decimals written for pressure; one decimal of inHg would lose almost 2 hPa */
+export const pressureDigits = (units: UnitPreferences) => (units.pressure === "inHg" ? 2 : 1)
+
+/** Fields of one daily row, in DAILY_CSV_COLUMNS order followed by the given variables */
+const dailyCSVFields = (temp: DailyWeather, variables: DailyVariableKey[], units: UnitPreferences) => [
+  dateFormat(temp.date, "yyyy-MM-dd"),
+  fromMetric(temp.temperature, "°C", units).toFixed(1),
+  temp.description,
+  formatOptional(temp.humidity),
+  formatOptional(valueInUnits(temp.windSpeed, "m/s", units)),
+  formatOptional(valueInUnits(temp.tempMax, "°C", units)),
+  formatOptional(valueInUnits(temp.tempMin, "°C", units)),
+  formatOptional(temp.precipitation),
+  ...variables.map((key) =>
+    formatOptional(valueInUnits(temp.values?.[key] ?? undefined, getDailyVariable(key).unit, units)),
+  ),
+]
+
+export function recordToCSV(record: WeatherRecord, preferredUnits: UnitPreferences = METRIC_UNITS): string {
+  const units = exportUnits(preferredUnits)
+  const metadata = [
+    `# Location: ${record.location.name}`,
+    `# Latitude: ${record.location.coordinates.lat}`,
+    `# Longitude: ${record.location.coordinates.lon}`,
+    `# Date Range: ${dateFormat(record.dateRange.startDate, "yyyy-MM-dd")} to ${dateFormat(record.dateRange.endDate, "yyyy-MM-dd")}`,
+    `# Units: ${describeUnits(units)}`,
+    "", // Empty line to separate metadata from data
+  ]
+
+  const variables = record.variables ?? []
+  const header = dailyCSVColumns(variables, units).map(escapeCSV).join(",")
+
+  const rows = record.temperatures.map((temp) => dailyCSVFields(temp, variables, units).map(escapeCSV).join(","))
+
+  const hourly =
+    record.resolution === "hourly" && record.hourly
+      ? [
+          "",
+          HOURLY_CSV_MARKER,
+          hourlyCSVColumns(units).map(escapeCSV).join(","),
+          ...record.hourly.map((hour) =>
+            [
+              hour.time,
+              formatOptional(valueInUnits(hour.temperature, "°C", units)),
+              formatOptional(hour.humidity),
+              formatOptional(hour.precipitation),
+              formatOptional(valueInUnits(hour.windSpeed, "m/s", units)),
+              formatOptional(hour.windDirection),
+              formatOptional(hour.cloudCover),
+              formatOptional(valueInUnits(hour.pressure, "hPa", units), pressureDigits(units)),
+              hour.description ?? "",
+            ]
+              .map(escapeCSV)
+              .join(","),
+          ),
+        ]
+      : []
+
+  return [...metadata, header, ...rows, ...hourly].join("\n")
+}
+
+/** Plain JSON shape of a record file: dates as yyyy-MM-dd, numbers rounded to one decimal, in the `units` listed */
+export function recordToJSON(record: WeatherRecord, preferredUnits: UnitPreferences = METRIC_UNITS) {
+  const units = exportUnits(preferredUnits)
+  const variables = record.variables ?? []
+  return {
+    location: record.location,
+    units: fieldUnits(units),
+    dateRange: {
+      startDate: dateFormat(record.dateRange.startDate, "yyyy-MM-dd"),
+      endDate: dateFormat(record.dateRange.endDate, "yyyy-MM-dd"),
+    },
+    variables: variables.map((key) => {
+      const variable = getDailyVariable(key)
+      return { ...variable, unit: unitLabel(variable.unit, units) }
+    }),
+    temperatures: record.temperatures.map((temp) => ({
+      ...temp,
+      date: dateFormat(temp.date, "yyyy-MM-dd"),
+      temperature: Number(fromMetric(temp.temperature, "°C", units).toFixed(1)),
+      tempMax: roundOptional(valueInUnits(temp.tempMax, "°C", units)),
+      tempMin: roundOptional(valueInUnits(temp.tempMin, "°C", units)),
+      precipitation: roundOptional(temp.precipitation),
+      humidity: roundOptional(temp.humidity),
+      windSpeed: roundOptional(valueInUnits(temp.windSpeed, "m/s", units)),
+      values: Object.fromEntries(
+        variables.map((key) => [
+          key,
+          roundOptional(valueInUnits(temp.values?.[key] ?? undefined, getDailyVariable(key).unit, units)),
+        ]),
+      ),
+    })),
+    resolution: record.resolution ?? "daily",
+    ...(record.resolution === "hourly" && {
+      hourly: (record.hourly ?? []).map((hour) => ({
+        ...hour,
+        temperature: roundOptional(valueInUnits(hour.temperature, "°C", units)),
+        humidity: roundOptional(hour.humidity),
+        precipitation: roundOptional(hour.precipitation),
+        windSpeed: roundOptional(valueInUnits(hour.windSpeed, "m/s", units)),
+        pressure: roundOptional(valueInUnits(hour.pressure, "hPa", units), pressureDigits(units)),
+      })),
+    }),
+    createdAt: dateFormat(record.createdAt, "yyyy-MM-dd"),
+  }
+}
+
+export type RecordJSON = ReturnType<typeof recordToJSON>
+
+export const recordFileName = (record: WeatherRecord) => `weather-record-${dateFormat(record.createdAt, "yyyy-MM-dd")}`
+
+/** Columns that prefix every row of a combined CSV */
+export const LOCATION_CSV_COLUMNS = ["Location", "Latitude", "Longitude"] as const
+
+/** One CSV for many records: one row per record and day, with the location repeated on every row */
+export function recordsToCSV(records: WeatherRecord[], preferredUnits: UnitPreferences = METRIC_UNITS): string {
+  const units = exportUnits(preferredUnits)
+  // Union of the records' variables, in registry order
+  const variables = DAILY_VARIABLES.map((variable) => variable.key).filter((key) =>
+    records.some((record) => record.variables?.includes(key)),
+  )
+  const header = [...LOCATION_CSV_COLUMNS, ...dailyCSVColumns(variables, units)].map(escapeCSV).join(",")
+
+  const rows = records.flatMap((record) =>
+    record.temperatures.map((temp) =>
+      [
+        record.location.name,
+        String(record.location.coordinates.lat),
+        String(record.location.coordinates.lon),
+        ...dailyCSVFields(temp, variables, units),
+      ]
+        .map(escapeCSV)
+        .join(","),
+    ),
+  )
+
+  return [header, ...rows].join("\n")
+}
+
+export const recordsToJSON = (records: WeatherRecord[], units: UnitPreferences = METRIC_UNITS) =>
+  records.map((record) => recordToJSON(record, units))
@@ -0,0 +1,311 @@
+import { differenceInCalendarDays, format as dateFormat } from "date-fns"
+import { strToU8, zipSync } from "fflate"
+import {
+  columnInUnits,
+  dailyCSVColumns,
+  describeUnits,
+  fieldUnits,
+  hourlyCSVColumns,
+  pressureDigits,
+  recordToCSV,
+  recordToJSON,
+  valueInUnits,
+} from "@/lib/records/export"
+import type { WeatherRecord } from "@/lib/records/types"
+import { buildXlsx, type XlsxCell } from "@/lib/records/xlsx"
+import { exportUnits, METRIC_UNITS, unitLabel, type UnitPreferences } from "@/lib/weather/units"
+import { dailyVariableHeader, getDailyVariable, type DailyVariableKey } from "@/lib/weather/variables"
+
+/**
+ * @file exporters.ts
+ * @description Registry of the file formats a record can be exported to.
+ * The export menus are built from RECORD_EXPORTERS, so a new format only needs an entry here.
+ * Every format can also be bundled into a ZIP with one file per record.
+ * Serializers take the user's units (metric by default) and name them in the file.
+ */
+
+export type ExportFormat = "json" | "csv" | "geojson" | "xlsx" | "cf-json"
+
+export interface RecordExporter {
+  id: ExportFormat
+  /** Menu label, e.g. "GeoJSON" */
+  label: string
+  extension: string
+  mimeType: string
+  serialize(record: WeatherRecord, units?: UnitPreferences): string | Uint8Array
+}
+
+const round = (value: number | undefined, digits = 1) => (value === undefined ? null : Number(value.toFixed(digits)))
+const dayKey = (date: Date) => dateFormat(date, "yyyy-MM-dd")
+
+/** One Point feature per day with flat properties, which GIS tools can filter and style directly */
+export function recordToGeoJSON(record: WeatherRecord, preferredUnits: UnitPreferences = METRIC_UNITS) {
+  const units = exportUnits(preferredUnits)
+  const { lat, lon } = record.location.coordinates
+  const variables = record.variables ?? []
+  return {
+    type: "FeatureCollection" as const,
+    name: record.location.name,
+    // Foreign member naming the unit of each property
+    units: {
+      ...fieldUnits(units),
+      ...Object.fromEntries(variables.map((key) => [key, unitLabel(getDailyVariable(key).unit, units)])),
+    },
+    features: record.temperatures.map((temp) => ({
+      type: "Feature" as const,
+      // GeoJSON positions are [longitude, latitude]
+      geometry: { type: "Point" as const, coordinates: [lon, lat] },
+      properties: {
+        location: record.location.name,
+        date: dayKey(temp.date),
+        temperature: round(valueInUnits(temp.temperature, "°C", units)),
+        tempMax: round(valueInUnits(temp.tempMax, "°C", units)),
+        tempMin: round(valueInUnits(temp.tempMin, "°C", units)),
+        precipitation: round(temp.precipitation),
+        humidity: round(temp.humidity),
+        windSpeed: round(valueInUnits(temp.windSpeed, "m/s", units)),
+        description: temp.description,
+        ...Object.fromEntries(
+          variables.map((key) => [
+            key,
+            round(valueInUnits(temp.values?.[key] ?? undefined, getDailyVariable(key).unit, units)),
+          ]),
+        ),
+      },
+    })),
+  }
+}
+
+/** UDUNITS spellings of the registry's and the unit preferences' display units */
+const CF_UNITS: Record<string, string> = {
+  mm: "mm",
+  cm: "cm",
+  h: "h",
+  "°C": "degC",
+  "°F": "degF",
+  K: "K",
+  "m/s": "m s-1",
+  "km/h": "km h-1",
+  mph: "mi h-1",
+  kn: "knot",
+  "°": "degree",
+  "MJ/m²": "MJ m-2",
+}
+
+/** `unit` is the metric unit the field is stored in */
+const CF_BASE_VARIABLES = [
+  { name: "air_temperature_mean", field: "temperature", unit: "°C", standardName: "air_temperature", cellMethods: "time: mean", longName: "Daily mean air temperature at 2 m" },
+  { name: "air_temperature_max", field: "tempMax", unit: "°C", standardName: "air_temperature", cellMethods: "time: maximum", longName: "Daily maximum air temperature at 2 m" },
+  { name: "air_temperature_min", field: "tempMin", unit: "°C", standardName: "air_temperature", cellMethods: "time: minimum", longName: "Daily minimum air temperature at 2 m" },
+  { name: "relative_humidity", field: "humidity", unit: "%", standardName: "relative_humidity", cellMethods: "time: mean", longName: "Daily mean relative humidity at 2 m" },
+  { name: "wind_speed", field: "windSpeed", unit: "m/s", standardName: "wind_speed", cellMethods: "time: mean", longName: "Daily mean wind speed at 10 m" },
+  // 1 mm of water is 1 kg m-2
+  { name: "precipitation_amount", field: "precipitation", unit: "kg m-2", standardName: "precipitation_amount", cellMethods: "time: sum", longName: "Daily precipitation sum (mm)" },
+] as const
+
+const cfUnits = (metricUnit: string, units: UnitPreferences) => {
+  const label = unitLabel(metricUnit, units)
+  return CF_UNITS[label] ?? label
+}
+
+/**
+ * CF-JSON (https://cf-json.org): NetCDF's dimensions/variables/attributes layout with CF-1.8 metadata,
+ * describing the record as a single-station time series.
+ */
+export function recordToCFJSON(record: WeatherRecord, preferredUnits: UnitPreferences = METRIC_UNITS) {
+  const units = exportUnits(preferredUnits)
+  const { lat, lon } = record.location.coordinates
+  const variables: DailyVariableKey[] = record.variables ?? []
+  const epoch = new Date(1970, 0, 1)
+
+  const series = (values: (number | undefined)[], attributes: Record<string, string>) => ({
+    shape: ["time"],
+    type: "float",
+    attributes,
+    data: values.map((value) => round(value)),
+  })
+
+  return {
+    attributes: {
+      Conventions: "CF-1.8",
+      featureType: "timeSeries",
+      title: `Daily weather for ${record.location.name}`,
+      source: "Open-Meteo historical weather API",
+      history: `${new Date().toISOString()} exported from the weather app`,
+      time_coverage_start: dayKey(record.dateRange.startDate),
+      time_coverage_end: dayKey(record.dateRange.endDate),
+    },
+    dimensions: { time: record.temperatures.length },
+    variables: {
+      time: {
+        shape: ["time"],
+        type: "int",
+        attributes: { standard_name: "time", units: "days since 1970-01-01", calendar: "standard" },
+        data: record.temperatures.map((temp) => differenceInCalendarDays(temp.date, epoch)),
+      },
+      lat: { shape: [], type: "float", attributes: { standard_name: "latitude", units: "degrees_north" }, data: lat },
+      lon: { shape: [], type: "float", attributes: { standard_name: "longitude", units: "degrees_east" }, data: lon },
+      station_name: { shape: [], type: "string", attributes: { cf_role: "timeseries_id" }, data: record.location.name },
+      ...Object.fromEntries(
+        CF_BASE_VARIABLES.map((variable) => [
+          variable.name,
+          series(
+            record.temperatures.map((temp) => valueInUnits(temp[variable.field], variable.unit, units)),
+            {
+              standard_name: variable.standardName,
+              long_name: variable.longName,
+              units: cfUnits(variable.unit, units),
+              cell_methods: variable.cellMethods,
+              coordinates: "lat lon",
+            },
+          ),
+        ]),
+      ),
+      ...Object.fromEntries(
+        variables.map((key) => {
+          const { label, unit } = getDailyVariable(key)
+          return [
+            key,
+            series(
+              record.temperatures.map((temp) => valueInUnits(temp.values?.[key] ?? undefined, unit, units)),
+              { long_name: label, units: cfUnits(unit, units), coordinates: "lat lon" },
+            ),
+          ]
+        }),
+      ),
+    },
+  }
+}
+
+export function recordToXlsx(record: WeatherRecord, preferredUnits: UnitPreferences = METRIC_UNITS): Uint8Array {
+  const units = exportUnits(preferredUnits)
+  const variables = record.variables ?? []
+
+  const metadata: XlsxCell[][] = [
+    ["Location", record.location.name],
+    ["Latitude", record.location.coordinates.lat],
+    ["Longitude", record.location.coordinates.lon],
+    ["Start Date", dayKey(record.dateRange.startDate)],
+    ["End Date", dayKey(record.dateRange.endDate)],
+    ["Resolution", record.resolution ?? "daily"],
+    ["Variables", variables.map((key) => columnInUnits(dailyVariableHeader(key), units)).join(", ")],
+    ["Units", describeUnits(units)],
+    ["Created", dayKey(record.createdAt)],
+  ]
+
+  const daily: XlsxCell[][] = [
+    dailyCSVColumns(variables, units),
+    ...record.temperatures.map((temp) => [
+      dayKey(temp.date),
+      round(valueInUnits(temp.temperature, "°C", units)),
+      temp.description,
+      round(temp.humidity),
+      round(valueInUnits(temp.windSpeed, "m/s", units)),
+      round(valueInUnits(temp.tempMax, "°C", units)),
+      round(valueInUnits(temp.tempMin, "°C", units)),
+      round(temp.precipitation),
+      ...variables.map((key) => round(valueInUnits(temp.values?.[key] ?? undefined, getDailyVariable(key).unit, units))),
+    ]),
+  ]
+
+  const hourly: XlsxCell[][] | null =
+    record.resolution === "hourly" && record.hourly
+      ? [
+          hourlyCSVColumns(units),
+          ...record.hourly.map((hour) => [
+            hour.time,
+            round(valueInUnits(hour.temperature, "°C", units)),
+            round(hour.humidity),
+            round(hour.precipitation),
+            round(valueInUnits(hour.windSpeed, "m/s", units)),
+            round(hour.windDirection),
+            round(hour.cloudCover),
+            round(valueInUnits(hour.pressure, "hPa", units), pressureDigits(units)),
+            hour.description,
+          ]),
+        ]
+      : null
+
+  return buildXlsx([
+    { name: "Metadata", rows: metadata },
+    { name: "Daily", rows: daily },
+    ...(hourly ? [{ name: "Hourly", rows: hourly }] : []),
+  ])
+}
+
+export const RECORD_EXPORTERS: RecordExporter[] = [
+  {
+    id: "json",
+    label: "JSON",
+    extension: "json",
+    mimeType: "application/json",
+    serialize: (record, units) => JSON.stringify(recordToJSON(record, units), null, 2),
+  },
+  {
+    id: "csv",
+    label: "CSV",
+    extension: "csv",
+    mimeType: "text/csv",
+    serialize: recordToCSV,
+  },
+  {
+    id: "geojson",
+    label: "GeoJSON",
+    extension: "geojson",
+    mimeType: "application/geo+json",
+    serialize: (record, units) => JSON.stringify(recordToGeoJSON(record, units), null, 2),
+  },
+  {
+    id: "xlsx",
+    label: "Excel (XLSX)",
+    extension: "xlsx",
+    mimeType: "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet",
+    serialize: recordToXlsx,
+  },
+  {
+    id: "cf-json",
+    label: "CF-JSON",
+    extension: "cf.json",
+    mimeType: "application/json",
+    serialize: (record, units) => JSON.stringify(recordToCFJSON(record, units), null, 2),
+  },
+]
+
+export function getExporter(id: ExportFormat): RecordExporter {
+  const exporter = RECORD_EXPORTERS.find((candidate) => candidate.id === id)
+  if (!exporter) throw new Error(`Unknown export format "${id}"`)
+  return exporter
+}
+
+const slugify = (value: string) =>
+  value
+    .normalize("NFKD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/^-+|-+$/g, "")
+    .slice(0, 40)
+
+/** Unique, readable file name per record inside an archive, e.g. "paris-france-2024-01-01.csv" */
+function archiveFileNames(records: WeatherRecord[], extension: string): string[] {
+  const used = new Map<string, number>()
+  return records.map((record) => {
+    const base = `${slugify(record.location.name) || "record"}-${dateFormat(record.dateRange.startDate, "yyyy-MM-dd")}`
+    const count = used.get(base) ?? 0
+    used.set(base, count + 1)
+    return `${count === 0 ? base : `${base}-${count + 1}`}.${extension}`
+  })
+}
+
+/** ZIP archive with one file per record, in the same format as the single-record export */
+export function recordsToZip(records: WeatherRecord[], exporter: RecordExporter, units?: UnitPreferences): Uint8Array {
+  const names = archiveFileNames(records, exporter.extension)
+  const files = Object.fromEntries(
+    records.map((record, index) => {
+      const content = exporter.serialize(record, units)
+      return [names[index], typeof content === "string" ? strToU8(content) : content]
+    }),
+  )
+  // XLSX files are already compressed
+  return zipSync(files, { level: exporter.id === "xlsx" ? 0 : 6 })
+}
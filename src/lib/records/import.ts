@@ -0,0 +1,415 @@
+import { isValid, max as latest, min as earliest, parseISO } from "date-fns"
+import type { WeatherRecordInput } from "@/lib/records/api"
+import { formatHighLow } from "@/lib/records/description"
+import { DAILY_CSV_COLUMNS, HOURLY_CSV_COLUMNS, HOURLY_CSV_MARKER } from "@/lib/records/export"
+import { RECORD_SCHEMA_VERSION, type DailyWeather, type HourlyWeather } from "@/lib/records/types"
+import { toMetric } from "@/lib/weather/units"
+import {
+  DAILY_VARIABLES,
+  dailyVariableHeader,
+  getDailyVariable,
+  isDailyVariableKey,
+  type DailyVariableKey,
+  type DailyVariableValues,
+} from "@/lib/weather/variables"
+
+/**
+ * @file import.ts
+ * @description Parses record files produced by export.ts (JSON, or CSV with its "# Key: value" metadata header)
+ * back into a record that can be POSTed to the backend.
+ * - Every problem is reported with its CSV line number or JSON path instead of stopping at the first one
+ * - Older exports without the newer columns/fields are accepted
+ * - Values exported in other units (CSV column headers, the JSON `units` member) are converted back to metric
+ */
+
+export interface ImportIssue {
+  /** 1-based line in a CSV file */
+  line?: number
+  /** Location in a JSON file, e.g. "temperatures[3].date" */
+  path?: string
+  message: string
+}
+
+export interface ImportResult {
+  /** Parsed record, or null when the file is unusable; only import it when `errors` is empty */
+  record: WeatherRecordInput | null
+  errors: ImportIssue[]
+}
+
+export type ImportFormat = "json" | "csv"
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/
+const TIME_PATTERN = /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}$/
+
+const VARIABLE_BY_HEADER = new Map(DAILY_VARIABLES.map((variable) => [dailyVariableHeader(variable.key), variable.key]))
+
+type Conversion = (value: number) => number
+
+const identity: Conversion = (value) => value
+
+/**
+ * Reads a unit-labelled column header as its metric column, e.g. "Temperature (°F)" as "Temperature (°C)"
+ * plus the conversion from °F; other headers are returned unchanged.
+ */
+function metricColumn(column: string): { column: string; toMetric: Conversion } {
+  const match = /^(.*)\((.+)\)$/.exec(column)
+  const conversion = match ? toMetric(match[2]) : undefined
+  return match && conversion
+    ? { column: `${match[1]}(${conversion.metricUnit})`, toMetric: conversion.convert }
+    : { column, toMetric: identity }
+}
+
+export function detectImportFormat(fileName: string, text: string): ImportFormat {
+  if (fileName.toLowerCase().endsWith(".json")) return "json"
+  if (fileName.toLowerCase().endsWith(".csv")) return "csv"
+  return text.trimStart().startsWith("{") ? "json" : "csv"
+}
+
+export function parseRecordFile(fileName: string, text: string): ImportResult {
+  return detectImportFormat(fileName, text) === "json" ? parseRecordJSON(text) : parseRecordCSV(text)
+}
+
+const parseDate = (value: string): Date | undefined => {
+  const date = parseISO(value)
+  return DATE_PATTERN.test(value) && isValid(date) ? date : undefined
+}
+
+const dateRangeOf = (days: DailyWeather[]) => ({
+  startDate: earliest(days.map((day) => day.date)),
+  endDate: latest(days.map((day) => day.date)),
+})
+
+/** Splits one CSV line, honouring double-quoted fields with "" escapes */
+export function parseCSVLine(line: string): string[] {
+  const fields: string[] = []
+  let field = ""
+  let quoted = false
+
+  for (let i = 0; i < line.length; i++) {
+    const char = line[i]
+    if (quoted) {
+      if (char === '"' && line[i + 1] === '"') {
+        field += '"'
+        i++
+      } else if (char === '"') {
+        quoted = false
+      } else {
+        field += char
+      }
+    } else if (char === '"') {
+      quoted = true
+    } else if (char === ",") {
+      fields.push(field)
+      field = ""
+    } else {
+      field += char
+    }
+  }
+  fields.push(field)
+  return fields
+}
+
+export function parseRecordCSV(text: string): ImportResult {
+  const errors: ImportIssue[] = []
+  const metadata = new Map<string, { value: string; line: number }>()
+  const temperatures: DailyWeather[] = []
+  const hourly: HourlyWeather[] = []
+  const variables: DailyVariableKey[] = []
+
+  let section: "daily" | "hourly" = "daily"
+  /** Metric column names; `labels` and `conversions` hold each column's header as written and its conversion */
+  let header: string[] | null = null
+  let labels: string[] = []
+  let conversions: Conversion[] = []
+
+  const lines = text.replace(/^\uFEFF/, "").split(/\r?\n/)
+
+  lines.forEach((raw, index) => {
+    const line = index + 1
+    const trimmed = raw.trim()
+    if (!trimmed) return
+
+    if (trimmed.startsWith("#")) {
+      if (trimmed === HOURLY_CSV_MARKER) {
+        section = "hourly"
+        header = null
+        return
+      }
+      const match = trimmed.match(/^#\s*([^:]+):\s*(.*)$/)
+      if (match) metadata.set(match[1].trim().toLowerCase(), { value: match[2].trim(), line })
+      return
+    }
+
+    if (!header) {
+      labels = parseCSVLine(raw).map((column) => column.trim())
+      const columns = labels.map(metricColumn)
+      header = columns.map((column) => column.column)
+      conversions = columns.map((column) => column.toMetric)
+      const required = section === "daily" ? [DAILY_CSV_COLUMNS[0], DAILY_CSV_COLUMNS[1]] : [HOURLY_CSV_COLUMNS[0]]
+      for (const column of required) {
+        if (!header.includes(column)) errors.push({ line, message: `Missing required column "${column}"` })
+      }
+      const known: readonly string[] = section === "daily" ? DAILY_CSV_COLUMNS : HOURLY_CSV_COLUMNS
+      header.forEach((column, position) => {
+        const variable = VARIABLE_BY_HEADER.get(column)
+        if (section === "daily" && variable) variables.push(variable)
+        else if (!known.includes(column)) errors.push({ line, message: `Unknown column "${labels[position]}"` })
+      })
+      return
+    }
+
+    const columns: string[] = header
+    const fields = parseCSVLine(raw)
+    if (fields.length !== columns.length) {
+      errors.push({ line, message: `Expected ${columns.length} fields but found ${fields.length}` })
+      return
+    }
+    const cell = (column: string) => {
+      const position = columns.indexOf(column)
+      return position === -1 ? "" : fields[position].trim()
+    }
+    const number = (column: string, required = false): number | undefined => {
+      const value = cell(column)
+      const position = columns.indexOf(column)
+      const label = labels[position] ?? column
+      if (value === "") {
+        if (required) errors.push({ line, message: `"${label}" is required` })
+        return undefined
+      }
+      const parsed = Number(value)
+      if (!Number.isFinite(parsed)) {
+        errors.push({ line, message: `"${label}" must be a number, got "${value}"` })
+        return undefined
+      }
+      return conversions[position](parsed)
+    }
+
+    if (section === "daily") {
+      const date = parseDate(cell("Date"))
+      if (!date) errors.push({ line, message: `"Date" must be a yyyy-MM-dd date, got "${cell("Date")}"` })
+
+      const temperature = number("Temperature (°C)", true)
+      const tempMax = number("Max Temperature (°C)")
+      const tempMin = number("Min Temperature (°C)")
+      const values: DailyVariableValues = {}
+      for (const key of variables) values[key] = number(dailyVariableHeader(key)) ?? null
+
+      if (!date || temperature === undefined) return
+      temperatures.push({
+        date,
+        temperature,
+        description: cell("Description") || formatHighLow(tempMax, tempMin),
+        tempMax,
+        tempMin,
+        precipitation: number("Precipitation (mm)"),
+        humidity: number("Humidity (%)"),
+        windSpeed: number("Wind Speed (m/s)"),
+        values,
+      })
+    } else {
+      const time = cell("Time")
+      if (!TIME_PATTERN.test(time)) {
+        errors.push({ line, message: `"Time" must be a yyyy-MM-ddTHH:mm time, got "${time}"` })
+        return
+      }
+      hourly.push({
+        time,
+        temperature: number("Temperature (°C)"),
+        humidity: number("Humidity (%)"),
+        precipitation: number("Precipitation (mm)"),
+        windSpeed: number("Wind Speed (m/s)"),
+        windDirection: number("Wind Direction (°)"),
+        cloudCover: number("Cloud Cover (%)"),
+        pressure: number("Pressure (hPa)"),
+        description: cell("Description") || undefined,
+      })
+    }
+  })
+
+  const name = metadata.get("location")
+  if (!name?.value) errors.push({ line: name?.line, message: 'Missing "# Location:" header' })
+
+  const coordinate = (key: "latitude" | "longitude", limit: number) => {
+    const entry = metadata.get(key)
+    const value = entry ? Number(entry.value) : NaN
+    if (!entry || entry.value === "" || !Number.isFinite(value) || Math.abs(value) > limit) {
+      errors.push({ line: entry?.line, message: `"# ${key[0].toUpperCase()}${key.slice(1)}:" must be a number between -${limit} and ${limit}` })
+      return 0
+    }
+    return value
+  }
+  const lat = coordinate("latitude", 90)
+  const lon = coordinate("longitude", 180)
+
+  if (temperatures.length === 0) errors.push({ message: "The file has no daily rows" })
+
+  let dateRange = temperatures.length > 0 ? dateRangeOf(temperatures) : null
+  const range = metadata.get("date range")
+  if (range) {
+    const [start, end] = range.value.split(/\s+to\s+/).map((value) => parseDate(value.trim()))
+    if (start && end) dateRange = { startDate: start, endDate: end }
+    else errors.push({ line: range.line, message: '"# Date Range:" must look like "yyyy-MM-dd to yyyy-MM-dd"' })
+  }
+
+  if (!name?.value || !dateRange) return { record: null, errors }
+
+  return {
+    record: {
+      location: { name: name.value, coordinates: { lat, lon } },
+      dateRange,
+      temperatures,
+      variables,
+      resolution: hourly.length > 0 ? "hourly" : "daily",
+      hourly: hourly.length > 0 ? hourly : undefined,
+      schemaVersion: RECORD_SCHEMA_VERSION,
+    },
+    errors,
+  }
+}
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === "object" && value !== null && !Array.isArray(value)
+
+export function parseRecordJSON(text: string): ImportResult {
+  const errors: ImportIssue[] = []
+
+  let data: unknown
+  try {
+    data = JSON.parse(text)
+  } catch (error) {
+    return { record: null, errors: [{ message: `Invalid JSON: ${error instanceof Error ? error.message : String(error)}` }] }
+  }
+  if (!isObject(data)) return { record: null, errors: [{ path: "$", message: "Expected a record object" }] }
+
+  const number = (value: unknown, path: string, required = false): number | undefined => {
+    if (value === undefined || value === null) {
+      if (required) errors.push({ path, message: "is required" })
+      return undefined
+    }
+    if (typeof value !== "number" || !Number.isFinite(value)) {
+      errors.push({ path, message: "must be a number" })
+      return undefined
+    }
+    return value
+  }
+
+  // Exports name the units of converted fields; files without them are metric
+  const rawUnits = isObject(data.units) ? data.units : {}
+  const conversion = (field: string, metricUnit: string): Conversion => {
+    const label = rawUnits[field]
+    if (label === undefined) return identity
+    const known = typeof label === "string" ? toMetric(label) : undefined
+    if (known?.metricUnit === metricUnit) return known.convert
+    errors.push({ path: `units.${field}`, message: `Unsupported unit ${JSON.stringify(label)}` })
+    return identity
+  }
+  const fromFileUnits: Record<string, Conversion> = {
+    "°C": conversion("temperature", "°C"),
+    "m/s": conversion("windSpeed", "m/s"),
+    hPa: conversion("pressure", "hPa"),
+  }
+  const metricNumber = (value: unknown, path: string, metricUnit: string, required = false) => {
+    const parsed = number(value, path, required)
+    return parsed === undefined ? undefined : (fromFileUnits[metricUnit] ?? identity)(parsed)
+  }
+
+  const location = isObject(data.location) ? data.location : {}
+  const coordinates = isObject(location.coordinates) ? location.coordinates : {}
+  const name = typeof location.name === "string" ? location.name.trim() : ""
+  if (!name) errors.push({ path: "location.name", message: "is required" })
+  const lat = number(coordinates.lat, "location.coordinates.lat", true) ?? 0
+  const lon = number(coordinates.lon, "location.coordinates.lon", true) ?? 0
+  if (Math.abs(lat) > 90) errors.push({ path: "location.coordinates.lat", message: "must be between -90 and 90" })
+  if (Math.abs(lon) > 180) errors.push({ path: "location.coordinates.lon", message: "must be between -180 and 180" })
+
+  // Exports list variables as registry entries ({ key, label, ... }); plain keys are accepted too
+  const variables: DailyVariableKey[] = []
+  const rawVariables = Array.isArray(data.variables) ? data.variables : []
+  rawVariables.forEach((entry, index) => {
+    const key = isObject(entry) ? entry.key : entry
+    if (typeof key === "string" && isDailyVariableKey(key)) variables.push(key)
+    else errors.push({ path: `variables[${index}]`, message: `Unknown variable ${JSON.stringify(key)}` })
+  })
+
+  const temperatures: DailyWeather[] = []
+  if (!Array.isArray(data.temperatures)) errors.push({ path: "temperatures", message: "must be an array" })
+  const rawDays: unknown[] = Array.isArray(data.temperatures) ? data.temperatures : []
+  rawDays.forEach((entry, index) => {
+    const path = `temperatures[${index}]`
+    if (!isObject(entry)) {
+      errors.push({ path, message: "must be an object" })
+      return
+    }
+    const date = typeof entry.date === "string" ? parseDate(entry.date) : undefined
+    if (!date) errors.push({ path: `${path}.date`, message: "must be a yyyy-MM-dd date" })
+    const temperature = metricNumber(entry.temperature, `${path}.temperature`, "°C", true)
+    const tempMax = metricNumber(entry.tempMax, `${path}.tempMax`, "°C")
+    const tempMin = metricNumber(entry.tempMin, `${path}.tempMin`, "°C")
+    const rawValues = isObject(entry.values) ? entry.values : {}
+    const values: DailyVariableValues = {}
+    for (const key of variables) {
+      values[key] = metricNumber(rawValues[key], `${path}.values.${key}`, getDailyVariable(key).unit) ?? null
+    }
+
+    if (!date || temperature === undefined) return
+    temperatures.push({
+      date,
+      temperature,
+      description: typeof entry.description === "string" ? entry.description : formatHighLow(tempMax, tempMin),
+      tempMax,
+      tempMin,
+      precipitation: number(entry.precipitation, `${path}.precipitation`),
+      humidity: number(entry.humidity, `${path}.humidity`),
+      windSpeed: metricNumber(entry.windSpeed, `${path}.windSpeed`, "m/s"),
+      values,
+    })
+  })
+  if (Array.isArray(data.temperatures) && rawDays.length === 0) {
+    errors.push({ path: "temperatures", message: "has no daily rows" })
+  }
+
+  const hourly: HourlyWeather[] = []
+  const rawHours: unknown[] = data.resolution === "hourly" && Array.isArray(data.hourly) ? data.hourly : []
+  rawHours.forEach((entry, index) => {
+    const path = `hourly[${index}]`
+    if (!isObject(entry) || typeof entry.time !== "string" || !TIME_PATTERN.test(entry.time)) {
+      errors.push({ path: `${path}.time`, message: "must be a yyyy-MM-ddTHH:mm time" })
+      return
+    }
+    hourly.push({
+      time: entry.time,
+      temperature: metricNumber(entry.temperature, `${path}.temperature`, "°C"),
+      humidity: number(entry.humidity, `${path}.humidity`),
+      precipitation: number(entry.precipitation, `${path}.precipitation`),
+      windSpeed: metricNumber(entry.windSpeed, `${path}.windSpeed`, "m/s"),
+      windDirection: number(entry.windDirection, `${path}.windDirection`),
+      cloudCover: number(entry.cloudCover, `${path}.cloudCover`),
+      pressure: metricNumber(entry.pressure, `${path}.pressure`, "hPa"),
+      description: typeof entry.description === "string" ? entry.description : undefined,
+    })
+  })
+
+  const rawRange = isObject(data.dateRange) ? data.dateRange : {}
+  const startDate = typeof rawRange.startDate === "string" ? parseDate(rawRange.startDate) : undefined
+  const endDate = typeof rawRange.endDate === "string" ? parseDate(rawRange.endDate) : undefined
+  if (data.dateRange !== undefined && (!startDate || !endDate)) {
+    errors.push({ path: "dateRange", message: "must have yyyy-MM-dd startDate and endDate" })
+  }
+  const dateRange =
+    startDate && endDate ? { startDate, endDate } : temperatures.length > 0 ? dateRangeOf(temperatures) : null
+
+  if (!name || !dateRange) return { record: null, errors }
+
+  return {
+    record: {
+      location: { name, coordinates: { lat, lon } },
+      dateRange,
+      temperatures,
+      variables,
+      resolution: hourly.length > 0 ? "hourly" : "daily",
+      hourly: hourly.length > 0 ? hourly : undefined,
+      schemaVersion: RECORD_SCHEMA_VERSION,
+    },
+    errors,
+  }
+}
@@ -0,0 +1,66 @@
+import { parseHighLow } from "@/lib/records/description"
+import type { RawDailyWeather, RawHourlyWeather, RawWeatherRecord } from "@/lib/records/schemas"
+import { RECORD_SCHEMA_VERSION, type DailyWeather, type HourlyWeather, type WeatherRecord } from "@/lib/records/types"
+import { isDailyVariableKey } from "@/lib/weather/variables"
+
+/**
+ * @file normalize.ts
+ * @description Upgrades records validated by schemas.ts (dates already revived) from older field sets to WeatherRecord.
+ * - Records saved before tempMax/tempMin existed get them back from their "High: X°C, Low: Y°C" description
+ * - Records saved before hourly resolution existed are daily records
+ * - Records without a schema version stored their daily wind speeds in km/h; they are converted to m/s
+ * - Missing values sent as null become undefined
+ */
+
+const optionalNumber = (value: number | null | undefined): number | undefined =>
+  typeof value === "number" && Number.isFinite(value) ? value : undefined
+
+const KMH_PER_MS = 3.6
+
+/**
+ * @param schemaVersion - Version the record was saved with; hourly rows came after version 1 and are always in m/s
+ */
+export function normalizeDailyWeather(raw: RawDailyWeather, schemaVersion = RECORD_SCHEMA_VERSION): DailyWeather {
+  const windSpeed = optionalNumber(raw.windSpeed)
+  const legacy = parseHighLow(raw.description)
+  return {
+    date: raw.date,
+    temperature: raw.temperature,
+    description: raw.description,
+    tempMax: optionalNumber(raw.tempMax) ?? legacy.high,
+    tempMin: optionalNumber(raw.tempMin) ?? legacy.low,
+    precipitation: optionalNumber(raw.precipitation),
+    humidity: optionalNumber(raw.humidity),
+    windSpeed: windSpeed !== undefined && schemaVersion < 2 ? windSpeed / KMH_PER_MS : windSpeed,
+    values: raw.values ?? {},
+  }
+}
+
+export function normalizeHourlyWeather(raw: RawHourlyWeather): HourlyWeather {
+  return {
+    time: raw.time,
+    temperature: optionalNumber(raw.temperature),
+    humidity: optionalNumber(raw.humidity),
+    precipitation: optionalNumber(raw.precipitation),
+    windSpeed: optionalNumber(raw.windSpeed),
+    windDirection: optionalNumber(raw.windDirection),
+    cloudCover: optionalNumber(raw.cloudCover),
+    pressure: optionalNumber(raw.pressure),
+    description: raw.description ?? undefined,
+  }
+}
+
+export function normalizeRecord(raw: RawWeatherRecord): WeatherRecord {
+  return {
+    _id: raw._id,
+    location: raw.location,
+    dateRange: raw.dateRange,
+    temperatures: raw.temperatures.map((day) => normalizeDailyWeather(day, raw.schemaVersion ?? 1)),
+    variables: raw.variables.filter(isDailyVariableKey),
+    resolution: raw.resolution === "hourly" ? "hourly" : "daily",
+    hourly: raw.resolution === "hourly" ? (raw.hourly ?? []).map(normalizeHourlyWeather) : undefined,
+    createdAt: raw.createdAt,
+    updatedAt: raw.updatedAt ?? undefined,
+    schemaVersion: RECORD_SCHEMA_VERSION,
+  }
+}
@@ -0,0 +1,269 @@
+import axios from "axios"
+import { idbClear, idbDelete, idbGetAll, idbPut } from "@/lib/idb"
+import {
+  createRecord,
+  deleteRecord,
+  fetchRecords,
+  isRecordConflictError,
+  updateRecord,
+  type WeatherRecordInput,
+} from "@/lib/records/api"
+import type { WeatherRecord } from "@/lib/records/types"
+
+/**
+ * @file offline.ts
+ * @description Offline-first layer over the records API.
+ * - The last known list of records is kept in IndexedDB and served when the backend can't be reached
+ * - Changes made while offline are queued in IndexedDB ("outbox") and replayed in order by syncOutbox
+ * - While a record has queued changes, its new changes are queued behind them so the backend sees them in order
+ * - Records created offline get a "local-" id until the backend assigns the real one
+ */
+
+export type SyncStatus = "synced" | "pending" | "failed"
+
+type Mutation =
+  | { type: "create"; id: string; input: WeatherRecordInput }
+  | { type: "update"; id: string; input: WeatherRecordInput; base?: WeatherRecord }
+  | { type: "delete"; id: string }
+
+export type QueuedMutation = Mutation & {
+  /** Queue position; also the outbox key */
+  seq: number
+  /** Set when the backend rejected the change; it is retried only on request */
+  error?: string
+}
+
+export interface OfflineResult<T> {
+  value: T
+  /** True when the change was only stored locally and waits in the outbox */
+  queued: boolean
+}
+
+export interface SyncReport {
+  synced: number
+  /** Backend records that replaced records created offline, by their local id */
+  created: Record<string, WeatherRecord>
+  /** Queued updates rejected because the record changed on the backend */
+  conflicts: { mine: WeatherRecordInput; theirs: WeatherRecord }[]
+  /** True when the backend became unreachable before the outbox was empty */
+  offline: boolean
+}
+
+const LOCAL_ID_PREFIX = "local-"
+
+export const isLocalRecordId = (id: string) => id.startsWith(LOCAL_ID_PREFIX)
+
+const isOnline = () => typeof navigator === "undefined" || navigator.onLine
+
+/** The backend could not be reached at all, as opposed to answering with an error */
+export const isOfflineError = (error: unknown) =>
+  !isOnline() || (axios.isAxiosError(error) && !error.response && error.code !== "ERR_CANCELED")
+
+let lastSeq = 0
+const nextSeq = () => (lastSeq = Math.max(lastSeq + 1, Date.now()))
+
+export const queuedMutations = () => idbGetAll<QueuedMutation>("outbox")
+
+async function enqueue(mutation: Mutation) {
+  const seq = nextSeq()
+  await idbPut<QueuedMutation>("outbox", seq, { ...mutation, seq })
+}
+
+/**
+ * Queue when offline, or when earlier changes to the same record are still waiting (or were rejected), so that
+ * record's changes reach the backend in order. Queued changes to other records don't hold a change back.
+ */
+const shouldQueue = async (id?: string) =>
+  !isOnline() || (id !== undefined && (await queuedMutations()).some((mutation) => mutation.id === id))
+
+/** Sync state of every record with queued changes; records not listed are synced */
+export async function getSyncStatus(): Promise<Record<string, SyncStatus>> {
+  const status: Record<string, SyncStatus> = {}
+  for (const mutation of await queuedMutations()) {
+    status[mutation.id] = mutation.error || status[mutation.id] === "failed" ? "failed" : "pending"
+  }
+  return status
+}
+
+/** Applies queued changes on top of a list fetched from the backend */
+function applyMutations(records: WeatherRecord[], mutations: QueuedMutation[]): WeatherRecord[] {
+  let result = records
+  for (const mutation of mutations) {
+    if (mutation.type === "create") {
+      result = [...result, { ...mutation.input, _id: mutation.id, createdAt: new Date(mutation.seq) }]
+    } else if (mutation.type === "update") {
+      result = result.map((record) => (record._id === mutation.id ? { ...record, ...mutation.input } : record))
+    } else {
+      result = result.filter((record) => record._id !== mutation.id)
+    }
+  }
+  return result
+}
+
+const putLocalRecord = async (record: WeatherRecord) => {
+  if (record._id) await idbPut("records", record._id, record)
+}
+
+async function replaceLocalRecords(records: WeatherRecord[]) {
+  await idbClear("records")
+  await Promise.all(records.map(putLocalRecord))
+}
+
+/**
+ * Loads the records from the backend and keeps a local copy; falls back to that copy when offline.
+ * Queued changes are applied in both cases.
+ */
+export async function loadRecords(): Promise<{ records: WeatherRecord[]; offline: boolean }> {
+  try {
+    const records = applyMutations(await fetchRecords(), await queuedMutations())
+    await replaceLocalRecords(records)
+    return { records, offline: false }
+  } catch (error) {
+    if (!isOfflineError(error)) throw error
+    const records = await idbGetAll<WeatherRecord>("records")
+    // The store is keyed by id; the backend lists records in creation order
+    records.sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime())
+    return { records, offline: true }
+  }
+}
+
+export async function saveNewRecord(input: WeatherRecordInput): Promise<OfflineResult<WeatherRecord>> {
+  if (!(await shouldQueue())) {
+    try {
+      const created = await createRecord(input)
+      await putLocalRecord(created)
+      return { value: created, queued: false }
+    } catch (error) {
+      if (!isOfflineError(error)) throw error
+    }
+  }
+
+  const local: WeatherRecord = { ...input, _id: `${LOCAL_ID_PREFIX}${nextSeq()}`, createdAt: new Date() }
+  await enqueue({ type: "create", id: local._id!, input })
+  await putLocalRecord(local)
+  return { value: local, queued: true }
+}
+
+/** @throws RecordConflictError when sent right away and the record changed on the backend */
+export async function saveRecordUpdate(
+  id: string,
+  input: WeatherRecordInput,
+  base: WeatherRecord,
+): Promise<OfflineResult<WeatherRecord>> {
+  if (!(await shouldQueue(id))) {
+    try {
+      const updated = await updateRecord(id, input, base)
+      await putLocalRecord(updated)
+      return { value: updated, queued: false }
+    } catch (error) {
+      if (!isOfflineError(error)) throw error
+    }
+  }
+
+  const local: WeatherRecord = { ...base, ...input }
+  await enqueue({ type: "update", id, input, base })
+  await putLocalRecord(local)
+  return { value: local, queued: true }
+}
+
+/** @param options.keepalive - Lets the request outlive the page, for deletes flushed while it unloads */
+export async function removeRecord(id: string, options: { keepalive?: boolean } = {}): Promise<OfflineResult<void>> {
+  await idbDelete("records", id)
+
+  // A record that never reached the backend only needs its queued changes dropped
+  if (isLocalRecordId(id)) {
+    const queued = (await queuedMutations()).filter((mutation) => mutation.id === id)
+    await Promise.all(queued.map((mutation) => idbDelete("outbox", mutation.seq)))
+    return { value: undefined, queued: false }
+  }
+
+  if (!(await shouldQueue(id))) {
+    try {
+      await deleteRecord(id, options)
+      return { value: undefined, queued: false }
+    } catch (error) {
+      if (!isOfflineError(error)) throw error
+    }
+  }
+
+  await enqueue({ type: "delete", id })
+  return { value: undefined, queued: true }
+}
+
+async function replay(mutation: QueuedMutation, remaining: QueuedMutation[], report: SyncReport) {
+  if (mutation.type === "create") {
+    const created = await createRecord(mutation.input)
+    report.created[mutation.id] = created
+    await idbDelete("records", mutation.id)
+    await putLocalRecord(created)
+    // Later changes to this record must target the id the backend assigned
+    for (const later of remaining) {
+      if (later.id !== mutation.id) continue
+      later.id = created._id!
+      await idbPut("outbox", later.seq, later)
+    }
+  } else if (mutation.type === "update") {
+    await putLocalRecord(await updateRecord(mutation.id, mutation.input, mutation.base))
+  } else {
+    try {
+      await deleteRecord(mutation.id)
+    } catch (error) {
+      // Already gone is as good as deleted
+      if (!axios.isAxiosError(error) || error.response?.status !== 404) throw error
+    }
+  }
+}
+
+async function drainOutbox({ retryFailed = false }): Promise<SyncReport> {
+  const report: SyncReport = { synced: 0, created: {}, conflicts: [], offline: false }
+  const queue = await queuedMutations()
+  // Records whose earlier change failed; their later changes wait so they stay in order
+  const blocked = new Set<string>()
+
+  for (const [index, mutation] of queue.entries()) {
+    if (blocked.has(mutation.id) || (mutation.error && !retryFailed)) {
+      blocked.add(mutation.id)
+      continue
+    }
+
+    try {
+      await replay(mutation, queue.slice(index + 1), report)
+      await idbDelete("outbox", mutation.seq)
+      report.synced++
+    } catch (error) {
+      if (isOfflineError(error)) {
+        report.offline = true
+        break
+      }
+      if (isRecordConflictError(error) && mutation.type === "update") {
+        // Handed to the user to resolve instead of being retried
+        await idbDelete("outbox", mutation.seq)
+        await putLocalRecord(error.current)
+        report.conflicts.push({ mine: mutation.input, theirs: error.current })
+        continue
+      }
+      console.error("Failed to sync queued record change", error)
+      await idbPut<QueuedMutation>("outbox", mutation.seq, {
+        ...mutation,
+        error: error instanceof Error ? error.message : String(error),
+      })
+      blocked.add(mutation.id)
+    }
+  }
+  return report
+}
+
+let syncing: Promise<SyncReport> | null = null
+
+/**
+ * Replays the outbox in order. Concurrent calls share the run in progress.
+ * @param options.retryFailed - Also retry changes the backend rejected before
+ */
+export function syncOutbox(options: { retryFailed?: boolean } = {}): Promise<SyncReport> {
+  if (!syncing) {
+    syncing = drainOutbox(options).finally(() => {
+      syncing = null
+    })
+  }
+  return syncing
+}
@@ -0,0 +1,112 @@
+import { endOfDay, isAfter, isBefore, isValid, parseISO, startOfDay } from "date-fns"
+import type { WeatherRecord } from "@/lib/records/types"
+
+/**
+ * @file query.ts
+ * @description Search, filter, sort and paging of the saved records list, and its URL representation.
+ * Only non-default values are written to the URL so shared links stay short.
+ */
+
+export type RecordSortKey = "created" | "location" | "start"
+export type SortOrder = "asc" | "desc"
+
+export interface RecordQuery {
+  /** Case-insensitive text matched against the location name */
+  q: string
+  /** Keep records whose date range overlaps from..to (yyyy-MM-dd, both optional) */
+  from?: string
+  to?: string
+  /** Keep records created within createdFrom..createdTo (yyyy-MM-dd, both optional) */
+  createdFrom?: string
+  createdTo?: string
+  sort: RecordSortKey
+  order: SortOrder
+  /** 1-based */
+  page: number
+}
+
+export const DEFAULT_RECORD_QUERY: RecordQuery = { q: "", sort: "created", order: "desc", page: 1 }
+
+export const RECORDS_PAGE_SIZE = 10
+
+const SORT_KEYS: RecordSortKey[] = ["created", "location", "start"]
+const DATE_PARAMS = ["from", "to", "createdFrom", "createdTo"] as const
+
+const validDate = (value: string | null) =>
+  value && /^\d{4}-\d{2}-\d{2}$/.test(value) && isValid(parseISO(value)) ? value : undefined
+
+export function parseRecordQuery(params: URLSearchParams): RecordQuery {
+  const sort = params.get("sort") as RecordSortKey | null
+  const page = Number(params.get("page"))
+  return {
+    q: params.get("q") ?? "",
+    from: validDate(params.get("from")),
+    to: validDate(params.get("to")),
+    createdFrom: validDate(params.get("createdFrom")),
+    createdTo: validDate(params.get("createdTo")),
+    sort: sort && SORT_KEYS.includes(sort) ? sort : DEFAULT_RECORD_QUERY.sort,
+    order: params.get("order") === "asc" ? "asc" : params.get("order") === "desc" ? "desc" : DEFAULT_RECORD_QUERY.order,
+    page: Number.isInteger(page) && page > 0 ? page : 1,
+  }
+}
+
+/** Writes the query into `base`, keeping unrelated params and dropping defaults */
+export function recordQueryToParams(query: RecordQuery, base?: URLSearchParams): URLSearchParams {
+  const params = new URLSearchParams(base)
+  const set = (name: string, value: string | undefined, fallback?: string) => {
+    if (value && value !== fallback) params.set(name, value)
+    else params.delete(name)
+  }
+
+  set("q", query.q.trim())
+  for (const name of DATE_PARAMS) set(name, query[name])
+  set("sort", query.sort, DEFAULT_RECORD_QUERY.sort)
+  set("order", query.order, DEFAULT_RECORD_QUERY.order)
+  set("page", String(query.page), "1")
+  return params
+}
+
+export const hasRecordFilters = (query: RecordQuery) =>
+  query.q.trim() !== "" || DATE_PARAMS.some((name) => query[name] !== undefined)
+
+export function filterRecords(records: WeatherRecord[], query: RecordQuery): WeatherRecord[] {
+  const text = query.q.trim().toLowerCase()
+  const from = query.from ? startOfDay(parseISO(query.from)) : undefined
+  const to = query.to ? endOfDay(parseISO(query.to)) : undefined
+  const createdFrom = query.createdFrom ? startOfDay(parseISO(query.createdFrom)) : undefined
+  const createdTo = query.createdTo ? endOfDay(parseISO(query.createdTo)) : undefined
+
+  return records.filter((record) => {
+    if (text && !record.location.name.toLowerCase().includes(text)) return false
+    // Ranges overlap unless one ends before the other starts
+    if (from && isBefore(endOfDay(record.dateRange.endDate), from)) return false
+    if (to && isAfter(startOfDay(record.dateRange.startDate), to)) return false
+    if (createdFrom && isBefore(record.createdAt, createdFrom)) return false
+    if (createdTo && isAfter(record.createdAt, createdTo)) return false
+    return true
+  })
+}
+
+const COMPARATORS: Record<RecordSortKey, (a: WeatherRecord, b: WeatherRecord) => number> = {
+  created: (a, b) => a.createdAt.getTime() - b.createdAt.getTime(),
+  location: (a, b) => a.location.name.localeCompare(b.location.name, undefined, { sensitivity: "base" }),
+  start: (a, b) => a.dateRange.startDate.getTime() - b.dateRange.startDate.getTime(),
+}
+
+export function sortRecords(records: WeatherRecord[], { sort, order }: Pick<RecordQuery, "sort" | "order">) {
+  const direction = order === "asc" ? 1 : -1
+  return [...records].sort((a, b) => COMPARATORS[sort](a, b) * direction)
+}
+
+/** Filters, sorts and slices out the requested page; `page` is clamped to the available pages */
+export function queryRecords(records: WeatherRecord[], query: RecordQuery) {
+  const matching = sortRecords(filterRecords(records, query), query)
+  const pageCount = Math.max(1, Math.ceil(matching.length / RECORDS_PAGE_SIZE))
+  const page = Math.min(query.page, pageCount)
+  return {
+    matching,
+    page,
+    pageCount,
+    items: matching.slice((page - 1) * RECORDS_PAGE_SIZE, page * RECORDS_PAGE_SIZE),
+  }
+}
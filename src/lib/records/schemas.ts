@@ -0,0 +1,64 @@
+import { z } from "zod"
+import { normalizeRecord } from "@/lib/records/normalize"
+import type { WeatherRecord } from "@/lib/records/types"
+
+/**
+ * @file schemas.ts
+ * @description Runtime schema for records returned by the records backend (/api/weather).
+ * - Date fields arrive as ISO strings and are deserialized into Date objects here, so nothing downstream re-parses them
+ * - Missing numbers may be sent as null; older field sets are accepted and upgraded by normalizeRecord
+ */
+
+/** ISO string (or an already revived Date) that must parse to a valid date */
+const dateField = z.union([z.string(), z.date()]).pipe(z.coerce.date())
+
+const optionalNumber = z.number().nullable().optional()
+
+export const rawDailyWeatherSchema = z.object({
+  date: dateField,
+  temperature: z.number(),
+  description: z.string().default(""),
+  tempMax: optionalNumber,
+  tempMin: optionalNumber,
+  precipitation: optionalNumber,
+  humidity: optionalNumber,
+  windSpeed: optionalNumber,
+  values: z.record(z.number().nullable()).optional(),
+})
+
+export const rawHourlyWeatherSchema = z.object({
+  time: z.string(),
+  temperature: optionalNumber,
+  humidity: optionalNumber,
+  precipitation: optionalNumber,
+  windSpeed: optionalNumber,
+  windDirection: optionalNumber,
+  cloudCover: optionalNumber,
+  pressure: optionalNumber,
+  description: z.string().nullable().optional(),
+})
+
+export const rawWeatherRecordSchema = z.object({
+  _id: z.string().optional(),
+  location: z.object({
+    name: z.string(),
+    coordinates: z.object({ lat: z.number(), lon: z.number() }),
+  }),
+  dateRange: z.object({ startDate: dateField, endDate: dateField }),
+  temperatures: z.array(rawDailyWeatherSchema).default([]),
+  variables: z.array(z.string()).default([]),
+  resolution: z.string().optional(),
+  hourly: z.array(rawHourlyWeatherSchema).nullable().optional(),
+  createdAt: dateField,
+  updatedAt: dateField.nullable().optional(),
+  schemaVersion: z.number().int().positive().nullable().optional(),
+})
+
+export type RawDailyWeather = z.infer<typeof rawDailyWeatherSchema>
+export type RawHourlyWeather = z.infer<typeof rawHourlyWeatherSchema>
+export type RawWeatherRecord = z.infer<typeof rawWeatherRecordSchema>
+
+export const weatherRecordSchema: z.ZodType<WeatherRecord, z.ZodTypeDef, unknown> =
+  rawWeatherRecordSchema.transform(normalizeRecord)
+
+export const weatherRecordListSchema = z.array(weatherRecordSchema)
@@ -0,0 +1,18 @@
+import "server-only"
+
+/**
+ * Server-only entry point of the local records backend: these modules use the file system
+ * and must only be imported from route handlers. The "server-only" import fails the build if a client module imports them.
+ */
+export { getRecord, insertRecord, listRecords, removeRecord, replaceRecord } from "@/lib/records/server/store"
+export type { StoredRecord } from "@/lib/records/server/store"
+export { validateRecordInput } from "@/lib/records/server/validation"
+export type { StoredRecordInput, ValidationIssue } from "@/lib/records/server/validation"
+export {
+  preconditionsMet,
+  readRecordInput,
+  recordErrorResponse,
+  recordETag,
+  recordNotFound,
+  recordResponse,
+} from "@/lib/records/server/route-helpers"
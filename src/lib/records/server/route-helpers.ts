@@ -0,0 +1,56 @@
+import { NextResponse, type NextRequest } from "next/server"
+import type { StoredRecord } from "@/lib/records/server/store"
+import { validateRecordInput, type ValidationIssue } from "@/lib/records/server/validation"
+
+/**
+ * @file route-helpers.ts
+ * @description Responses and request parsing shared by the local /api/weather route handlers.
+ * Errors are returned as `{ message, errors? }`, the shape of the records backend.
+ */
+
+export const recordErrorResponse = (status: number, message: string, errors?: ValidationIssue[]) =>
+  NextResponse.json(errors ? { message, errors } : { message }, { status })
+
+export const recordNotFound = () => recordErrorResponse(404, "Weather record not found")
+
+/** Strong ETag derived from updatedAt, which changes on every write */
+export const recordETag = (record: StoredRecord) => `"${new Date(record.updatedAt).getTime().toString(36)}"`
+
+export const recordResponse = (record: StoredRecord, status = 200) =>
+  NextResponse.json(record, { status, headers: { ETag: recordETag(record) } })
+
+/** Parses and validates a POST/PUT body; the error response is ready to return */
+export async function readRecordInput(request: NextRequest) {
+  let body: unknown
+  try {
+    body = await request.json()
+  } catch {
+    return { input: null, error: recordErrorResponse(400, "Request body must be JSON") }
+  }
+  const { input, issues } = validateRecordInput(body)
+  return input
+    ? { input, error: null }
+    : { input: null, error: recordErrorResponse(400, "Invalid weather record", issues) }
+}
+
+/**
+ * Evaluates If-Match and If-Unmodified-Since (RFC 9110 §13) against the stored record.
+ * If-Unmodified-Since has one-second resolution, so it only fails for changes in a later second.
+ */
+export function preconditionsMet(request: NextRequest, record: StoredRecord): boolean {
+  const ifMatch = request.headers.get("if-match")
+  if (ifMatch) {
+    const etag = recordETag(record)
+    return ifMatch.split(",").some((candidate) => {
+      const value = candidate.trim()
+      return value === "*" || value.replace(/^W\//, "") === etag
+    })
+  }
+
+  const ifUnmodifiedSince = request.headers.get("if-unmodified-since")
+  if (ifUnmodifiedSince) {
+    const since = Date.parse(ifUnmodifiedSince)
+    if (!Number.isNaN(since)) return Math.floor(new Date(record.updatedAt).getTime() / 1000) * 1000 <= since
+  }
+  return true
+}
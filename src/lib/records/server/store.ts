@@ -0,0 +1,99 @@
+import "server-only"
+import { randomBytes } from "node:crypto"
+import { mkdir, readFile, rename, writeFile } from "node:fs/promises"
+import path from "node:path"
+import type { StoredRecordInput } from "@/lib/records/server/validation"
+
+/**
+ * @file store.ts
+ * @description JSON file storage behind the local records backend (/api/weather route handlers).
+ * - The file is RECORDS_DB_FILE, or .data/weather-records.json in the project directory
+ * - Records get a 24 character hex _id like the MongoDB backend, plus createdAt/updatedAt ISO timestamps
+ * - Writes are serialized and replace the file atomically, so concurrent requests can't interleave
+ */
+
+export interface StoredRecord extends StoredRecordInput {
+  _id: string
+  createdAt: string
+  updatedAt: string
+}
+
+const DB_FILE = process.env.RECORDS_DB_FILE ?? path.join(process.cwd(), ".data", "weather-records.json")
+
+async function readAll(): Promise<StoredRecord[]> {
+  try {
+    return JSON.parse(await readFile(DB_FILE, "utf8")) as StoredRecord[]
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === "ENOENT") return []
+    throw error
+  }
+}
+
+async function writeAll(records: StoredRecord[]) {
+  await mkdir(path.dirname(DB_FILE), { recursive: true })
+  const temporary = `${DB_FILE}.${process.pid}.tmp`
+  await writeFile(temporary, JSON.stringify(records, null, 2))
+  await rename(temporary, DB_FILE)
+}
+
+let queue: Promise<unknown> = Promise.resolve()
+
+/** Runs read-modify-write steps one at a time */
+function exclusive<T>(task: (records: StoredRecord[]) => Promise<{ records?: StoredRecord[]; result: T }>): Promise<T> {
+  const run = queue.then(async () => {
+    const { records, result } = await task(await readAll())
+    if (records) await writeAll(records)
+    return result
+  })
+  queue = run.catch(() => undefined)
+  return run
+}
+
+/** Unique timestamp: a record changed twice within a millisecond still gets a new updatedAt (and ETag) */
+const nextTimestamp = (previous?: string) => {
+  const now = Date.now()
+  const after = previous ? new Date(previous).getTime() + 1 : 0
+  return new Date(Math.max(now, after)).toISOString()
+}
+
+export const listRecords = (): Promise<StoredRecord[]> => exclusive(async (records) => ({ result: records }))
+
+export const getRecord = (id: string): Promise<StoredRecord | undefined> =>
+  exclusive(async (records) => ({ result: records.find((record) => record._id === id) }))
+
+export const insertRecord = (input: StoredRecordInput): Promise<StoredRecord> =>
+  exclusive(async (records) => {
+    const now = nextTimestamp()
+    const record: StoredRecord = { ...input, _id: randomBytes(12).toString("hex"), createdAt: now, updatedAt: now }
+    return { records: [...records, record], result: record }
+  })
+
+/**
+ * @param precondition - Checked against the stored record inside the write lock; returning false leaves it unchanged
+ * @returns The stored record after the call and whether it was replaced, or undefined when the id is unknown
+ */
+export const replaceRecord = (
+  id: string,
+  input: StoredRecordInput,
+  precondition: (current: StoredRecord) => boolean = () => true,
+): Promise<{ record: StoredRecord; updated: boolean } | undefined> =>
+  exclusive<{ record: StoredRecord; updated: boolean } | undefined>(async (records) => {
+    const current = records.find((record) => record._id === id)
+    if (!current) return { result: undefined }
+    if (!precondition(current)) return { result: { record: current, updated: false } }
+
+    const record: StoredRecord = { ...input, _id: id, createdAt: current.createdAt, updatedAt: nextTimestamp(current.updatedAt) }
+    return {
+      records: records.map((existing) => (existing._id === id ? record : existing)),
+      result: { record, updated: true },
+    }
+  })
+
+/** @returns false when the id is unknown */
+export const removeRecord = (id: string): Promise<boolean> =>
+  exclusive(async (records) => {
+    const remaining = records.filter((record) => record._id !== id)
+    return remaining.length === records.length
+      ? { result: false }
+      : { records: remaining, result: true }
+  })
@@ -0,0 +1,133 @@
+import { differenceInCalendarDays } from "date-fns"
+import { MAX_HOURLY_RECORD_DAYS } from "@/lib/records/types"
+import { isDailyVariableKey } from "@/lib/weather/variables"
+
+/**
+ * @file validation.ts
+ * @description Validates record payloads sent to POST and PUT /api/weather by the local records backend.
+ * Dates may be any string Date can parse (the client sends ISO timestamps); numbers must be finite.
+ */
+
+export interface ValidationIssue {
+  /** Dotted path into the body, e.g. "temperatures[3].date" */
+  path: string
+  message: string
+}
+
+/** The stored fields of a record, as JSON; the server adds _id, createdAt and updatedAt */
+export interface StoredRecordInput {
+  location: { name: string; coordinates: { lat: number; lon: number } }
+  dateRange: { startDate: string; endDate: string }
+  temperatures: Record<string, unknown>[]
+  variables: string[]
+  resolution: "daily" | "hourly"
+  hourly?: Record<string, unknown>[]
+  /** Left out for clients that don't send one; those records are read as the first version */
+  schemaVersion?: number
+}
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === "object" && value !== null && !Array.isArray(value)
+
+const toDate = (value: unknown) => {
+  if (typeof value !== "string" && !(value instanceof Date)) return undefined
+  const date = new Date(value)
+  return Number.isNaN(date.getTime()) ? undefined : date
+}
+
+const isFiniteNumber = (value: unknown): value is number => typeof value === "number" && Number.isFinite(value)
+
+const OPTIONAL_DAY_NUMBERS = ["tempMax", "tempMin", "precipitation", "humidity", "windSpeed"]
+const OPTIONAL_HOUR_NUMBERS = ["temperature", "humidity", "precipitation", "windSpeed", "windDirection", "cloudCover", "pressure"]
+
+export function validateRecordInput(body: unknown): { input: StoredRecordInput | null; issues: ValidationIssue[] } {
+  const issues: ValidationIssue[] = []
+  if (!isObject(body)) return { input: null, issues: [{ path: "$", message: "must be a record object" }] }
+
+  const location = isObject(body.location) ? body.location : {}
+  const coordinates = isObject(location.coordinates) ? location.coordinates : {}
+  const name = typeof location.name === "string" ? location.name.trim() : ""
+  if (!name) issues.push({ path: "location.name", message: "is required" })
+  for (const [axis, limit] of [["lat", 90], ["lon", 180]] as const) {
+    const value = coordinates[axis]
+    if (!isFiniteNumber(value)) issues.push({ path: `location.coordinates.${axis}`, message: "must be a number" })
+    else if (Math.abs(value) > limit) {
+      issues.push({ path: `location.coordinates.${axis}`, message: `must be between -${limit} and ${limit}` })
+    }
+  }
+
+  const range = isObject(body.dateRange) ? body.dateRange : {}
+  const startDate = toDate(range.startDate)
+  const endDate = toDate(range.endDate)
+  if (!startDate) issues.push({ path: "dateRange.startDate", message: "must be a date" })
+  if (!endDate) issues.push({ path: "dateRange.endDate", message: "must be a date" })
+  if (startDate && endDate && startDate > endDate) {
+    issues.push({ path: "dateRange", message: "startDate must not be after endDate" })
+  }
+
+  if (!Array.isArray(body.temperatures) || body.temperatures.length === 0) {
+    issues.push({ path: "temperatures", message: "must be a non-empty array" })
+  }
+  const temperatures: unknown[] = Array.isArray(body.temperatures) ? body.temperatures : []
+  temperatures.forEach((day, index) => {
+    const path = `temperatures[${index}]`
+    if (!isObject(day)) {
+      issues.push({ path, message: "must be an object" })
+      return
+    }
+    if (!toDate(day.date)) issues.push({ path: `${path}.date`, message: "must be a date" })
+    if (!isFiniteNumber(day.temperature)) issues.push({ path: `${path}.temperature`, message: "must be a number" })
+    for (const field of OPTIONAL_DAY_NUMBERS) {
+      if (day[field] != null && !isFiniteNumber(day[field])) issues.push({ path: `${path}.${field}`, message: "must be a number" })
+    }
+  })
+
+  const variables: unknown[] = body.variables === undefined ? [] : Array.isArray(body.variables) ? body.variables : [body.variables]
+  variables.forEach((key, index) => {
+    if (typeof key !== "string" || !isDailyVariableKey(key)) {
+      issues.push({ path: `variables[${index}]`, message: `Unknown variable ${JSON.stringify(key)}` })
+    }
+  })
+
+  const resolution = body.resolution ?? "daily"
+  if (resolution !== "daily" && resolution !== "hourly") {
+    issues.push({ path: "resolution", message: 'must be "daily" or "hourly"' })
+  }
+  const hourly: unknown[] = Array.isArray(body.hourly) ? body.hourly : []
+  if (resolution === "hourly" && !Array.isArray(body.hourly)) {
+    issues.push({ path: "hourly", message: "must be an array for hourly records" })
+  }
+  if (resolution === "hourly" && startDate && endDate && differenceInCalendarDays(endDate, startDate) + 1 > MAX_HOURLY_RECORD_DAYS) {
+    issues.push({ path: "dateRange", message: `must cover at most ${MAX_HOURLY_RECORD_DAYS} days for hourly records` })
+  }
+  hourly.forEach((hour, index) => {
+    const path = `hourly[${index}]`
+    if (!isObject(hour) || typeof hour.time !== "string" || !/^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}$/.test(hour.time)) {
+      issues.push({ path: `${path}.time`, message: "must be a yyyy-MM-ddTHH:mm time" })
+      return
+    }
+    for (const field of OPTIONAL_HOUR_NUMBERS) {
+      if (hour[field] != null && !isFiniteNumber(hour[field])) issues.push({ path: `${path}.${field}`, message: "must be a number" })
+    }
+  })
+
+  const schemaVersion = body.schemaVersion ?? undefined
+  if (schemaVersion !== undefined && !(Number.isInteger(schemaVersion) && (schemaVersion as number) > 0)) {
+    issues.push({ path: "schemaVersion", message: "must be a positive integer" })
+  }
+
+  if (issues.length > 0 || !startDate || !endDate) return { input: null, issues }
+
+  return {
+    input: {
+      location: { name, coordinates: { lat: coordinates.lat as number, lon: coordinates.lon as number } },
+      dateRange: { startDate: startDate.toISOString(), endDate: endDate.toISOString() },
+      temperatures: temperatures as Record<string, unknown>[],
+      variables: variables as string[],
+      resolution: resolution === "hourly" ? "hourly" : "daily",
+      hourly: resolution === "hourly" ? (hourly as Record<string, unknown>[]) : undefined,
+      schemaVersion: schemaVersion as number | undefined,
+    },
+    issues,
+  }
+}
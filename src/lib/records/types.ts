@@ -0,0 +1,79 @@
+import type { DailyVariableKey, DailyVariableValues } from "@/lib/weather/variables"
+
+/**
+ * @file types.ts
+ * @description Shape of the weather records stored by the records backend (/api/weather).
+ */
+
+/**
+ * Version of the record fields, stored with every record.
+ * Records without one were saved with wind speeds in km/h (Open-Meteo's default); since version 2 they are in m/s.
+ */
+export const RECORD_SCHEMA_VERSION = 2
+
+export interface DailyWeather {
+  date: Date
+  /** Daily mean temperature in °C */
+  temperature: number
+  /** Human readable summary, kept for older clients ("High: X°C, Low: Y°C") */
+  description: string
+  tempMax?: number
+  tempMin?: number
+  /** Precipitation sum in mm */
+  precipitation?: number
+  humidity?: number
+  /** Mean wind speed in m/s */
+  windSpeed?: number
+  /** Values of the record's selected optional variables, in the units of the DAILY_VARIABLES registry */
+  values?: DailyVariableValues
+}
+
+export interface HourlyWeather {
+  /** yyyy-MM-ddTHH:mm in the location's local time */
+  time: string
+  /** Temperature in °C */
+  temperature?: number
+  humidity?: number
+  /** Precipitation in mm */
+  precipitation?: number
+  windSpeed?: number
+  /** Wind direction in degrees */
+  windDirection?: number
+  /** Cloud cover in % */
+  cloudCover?: number
+  /** Sea level pressure in hPa */
+  pressure?: number
+  description?: string
+}
+
+export type RecordResolution = "daily" | "hourly"
+
+/** Longest date range of an hourly record, in days; longer ranges have too many rows to store and chart */
+export const MAX_HOURLY_RECORD_DAYS = 366
+
+export interface WeatherRecord {
+  _id?: string
+  location: {
+    name: string
+    coordinates: {
+      lat: number
+      lon: number
+    }
+  }
+  dateRange: {
+    startDate: Date
+    endDate: Date
+  }
+  temperatures: DailyWeather[]
+  /** Optional daily variables chosen when the record was created */
+  variables?: DailyVariableKey[]
+  /** Records without a resolution are daily-only */
+  resolution?: RecordResolution
+  /** Hourly rows for "hourly" records, stored alongside the daily rows */
+  hourly?: HourlyWeather[]
+  createdAt: Date
+  /** Last change on the backend; used to detect concurrent edits */
+  updatedAt?: Date
+  /** RECORD_SCHEMA_VERSION when the record was saved; normalizeRecord upgrades older records to the current one */
+  schemaVersion: number
+}
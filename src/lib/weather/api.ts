@@ -0,0 +1,167 @@
+import axios from "axios"
+import { format as dateFormat } from "date-fns"
+import { z } from "zod"
+import { WeatherClientError, toWeatherClientError, type WeatherErrorKind, type WeatherSource } from "@/lib/weather/errors"
+import { cached } from "@/lib/weather/cache"
+import type { QueryParams, RequestOptions } from "@/lib/weather/http"
+import type { HistoricalRequest } from "@/lib/weather/models"
+import {
+  airQualitySchema,
+  climateNormalsSchema,
+  currentConditionsSchema,
+  forecastSchema,
+  historicalDaySchema,
+  historicalHourSchema,
+  locationSuggestionSchema,
+  locationVideoSchema,
+  parseResponse,
+  providerResultSchema,
+  type Schema,
+} from "@/lib/weather/schemas"
+import type { Coordinates } from "@/lib/weather/types"
+
+/**
+ * @file api.ts
+ * @description Browser client for the app's own /api route handlers, which hold the provider keys server-side.
+ * Error bodies from the routes are turned back into WeatherClientError so callers can switch on `kind`,
+ * and successful bodies are validated against the route's schema before they reach the cache.
+ * Responses go through the cache in cache.ts, so repeated lookups for the same place and dates stay local.
+ */
+
+interface ApiErrorBody {
+  error?: { kind: WeatherErrorKind; source: WeatherSource; message: string }
+}
+
+async function getFromApi<T>(path: string, params: QueryParams, schema: Schema<T>, signal?: AbortSignal): Promise<T> {
+  let data: unknown
+  try {
+    const response = await axios.get<unknown>(path, { params, signal })
+    data = response.data
+  } catch (error) {
+    if (axios.isAxiosError<ApiErrorBody>(error) && error.response?.data?.error?.kind) {
+      const { kind, source, message } = error.response.data.error
+      throw new WeatherClientError(kind, source ?? "api", message, error.response.status)
+    }
+    throw toWeatherClientError(error, "api")
+  }
+  return parseResponse(schema, data, "api")
+}
+
+export function fetchCurrent({ lat, lon }: Coordinates, options?: RequestOptions) {
+  const params = { lat, lon }
+  return cached(
+    "current",
+    params,
+    (signal) => getFromApi("/api/current", params, providerResultSchema(currentConditionsSchema), signal),
+    options?.signal,
+  )
+}
+
+export function fetchForecast({ lat, lon }: Coordinates, options?: RequestOptions) {
+  const params = { lat, lon }
+  return cached(
+    "forecast",
+    params,
+    (signal) => getFromApi("/api/forecast", params, providerResultSchema(forecastSchema), signal),
+    options?.signal,
+  )
+}
+
+export function fetchAirQuality({ lat, lon }: Coordinates, options?: RequestOptions) {
+  const params = { lat, lon }
+  return cached(
+    "air",
+    params,
+    (signal) => getFromApi("/api/air", params, providerResultSchema(airQualitySchema), signal),
+    options?.signal,
+  )
+}
+
+export function fetchHistorical(
+  { lat, lon, startDate, endDate, variables = [] }: HistoricalRequest,
+  options?: RequestOptions,
+) {
+  const params = {
+    lat,
+    lon,
+    start: dateFormat(startDate, "yyyy-MM-dd"),
+    end: dateFormat(endDate, "yyyy-MM-dd"),
+    variables: [...variables].sort().join(","),
+  }
+  return cached(
+    "historical",
+    params,
+    (signal) => getFromApi("/api/historical", params, providerResultSchema(z.array(historicalDaySchema)), signal),
+    options?.signal,
+  )
+}
+
+export function fetchHistoricalHourly(
+  { lat, lon, startDate, endDate }: HistoricalRequest,
+  options?: RequestOptions,
+) {
+  const params = {
+    lat,
+    lon,
+    start: dateFormat(startDate, "yyyy-MM-dd"),
+    end: dateFormat(endDate, "yyyy-MM-dd"),
+  }
+  return cached(
+    "hourly",
+    params,
+    (signal) => getFromApi("/api/historical/hourly", params, providerResultSchema(z.array(historicalHourSchema)), signal),
+    options?.signal,
+  )
+}
+
+/** 1991-2020 normals for every calendar day at a location (see /api/normals) */
+export function fetchClimateNormals({ lat, lon }: Coordinates, options?: RequestOptions) {
+  const params = { lat, lon }
+  return cached(
+    "normals",
+    params,
+    (signal) => getFromApi("/api/normals", params, providerResultSchema(climateNormalsSchema), signal),
+    options?.signal,
+  )
+}
+
+export function searchLocations(query: string, options?: RequestOptions) {
+  const params = { q: query }
+  return cached(
+    "geocode",
+    params,
+    (signal) => getFromApi("/api/geocode", params, z.array(locationSuggestionSchema), signal),
+    options?.signal,
+  )
+}
+
+/** Places with `postalCode` in the country given by its ISO 3166-1 alpha-2 `countryCode` */
+export function searchPostalCode(postalCode: string, countryCode: string, options?: RequestOptions) {
+  const params = { postalcode: postalCode, country: countryCode }
+  return cached(
+    "geocode",
+    params,
+    (signal) => getFromApi("/api/geocode", params, z.array(locationSuggestionSchema), signal),
+    options?.signal,
+  )
+}
+
+export function reverseGeocode({ lat, lon }: Coordinates, options?: RequestOptions) {
+  const params = { lat, lon }
+  return cached(
+    "reverse",
+    params,
+    (signal) => getFromApi("/api/geocode/reverse", params, locationSuggestionSchema, signal),
+    options?.signal,
+  )
+}
+
+export function fetchLocationVideos(locationName: string, options?: RequestOptions) {
+  const params = { q: locationName }
+  return cached(
+    "videos",
+    params,
+    (signal) => getFromApi("/api/videos", params, z.array(locationVideoSchema), signal),
+    options?.signal,
+  )
+}
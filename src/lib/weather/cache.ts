@@ -0,0 +1,169 @@
+import { differenceInCalendarDays, parseISO } from "date-fns"
+import { WeatherClientError } from "@/lib/weather/errors"
+import { idbClear, idbGet, idbPut } from "@/lib/idb"
+
+/**
+ * @file cache.ts
+ * @description Response cache for the browser API client.
+ * - Keys combine the endpoint, coordinates rounded to ~1 km and the remaining params
+ * - Each endpoint has its own time-to-live; completed archive ranges never expire
+ * - Concurrent calls for the same key share a single network request, which is cancelled once every caller has aborted
+ * - Long-lived entries are persisted to IndexedDB so they survive reloads
+ */
+
+export type CachedEndpoint =
+  | "current"
+  | "forecast"
+  | "air"
+  | "historical"
+  | "hourly"
+  | "normals"
+  | "geocode"
+  | "reverse"
+  | "videos"
+
+export type CacheParams = Record<string, string | number>
+
+interface CachePolicy {
+  ttlMs: number
+  persist: boolean
+}
+
+interface CacheEntry<T> {
+  value: T
+  expiresAt: number
+}
+
+const MINUTE = 60 * 1000
+const HOUR = 60 * MINUTE
+const DAY = 24 * HOUR
+
+/** Coordinates are rounded to 2 decimals (~1.1 km), well within a forecast grid cell */
+const COORDINATE_PRECISION = 2
+
+/** Archive data older than this many days is final and can be cached forever */
+const ARCHIVE_FINAL_AFTER_DAYS = 5
+
+const POLICIES: Record<Exclude<CachedEndpoint, "historical" | "hourly">, CachePolicy> = {
+  current: { ttlMs: 10 * MINUTE, persist: false },
+  forecast: { ttlMs: 30 * MINUTE, persist: false },
+  air: { ttlMs: 30 * MINUTE, persist: false },
+  // Normals are computed from a fixed past period and never change
+  normals: { ttlMs: Infinity, persist: true },
+  geocode: { ttlMs: 7 * DAY, persist: true },
+  reverse: { ttlMs: 7 * DAY, persist: true },
+  videos: { ttlMs: 6 * HOUR, persist: false },
+}
+
+const policyFor = (endpoint: CachedEndpoint, params: CacheParams): CachePolicy => {
+  if (endpoint !== "historical" && endpoint !== "hourly") return POLICIES[endpoint]
+
+  // Ranges touching the last few days may still be revised, so only finished ranges are immutable
+  const endDate = typeof params.end === "string" ? parseISO(params.end) : new Date()
+  const isFinal = differenceInCalendarDays(new Date(), endDate) > ARCHIVE_FINAL_AFTER_DAYS
+  return isFinal ? { ttlMs: Infinity, persist: true } : { ttlMs: HOUR, persist: false }
+}
+
+export function cacheKey(endpoint: CachedEndpoint, params: CacheParams): string {
+  const parts = Object.keys(params)
+    .sort()
+    .map((name) => {
+      const value = params[name]
+      if ((name === "lat" || name === "lon") && typeof value === "number") {
+        return `${name}=${value.toFixed(COORDINATE_PRECISION)}`
+      }
+      return `${name}=${typeof value === "string" ? value.trim().toLowerCase() : value}`
+    })
+  return `${endpoint}?${parts.join("&")}`
+}
+
+interface InFlightRequest<T> {
+  promise: Promise<T>
+  controller: AbortController
+  /** Callers still waiting; callers without a signal are never released */
+  waiters: number
+}
+
+const memory = new Map<string, CacheEntry<unknown>>()
+const inFlight = new Map<string, InFlightRequest<unknown>>()
+
+/** Lets a caller stop waiting on a shared request; the request itself is cancelled when nobody waits anymore */
+const raceSignal = <T>(request: InFlightRequest<T>, signal?: AbortSignal): Promise<T> => {
+  request.waiters += 1
+  if (!signal) return request.promise
+
+  const release = () => {
+    request.waiters -= 1
+    if (request.waiters === 0) request.controller.abort()
+  }
+  if (signal.aborted) {
+    release()
+    return Promise.reject(new WeatherClientError("aborted", "api", "Request was cancelled"))
+  }
+
+  return new Promise<T>((resolve, reject) => {
+    const onAbort = () => {
+      release()
+      reject(new WeatherClientError("aborted", "api", "Request was cancelled"))
+    }
+    signal.addEventListener("abort", onAbort, { once: true })
+    request.promise.then(resolve, reject).finally(() => signal.removeEventListener("abort", onAbort))
+  })
+}
+
+async function readEntry<T>(key: string, policy: CachePolicy): Promise<T | undefined> {
+  const now = Date.now()
+  const hit = memory.get(key) as CacheEntry<T> | undefined
+  if (hit && hit.expiresAt > now) return hit.value
+
+  if (!policy.persist) return undefined
+  const stored = await idbGet<CacheEntry<T>>("responses", key)
+  if (stored && stored.expiresAt > now) {
+    memory.set(key, stored)
+    return stored.value
+  }
+  return undefined
+}
+
+/**
+ * Returns the cached value for (endpoint, params) or runs `fetcher` once and caches its result.
+ * Failures are never cached.
+ */
+export async function cached<T>(
+  endpoint: CachedEndpoint,
+  params: CacheParams,
+  fetcher: (signal: AbortSignal) => Promise<T>,
+  signal?: AbortSignal,
+): Promise<T> {
+  const key = cacheKey(endpoint, params)
+  const policy = policyFor(endpoint, params)
+
+  const existing = await readEntry<T>(key, policy)
+  if (existing !== undefined) return existing
+
+  let request = inFlight.get(key) as InFlightRequest<T> | undefined
+  if (!request || request.controller.signal.aborted) {
+    const controller = new AbortController()
+    const promise = fetcher(controller.signal)
+      .then((value) => {
+        const entry: CacheEntry<T> = { value, expiresAt: Date.now() + policy.ttlMs }
+        memory.set(key, entry)
+        if (policy.persist) void idbPut("responses", key, entry)
+        return value
+      })
+      .finally(() => {
+        if (inFlight.get(key) === request) inFlight.delete(key)
+      })
+    // Nobody may be listening anymore once the request is cancelled
+    promise.catch(() => undefined)
+    request = { promise, controller, waiters: 0 }
+    inFlight.set(key, request)
+  }
+
+  return raceSignal(request, signal)
+}
+
+export async function clearWeatherCache(): Promise<void> {
+  memory.clear()
+  await idbClear("responses")
+}
@@ -0,0 +1,103 @@
+import axios from "axios"
+
+/**
+ * @file errors.ts
+ * @description Normalizes failures from the weather APIs into a single error type.
+ * Components can switch on `kind` instead of inspecting axios errors or HTTP status codes.
+ */
+
+export type WeatherErrorKind =
+  | "missing_api_key"
+  | "unauthorized"
+  | "rate_limited"
+  | "not_found"
+  | "bad_request"
+  | "server"
+  | "network"
+  | "aborted"
+  | "unsupported"
+  | "invalid_response"
+  | "unknown"
+
+/** Upstream service that failed, or "api" for the app's own route handlers */
+export type WeatherSource = "openweathermap" | "open-meteo" | "youtube" | "nominatim" | "api"
+
+export class WeatherClientError extends Error {
+  readonly kind: WeatherErrorKind
+  readonly source: WeatherSource
+  readonly status?: number
+
+  constructor(kind: WeatherErrorKind, source: WeatherSource, message: string, status?: number) {
+    super(message)
+    this.name = "WeatherClientError"
+    this.kind = kind
+    this.source = source
+    this.status = status
+  }
+}
+
+export function isWeatherClientError(error: unknown): error is WeatherClientError {
+  return error instanceof WeatherClientError
+}
+
+const kindFromStatus = (status: number): WeatherErrorKind => {
+  if (status === 401 || status === 403) return "unauthorized"
+  if (status === 404) return "not_found"
+  if (status === 429) return "rate_limited"
+  if (status >= 500) return "server"
+  if (status >= 400) return "bad_request"
+  return "unknown"
+}
+
+/**
+ * Converts anything thrown while calling an upstream API into a WeatherClientError.
+ * Errors that are already normalized are returned untouched.
+ */
+export function toWeatherClientError(error: unknown, source: WeatherSource): WeatherClientError {
+  if (error instanceof WeatherClientError) return error
+
+  if (axios.isCancel(error)) {
+    return new WeatherClientError("aborted", source, "Request was cancelled")
+  }
+
+  if (axios.isAxiosError(error)) {
+    const status = error.response?.status
+    if (status) {
+      const upstreamMessage = (error.response?.data as { message?: string; reason?: string } | undefined)
+      const message = upstreamMessage?.message ?? upstreamMessage?.reason ?? error.message
+      return new WeatherClientError(kindFromStatus(status), source, message, status)
+    }
+    return new WeatherClientError("network", source, error.message)
+  }
+
+  const message = error instanceof Error ? error.message : String(error)
+  return new WeatherClientError("unknown", source, message)
+}
+
+/** Short user-facing explanation for each failure kind */
+export function describeWeatherError(error: WeatherClientError): string {
+  switch (error.kind) {
+    case "missing_api_key":
+      return "The weather service is not configured."
+    case "unauthorized":
+      return "The weather service rejected the request."
+    case "rate_limited":
+      return "Too many requests. Please wait a moment and try again."
+    case "not_found":
+      return "No weather data was found for this location."
+    case "bad_request":
+      return "The weather request was invalid."
+    case "server":
+      return "The weather service is currently unavailable."
+    case "network":
+      return "Could not reach the weather service. Check your connection."
+    case "aborted":
+      return "The request was cancelled."
+    case "unsupported":
+      return "This data is not available from the weather service."
+    case "invalid_response":
+      return "The weather service returned unexpected data."
+    default:
+      return "Something went wrong while fetching weather data."
+  }
+}
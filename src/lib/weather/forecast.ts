@@ -0,0 +1,68 @@
+import type { Forecast, ForecastEntry, WeatherCondition } from "@/lib/weather/models"
+
+/**
+ * @file forecast.ts
+ * @description Groups a provider's forecast series (3-hourly or hourly) into local calendar days.
+ */
+
+export interface DailyForecast {
+  /** yyyy-MM-dd in the location's local time */
+  date: string
+  tempMin: number
+  tempMax: number
+  /** Most frequent condition of the day, preferring daytime entries */
+  condition: WeatherCondition
+  /** Total precipitation over the day's entries in mm */
+  precipitationTotal: number
+  /** Highest probability of precipitation over the day, 0 to 1 */
+  precipitationProbability: number
+  entries: ForecastEntry[]
+}
+
+/** Shifts a unix timestamp into the location's local time, expressed as a UTC Date */
+const toLocalDate = (time: number, utcOffsetSeconds: number) => new Date((time + utcOffsetSeconds) * 1000)
+
+export const localDateKey = (time: number, utcOffsetSeconds: number) =>
+  toLocalDate(time, utcOffsetSeconds).toISOString().slice(0, 10)
+
+/** HH:mm in the location's local time */
+export const localTimeLabel = (time: number, utcOffsetSeconds: number) =>
+  toLocalDate(time, utcOffsetSeconds).toISOString().slice(11, 16)
+
+const dominantCondition = (entries: ForecastEntry[]): WeatherCondition => {
+  const daytime = entries.filter((entry) => entry.condition.icon.endsWith("d"))
+  const candidates = daytime.length > 0 ? daytime : entries
+
+  const counts = new Map<string, { condition: WeatherCondition; count: number }>()
+  for (const { condition } of candidates) {
+    const current = counts.get(condition.description)
+    if (current) current.count += 1
+    else counts.set(condition.description, { condition, count: 1 })
+  }
+
+  let best = { condition: candidates[0].condition, count: 0 }
+  for (const entry of counts.values()) {
+    if (entry.count > best.count) best = entry
+  }
+  return best.condition
+}
+
+export function aggregateDaily(forecast: Forecast): DailyForecast[] {
+  const byDay = new Map<string, ForecastEntry[]>()
+  for (const entry of forecast.entries) {
+    const key = localDateKey(entry.time, forecast.utcOffsetSeconds)
+    const day = byDay.get(key)
+    if (day) day.push(entry)
+    else byDay.set(key, [entry])
+  }
+
+  return Array.from(byDay, ([date, entries]) => ({
+    date,
+    tempMin: Math.min(...entries.map((entry) => entry.tempMin)),
+    tempMax: Math.max(...entries.map((entry) => entry.tempMax)),
+    condition: dominantCondition(entries),
+    precipitationTotal: entries.reduce((total, entry) => total + entry.precipitation, 0),
+    precipitationProbability: Math.max(...entries.map((entry) => entry.precipitationProbability)),
+    entries,
+  }))
+}
@@ -0,0 +1,72 @@
+import { addYears, endOfYear, isAfter, max as latest, min as earliest, startOfYear } from "date-fns"
+import { fetchHistorical, fetchHistoricalHourly } from "@/lib/weather/api"
+import { WeatherClientError } from "@/lib/weather/errors"
+import type { RequestOptions } from "@/lib/weather/http"
+import type { HistoricalDay, HistoricalHour, HistoricalRequest, ProviderResult } from "@/lib/weather/models"
+
+/**
+ * @file historical.ts
+ * @description Fetches historical ranges of any length by splitting them into calendar-year chunks.
+ * Chunks line up with calendar years so full years are shared in the cache between overlapping ranges,
+ * and each chunk stays within MAX_HISTORICAL_RANGE_DAYS.
+ */
+
+export interface HistoricalProgress {
+  completedChunks: number
+  totalChunks: number
+  /** Rows (days or hours) loaded so far */
+  rows: number
+}
+
+export interface HistoricalRangeOptions extends RequestOptions {
+  onProgress?: (progress: HistoricalProgress) => void
+}
+
+export function splitIntoYearChunks(startDate: Date, endDate: Date): { startDate: Date; endDate: Date }[] {
+  const chunks: { startDate: Date; endDate: Date }[] = []
+  for (let year = startOfYear(startDate); !isAfter(year, endDate); year = addYears(year, 1)) {
+    chunks.push({ startDate: latest([year, startDate]), endDate: earliest([endOfYear(year), endDate]) })
+  }
+  return chunks
+}
+
+/**
+ * Loads the range chunk by chunk, in order, reporting progress after each one.
+ * Aborting the signal stops before the next chunk and rejects with an "aborted" error.
+ */
+async function fetchInChunks<T>(
+  request: HistoricalRequest,
+  fetchChunk: (chunk: HistoricalRequest, options: RequestOptions) => Promise<ProviderResult<T[]>>,
+  { onProgress, signal }: HistoricalRangeOptions,
+): Promise<ProviderResult<T[]>> {
+  const chunks = splitIntoYearChunks(request.startDate, request.endDate)
+  const rows: T[] = []
+  let provider: ProviderResult<T[]>["provider"] = "open-meteo"
+
+  onProgress?.({ completedChunks: 0, totalChunks: chunks.length, rows: 0 })
+
+  for (const [index, chunk] of chunks.entries()) {
+    if (signal?.aborted) throw new WeatherClientError("aborted", "api", "Request was cancelled")
+
+    const result = await fetchChunk({ ...request, ...chunk }, { signal })
+    provider = result.provider
+    rows.push(...result.data)
+    onProgress?.({ completedChunks: index + 1, totalChunks: chunks.length, rows: rows.length })
+  }
+
+  return { provider, data: rows }
+}
+
+export function fetchHistoricalRange(
+  request: HistoricalRequest,
+  options: HistoricalRangeOptions = {},
+): Promise<ProviderResult<HistoricalDay[]>> {
+  return fetchInChunks(request, fetchHistorical, options)
+}
+
+export function fetchHistoricalHourlyRange(
+  request: HistoricalRequest,
+  options: HistoricalRangeOptions = {},
+): Promise<ProviderResult<HistoricalHour[]>> {
+  return fetchInChunks(request, fetchHistoricalHourly, options)
+}
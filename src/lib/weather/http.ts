@@ -0,0 +1,37 @@
+import axios from "axios"
+import { toWeatherClientError, type WeatherSource } from "@/lib/weather/errors"
+import { parseResponse, type Schema } from "@/lib/weather/schemas"
+
+export type QueryParams = Record<string, string | number | boolean | string[] | undefined>
+
+export interface RequestOptions {
+  signal?: AbortSignal
+  headers?: Record<string, string>
+}
+
+/**
+ * GETs a JSON payload, validates it against `schema` and rethrows any failure as a WeatherClientError.
+ * Array params are sent comma separated, which is the format both Open-Meteo and OpenWeatherMap expect.
+ */
+export async function getJson<T>(
+  source: WeatherSource,
+  url: string,
+  params: QueryParams,
+  schema: Schema<T>,
+  options: RequestOptions = {},
+): Promise<T> {
+  const serialized: Record<string, string | number | boolean> = {}
+  for (const [key, value] of Object.entries(params)) {
+    if (value === undefined) continue
+    serialized[key] = Array.isArray(value) ? value.join(",") : value
+  }
+
+  let data: unknown
+  try {
+    const response = await axios.get<unknown>(url, { params: serialized, signal: options.signal, headers: options.headers })
+    data = response.data
+  } catch (error) {
+    throw toWeatherClientError(error, source)
+  }
+  return parseResponse(schema, data, source)
+}
@@ -0,0 +1,37 @@
+export * from "@/lib/weather/types"
+export * from "@/lib/weather/models"
+export * from "@/lib/weather/errors"
+export * from "@/lib/weather/variables"
+export {
+  fetchAirQuality,
+  fetchClimateNormals,
+  fetchCurrent,
+  fetchForecast,
+  fetchHistorical,
+  fetchHistoricalHourly,
+  fetchLocationVideos,
+  reverseGeocode,
+  searchLocations,
+  searchPostalCode,
+} from "@/lib/weather/api"
+export {
+  findLocations,
+  formatCoordinates,
+  isLocalQuery,
+  nameLocation,
+  parseLocationQuery,
+  type LocationMatch,
+  type LocationQuery,
+} from "@/lib/weather/location-query"
+export { decodePlusCode, isFullPlusCode, isShortPlusCode, recoverPlusCode } from "@/lib/weather/plus-codes"
+export { clearWeatherCache } from "@/lib/weather/cache"
+export { aggregateDaily, localDateKey, localTimeLabel, type DailyForecast } from "@/lib/weather/forecast"
+export {
+  fetchHistoricalHourlyRange,
+  fetchHistoricalRange,
+  splitIntoYearChunks,
+  type HistoricalProgress,
+  type HistoricalRangeOptions,
+} from "@/lib/weather/historical"
+export * from "@/lib/weather/units"
+export * from "@/lib/weather/map-layers"
@@ -0,0 +1,194 @@
+import { reverseGeocode, searchLocations, searchPostalCode } from "@/lib/weather/api"
+import type { RequestOptions } from "@/lib/weather/http"
+import type { LocationSuggestion } from "@/lib/weather/models"
+import { decodePlusCode, isFullPlusCode, isShortPlusCode, recoverPlusCode } from "@/lib/weather/plus-codes"
+import type { Coordinates } from "@/lib/weather/types"
+
+/**
+ * @file location-query.ts
+ * @description Understands what was typed into a location search before anything is sent to the geocoder.
+ * - Decimal ("40.7128, -74.0060") and DMS ("40°42'46"N 74°0'21"W") coordinates and full plus codes resolve locally
+ * - Short plus codes need the place after them ("Q2PQ+VX New York"), which is geocoded as the reference point
+ * - Postal codes with a country ("10001 US", "SW1A 1AA, GB", "DE-10115") use Nominatim's structured postal search
+ * - Anything else is a free-text search
+ */
+
+export type LocationQuery =
+  | { kind: "coordinates"; lat: number; lon: number }
+  | { kind: "plusCode"; code: string; lat: number; lon: number }
+  | { kind: "shortPlusCode"; code: string; locality: string }
+  | { kind: "postalCode"; postalCode: string; countryCode: string; text: string }
+  | { kind: "text"; text: string }
+
+/** A suggestion for the search list; `local` ones were resolved from the query and only have coordinates as name */
+export interface LocationMatch extends LocationSuggestion {
+  local?: boolean
+}
+
+export const formatCoordinates = ({ lat, lon }: Coordinates) => `${lat.toFixed(4)}, ${lon.toFixed(4)}`
+
+const inRange = ({ lat, lon }: Coordinates) => Math.abs(lat) <= 90 && Math.abs(lon) <= 180
+
+/* ------------------------------------ Coordinates ------------------------------------ */
+
+/** Two signed decimals separated by a comma, or by whitespace when both have a fractional part */
+const DECIMAL_PAIR = /^([+-]?\d{1,3}(?:\.\d+)?)\s*[,;]\s*([+-]?\d{1,3}(?:\.\d+)?)$|^([+-]?\d{1,3}\.\d+)\s+([+-]?\d{1,3}\.\d+)$/
+
+function parseDecimalPair(text: string): Coordinates | undefined {
+  const match = DECIMAL_PAIR.exec(text)
+  if (!match) return undefined
+  const lat = Number(match[1] ?? match[3])
+  const lon = Number(match[2] ?? match[4])
+  return inRange({ lat, lon }) ? { lat, lon } : undefined
+}
+
+/** One DMS or hemisphere-tagged value: `40°42'46"N`, `N 40 42 46`, `74.006° W`, `-33.9°` */
+function parseAngle(part: string): { value: number; hemisphere?: string } | undefined {
+  const hemisphere = /^[NSEW]|[NSEW]$/.exec(part)?.[0]
+  const body = part.replace(/^[NSEW]\s*|\s*[NSEW]$/g, "").trim()
+  if (!/^-?\d+(?:\.\d+)?(?:\s*°\s*|\s+|$)(?:\d+(?:\.\d+)?(?:\s*'\s*|\s+|$))?(?:\d+(?:\.\d+)?\s*"?)?$/.test(body)) {
+    return undefined
+  }
+
+  const [degrees, minutes = 0, seconds = 0] = (body.match(/\d+(?:\.\d+)?/g) ?? []).map(Number)
+  if (degrees === undefined || minutes >= 60 || seconds >= 60) return undefined
+  const magnitude = degrees + minutes / 60 + seconds / 3600
+  const negative = body.startsWith("-") || hemisphere === "S" || hemisphere === "W"
+  return { value: negative ? -magnitude : magnitude, hemisphere }
+}
+
+function parseDms(text: string): Coordinates | undefined {
+  const normalized = text
+    .toUpperCase()
+    .replace(/[′’‘]/g, "'")
+    .replace(/[″”“]|''/g, '"')
+    .replace(/º/g, "°")
+  // Without a degree sign or a hemisphere it is not DMS (plain decimals are handled separately)
+  if (!/[°NSEW]/.test(normalized)) return undefined
+
+  // Hemispheres lead ("N 40 42 46 W 74 0 21"), trail ("40°42'46"N 74°0'21"W") or are absent ("-33.9°, 151.2°")
+  const split =
+    (/^[NSEW]/.test(normalized) ? /^([NSEW][^NSEW]+?)\s*[,;]?\s*([NSEW].+)$/.exec(normalized) : null) ??
+    /^(.+?[NSEW])\s*[,;]?\s*([^,;]+)$/.exec(normalized) ??
+    /^([^,;]+)[,;]\s*([^,;]+)$/.exec(normalized)
+  if (!split) return undefined
+
+  const first = parseAngle(split[1].trim())
+  const second = parseAngle(split[2].trim())
+  if (!first || !second) return undefined
+
+  // Latitude comes first unless the hemispheres say otherwise ("74°W 40°N")
+  const swapped = (first.hemisphere === "E" || first.hemisphere === "W") && (second.hemisphere === "N" || second.hemisphere === "S")
+  const [lat, lon] = swapped ? [second, first] : [first, second]
+  if (lat.hemisphere === "E" || lat.hemisphere === "W" || lon.hemisphere === "N" || lon.hemisphere === "S") return undefined
+
+  const coordinates = { lat: lat.value, lon: lon.value }
+  return inRange(coordinates) ? coordinates : undefined
+}
+
+/* ------------------------------------ Postal codes ----------------------------------- */
+
+/** Postal codes are 2-10 letters, digits, spaces or dashes with at least one digit */
+const POSTAL_CODE = /^(?=[A-Z0-9 -]*\d)[A-Z0-9][A-Z0-9 -]{1,9}$/
+const COUNTRY_ALIASES: Record<string, string> = { UK: "GB" }
+
+const regionNames = typeof Intl.DisplayNames === "function" ? new Intl.DisplayNames(["en"], { type: "region" }) : null
+
+/** Uppercase ISO 3166-1 alpha-2 code, or undefined when `code` isn't a known country */
+function countryCode(code: string): string | undefined {
+  const upper = COUNTRY_ALIASES[code.toUpperCase()] ?? code.toUpperCase()
+  if (!/^[A-Z]{2}$/.test(upper)) return undefined
+  try {
+    // Unknown regions are echoed back unchanged
+    return regionNames && regionNames.of(upper) !== upper ? upper : undefined
+  } catch {
+    return undefined
+  }
+}
+
+function parsePostalCode(text: string): { postalCode: string; countryCode: string } | undefined {
+  const upper = text.toUpperCase()
+  const countryLast = /^(.+?)\s*[, ]\s*([A-Z]{2})$/.exec(upper)
+  const countryFirst = /^([A-Z]{2})\s*[-, ]\s*(.+)$/.exec(upper)
+  const candidates = [
+    countryLast && { postal: countryLast[1], country: countryLast[2] },
+    countryFirst && { postal: countryFirst[2], country: countryFirst[1] },
+  ]
+
+  for (const candidate of candidates) {
+    if (!candidate) continue
+    const code = countryCode(candidate.country)
+    const postalCode = candidate.postal.trim()
+    if (code && POSTAL_CODE.test(postalCode)) return { postalCode, countryCode: code }
+  }
+  return undefined
+}
+
+/* --------------------------------------- Parsing ------------------------------------- */
+
+export function parseLocationQuery(input: string): LocationQuery {
+  const text = input.trim().replace(/\s+/g, " ")
+
+  const coordinates = parseDecimalPair(text) ?? parseDms(text)
+  if (coordinates) return { kind: "coordinates", ...coordinates }
+
+  const [first, ...rest] = text.split(" ")
+  if (isFullPlusCode(first)) {
+    return { kind: "plusCode", code: first.toUpperCase(), ...decodePlusCode(first) }
+  }
+  if (isShortPlusCode(first) && rest.length > 0) {
+    return { kind: "shortPlusCode", code: first.toUpperCase(), locality: rest.join(" ").replace(/^,\s*/, "") }
+  }
+
+  const postal = parsePostalCode(text)
+  if (postal) return { kind: "postalCode", ...postal, text }
+
+  return { kind: "text", text }
+}
+
+/** Whether the query resolves without a network call */
+export const isLocalQuery = (query: LocationQuery): query is Extract<LocationQuery, { lat: number }> =>
+  query.kind === "coordinates" || query.kind === "plusCode"
+
+const localMatch = (coordinates: Coordinates, label = formatCoordinates(coordinates)): LocationMatch => ({
+  placeId: 0,
+  displayName: label,
+  lat: coordinates.lat,
+  lon: coordinates.lon,
+  local: true,
+})
+
+/** Suggestions for a parsed query; coordinates and full plus codes never hit the network */
+export async function findLocations(query: LocationQuery, options?: RequestOptions): Promise<LocationMatch[]> {
+  switch (query.kind) {
+    case "coordinates":
+      return [localMatch(query)]
+    case "plusCode":
+      return [localMatch(query, `${query.code} (${formatCoordinates(query)})`)]
+    case "shortPlusCode": {
+      const [reference] = await searchLocations(query.locality, options)
+      if (!reference) return []
+      const coordinates = recoverPlusCode(query.code, reference)
+      return [localMatch(coordinates, `${query.code} ${reference.displayName}`)]
+    }
+    case "postalCode": {
+      // Street names with a number ("Route 66 US") look like postal codes too
+      const places = await searchPostalCode(query.postalCode, query.countryCode, options)
+      return places.length > 0 ? places : searchLocations(query.text, options)
+    }
+    case "text":
+      return searchLocations(query.text, options)
+  }
+}
+
+/** Gives a locally resolved match a place name; keeps the coordinates as its name when the lookup fails */
+export async function nameLocation(match: LocationMatch, options?: RequestOptions): Promise<LocationSuggestion> {
+  if (!match.local) return match
+  try {
+    const place = await reverseGeocode(match, options)
+    return { placeId: place.placeId, displayName: place.displayName, lat: match.lat, lon: match.lon }
+  } catch (error) {
+    console.error("Reverse geocoding error", error)
+    return { placeId: match.placeId, displayName: match.displayName, lat: match.lat, lon: match.lon }
+  }
+}
@@ -0,0 +1,117 @@
+/**
+ * @file map-layers.ts
+ * @description Weather layers drawn over the map from OpenWeatherMap's tile service.
+ * Tiles are loaded through /api/tiles so the API key stays on the server; see GoogleMapComponent for the overlay.
+ * Legend colours follow OpenWeatherMap's own palettes for each layer.
+ */
+
+export type WeatherLayerId = "temperature" | "precipitation" | "clouds" | "wind" | "pressure"
+
+export interface WeatherLayerStop {
+  /** Value in the layer's metric unit */
+  value: number
+  color: string
+}
+
+export interface WeatherLayer {
+  id: WeatherLayerId
+  label: string
+  /** Layer name in OpenWeatherMap's tile URLs */
+  owmLayer: string
+  /** Metric unit of the legend values; °C, m/s and hPa follow the user's unit preferences */
+  unit: string
+  stops: WeatherLayerStop[]
+}
+
+export const WEATHER_LAYERS: WeatherLayer[] = [
+  {
+    id: "temperature",
+    label: "Temperature",
+    owmLayer: "temp_new",
+    unit: "°C",
+    stops: [
+      { value: -40, color: "rgb(130, 22, 146)" },
+      { value: -30, color: "rgb(130, 87, 219)" },
+      { value: -20, color: "rgb(32, 140, 236)" },
+      { value: -10, color: "rgb(32, 196, 232)" },
+      { value: 0, color: "rgb(35, 221, 221)" },
+      { value: 10, color: "rgb(194, 255, 40)" },
+      { value: 20, color: "rgb(255, 240, 40)" },
+      { value: 25, color: "rgb(255, 194, 40)" },
+      { value: 30, color: "rgb(252, 128, 20)" },
+    ],
+  },
+  {
+    id: "precipitation",
+    label: "Precipitation",
+    owmLayer: "precipitation_new",
+    unit: "mm/h",
+    stops: [
+      { value: 0, color: "rgba(225, 200, 100, 0)" },
+      { value: 1, color: "rgba(110, 110, 205, 0.3)" },
+      { value: 10, color: "rgba(80, 80, 225, 0.7)" },
+      { value: 140, color: "rgba(20, 20, 255, 0.9)" },
+    ],
+  },
+  {
+    id: "clouds",
+    label: "Clouds",
+    owmLayer: "clouds_new",
+    unit: "%",
+    stops: [
+      { value: 0, color: "rgba(255, 255, 255, 0)" },
+      { value: 50, color: "rgba(250, 250, 255, 0.5)" },
+      { value: 100, color: "rgba(240, 240, 255, 1)" },
+    ],
+  },
+  {
+    id: "wind",
+    label: "Wind",
+    owmLayer: "wind_new",
+    unit: "m/s",
+    stops: [
+      { value: 1, color: "rgba(255, 255, 255, 0)" },
+      { value: 5, color: "rgba(238, 206, 206, 0.4)" },
+      { value: 15, color: "rgba(179, 100, 188, 0.7)" },
+      { value: 25, color: "rgba(63, 33, 59, 0.8)" },
+      { value: 50, color: "rgba(116, 76, 172, 0.9)" },
+      { value: 100, color: "rgba(70, 0, 175, 1)" },
+    ],
+  },
+  {
+    id: "pressure",
+    label: "Pressure",
+    owmLayer: "pressure_new",
+    unit: "hPa",
+    stops: [
+      { value: 940, color: "rgb(0, 115, 255)" },
+      { value: 960, color: "rgb(0, 170, 255)" },
+      { value: 980, color: "rgb(75, 208, 214)" },
+      { value: 1000, color: "rgb(141, 231, 199)" },
+      { value: 1010, color: "rgb(176, 247, 32)" },
+      { value: 1020, color: "rgb(240, 184, 0)" },
+      { value: 1040, color: "rgb(251, 85, 21)" },
+      { value: 1060, color: "rgb(243, 54, 59)" },
+      { value: 1080, color: "rgb(198, 0, 0)" },
+    ],
+  },
+]
+
+/** Deepest zoom the tile service renders */
+export const WEATHER_LAYER_MAX_ZOOM = 18
+
+const BY_ID = new Map(WEATHER_LAYERS.map((layer) => [layer.id, layer]))
+
+export const isWeatherLayerId = (id: string): id is WeatherLayerId => BY_ID.has(id as WeatherLayerId)
+
+export function getWeatherLayer(id: WeatherLayerId): WeatherLayer {
+  return BY_ID.get(id) as WeatherLayer
+}
+
+/** URL of one 256px tile of a layer, served by /api/tiles */
+export const weatherTileUrl = (layer: WeatherLayerId, zoom: number, x: number, y: number) =>
+  `/api/tiles/${layer}/${zoom}/${x}/${y}`
+
+/** CSS gradient of a layer's legend, with the stops spread evenly like OpenWeatherMap's own legends */
+export const legendGradient = (layer: WeatherLayer) =>
+  `linear-gradient(to right, ${layer.stops.map((stop) => stop.color).join(", ")})`
@@ -0,0 +1,160 @@
+import type { Coordinates } from "@/lib/weather/types"
+import type { DailyVariableKey, DailyVariableValues } from "@/lib/weather/variables"
+
+/**
+ * @file models.ts
+ * @description Provider-independent weather models consumed by the UI.
+ * All values are metric: °C, m/s, hPa, metres for visibility and millimetres for precipitation.
+ * Times are unix timestamps in seconds.
+ */
+
+export type ProviderId = "openweathermap" | "open-meteo"
+
+export const PROVIDER_LABELS: Record<ProviderId, string> = {
+  "openweathermap": "OpenWeatherMap",
+  "open-meteo": "Open-Meteo",
+}
+
+export const providerLabel = (id: ProviderId) => PROVIDER_LABELS[id]
+
+export interface WeatherCondition {
+  description: string
+  /** OpenWeatherMap icon code (e.g. "10d"), also used for Open-Meteo data so icons stay consistent */
+  icon: string
+}
+
+export interface CurrentConditions {
+  name?: string
+  country?: string
+  coordinates: Coordinates
+  observedAt: number
+  temperature: number
+  feelsLike: number
+  humidity: number
+  pressure: number
+  windSpeed: number
+  windDirection: number
+  cloudCover: number
+  visibility?: number
+  condition: WeatherCondition
+}
+
+export interface ForecastEntry {
+  time: number
+  temperature: number
+  tempMin: number
+  tempMax: number
+  humidity: number
+  windSpeed: number
+  /** Probability of precipitation, 0 to 1 */
+  precipitationProbability: number
+  precipitation: number
+  condition: WeatherCondition
+}
+
+export interface Forecast {
+  /** Hours between consecutive entries */
+  intervalHours: number
+  /** Offset of the location's local time from UTC, used to group entries into local days */
+  utcOffsetSeconds: number
+  entries: ForecastEntry[]
+}
+
+/** Air quality on OpenWeatherMap's 1 (Good) to 5 (Very Poor) scale */
+export type AirQualityIndex = 1 | 2 | 3 | 4 | 5
+
+export const AIR_QUALITY_LABELS: Record<AirQualityIndex, string> = {
+  1: "Good",
+  2: "Fair",
+  3: "Moderate",
+  4: "Poor",
+  5: "Very Poor",
+}
+
+export const airQualityLabel = (index: number) => AIR_QUALITY_LABELS[index as AirQualityIndex] ?? "Unknown"
+
+export type Pollutant = "co" | "no" | "no2" | "o3" | "so2" | "pm2_5" | "pm10" | "nh3"
+
+export interface AirQuality {
+  index: AirQualityIndex
+  /** Concentrations in μg/m³, null when the provider does not report the pollutant */
+  components: Record<Pollutant, number | null>
+}
+
+export interface HistoricalDay {
+  /** yyyy-MM-dd in the location's timezone */
+  date: string
+  temperatureMean: number | null
+  temperatureMax: number | null
+  temperatureMin: number | null
+  humidityMean: number | null
+  windSpeedMean: number | null
+  precipitationSum: number | null
+  /** Optional variables requested through HistoricalRequest.variables */
+  values: DailyVariableValues
+}
+
+export interface HistoricalHour {
+  /** yyyy-MM-ddTHH:mm in the location's timezone */
+  time: string
+  temperature: number | null
+  humidity: number | null
+  precipitation: number | null
+  windSpeed: number | null
+  windDirection: number | null
+  cloudCover: number | null
+  pressure: number | null
+  condition: WeatherCondition | null
+}
+
+/** First day of the Open-Meteo (ERA5) archive, yyyy-MM-dd */
+export const HISTORICAL_START_DATE = "1940-01-01"
+
+/** Longest range a single /api/historical call accepts; longer ranges are fetched in chunks */
+export const MAX_HISTORICAL_RANGE_DAYS = 366
+
+/** WMO reference period of the climate normals served by /api/normals */
+export const CLIMATE_NORMALS_PERIOD = { startYear: 1991, endYear: 2020 } as const
+
+/** Average weather of one calendar day over CLIMATE_NORMALS_PERIOD */
+export interface ClimateNormalDay {
+  /** MM-dd; 02-29 is included */
+  day: string
+  temperatureMean: number | null
+  temperatureMax: number | null
+  temperatureMin: number | null
+  /** Average daily precipitation in mm */
+  precipitationSum: number | null
+}
+
+export interface ClimateNormals {
+  startYear: number
+  endYear: number
+  /** All 366 calendar days, from 01-01 to 12-31 */
+  days: ClimateNormalDay[]
+}
+
+export interface HistoricalRequest extends Coordinates {
+  startDate: Date
+  endDate: Date
+  variables?: DailyVariableKey[]
+}
+
+export interface LocationSuggestion {
+  placeId: number
+  displayName: string
+  lat: number
+  lon: number
+}
+
+export interface LocationVideo {
+  videoId: string
+  title: string
+  thumbnailUrl: string
+}
+
+/** Data returned by the failover client, tagged with the provider that supplied it */
+export interface ProviderResult<T> {
+  provider: ProviderId
+  data: T
+}
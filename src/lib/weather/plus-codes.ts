@@ -0,0 +1,107 @@
+import type { Coordinates } from "@/lib/weather/types"
+
+/**
+ * @file plus-codes.ts
+ * @description Decoding of Open Location Codes ("plus codes", e.g. "87G8Q2PQ+VX" or "Q2PQ+VX New York").
+ * - Full codes decode to the centre of their area without any lookup
+ * - Short codes drop the leading digits and are recovered relative to a nearby reference point
+ * Follows the reference algorithm in https://github.com/google/open-location-code.
+ */
+
+const ALPHABET = "23456789CFGHJMPQRVWX"
+const SEPARATOR_POSITION = 8
+/** Degrees covered by one digit of each of the five lat/lon pairs */
+const PAIR_RESOLUTIONS = [20, 1, 0.05, 0.0025, 0.000125]
+const PAIR_CODE_LENGTH = 10
+const GRID_ROWS = 5
+const GRID_COLUMNS = 4
+
+const DIGITS = `[${ALPHABET}]`
+const FULL_CODE = new RegExp(`^(${DIGITS}{8}\\+(?:${DIGITS}{2,7})?|(?:${DIGITS}{2}){1,3}0+\\+)$`, "i")
+const SHORT_CODE = new RegExp(`^${DIGITS}{2,6}\\+${DIGITS}{2,7}$`, "i")
+
+export const isFullPlusCode = (code: string): boolean => {
+  if (!FULL_CODE.test(code)) return false
+  const normalized = code.toUpperCase()
+  // The first pair must stay within -90..90 / -180..180
+  return ALPHABET.indexOf(normalized[0]) * 20 < 180 && ALPHABET.indexOf(normalized[1]) * 20 < 360
+}
+
+/** Short codes have an even number of digits before the separator */
+export const isShortPlusCode = (code: string): boolean =>
+  SHORT_CODE.test(code) && code.indexOf("+") % 2 === 0
+
+const normalizeLongitude = (lon: number) => {
+  let normalized = lon
+  while (normalized < -180) normalized += 360
+  while (normalized >= 180) normalized -= 360
+  return normalized
+}
+
+/** Centre of the area a full code stands for */
+export function decodePlusCode(code: string): Coordinates {
+  if (!isFullPlusCode(code)) throw new Error(`"${code}" is not a full plus code`)
+  const digits = code.toUpperCase().replace("+", "").replace(/0+$/, "")
+
+  let south = -90
+  let west = -180
+  let latResolution = PAIR_RESOLUTIONS[0]
+  let lonResolution = PAIR_RESOLUTIONS[0]
+
+  for (let i = 0; i < Math.min(digits.length, PAIR_CODE_LENGTH); i += 2) {
+    latResolution = lonResolution = PAIR_RESOLUTIONS[i / 2]
+    south += ALPHABET.indexOf(digits[i]) * latResolution
+    west += ALPHABET.indexOf(digits[i + 1]) * lonResolution
+  }
+  // Digits after the tenth refine a 5 x 4 grid cell each
+  for (let i = PAIR_CODE_LENGTH; i < digits.length; i++) {
+    latResolution /= GRID_ROWS
+    lonResolution /= GRID_COLUMNS
+    const index = ALPHABET.indexOf(digits[i])
+    south += Math.floor(index / GRID_COLUMNS) * latResolution
+    west += (index % GRID_COLUMNS) * lonResolution
+  }
+
+  return {
+    lat: Math.min(south + latResolution / 2, 90),
+    lon: normalizeLongitude(west + lonResolution / 2),
+  }
+}
+
+/** First `length` digits of the full code for a point; only whole pairs are needed to recover short codes */
+function encodePrefix({ lat, lon }: Coordinates, length: number): string {
+  let latValue = Math.min(Math.max(lat, -90), 90 - 1e-10) + 90
+  let lonValue = normalizeLongitude(lon) + 180
+  let prefix = ""
+  for (let pair = 0; pair < length / 2; pair++) {
+    const resolution = PAIR_RESOLUTIONS[pair]
+    const latDigit = Math.floor(latValue / resolution)
+    const lonDigit = Math.floor(lonValue / resolution)
+    latValue -= latDigit * resolution
+    lonValue -= lonDigit * resolution
+    prefix += ALPHABET[latDigit] + ALPHABET[lonDigit]
+  }
+  return prefix
+}
+
+/** Recovers a short code to the full code area nearest to `reference` and returns its centre */
+export function recoverPlusCode(shortCode: string, reference: Coordinates): Coordinates {
+  if (!isShortPlusCode(shortCode)) throw new Error(`"${shortCode}" is not a short plus code`)
+  const code = shortCode.toUpperCase()
+  const missing = SEPARATOR_POSITION - code.indexOf("+")
+  const resolution = Math.pow(20, 2 - missing / 2)
+  const half = resolution / 2
+
+  const { lat, lon } = decodePlusCode(encodePrefix(reference, missing) + code)
+
+  // The reference may sit near the edge of its cell, so the nearest match can be in the neighbouring one
+  let recoveredLat = lat
+  if (reference.lat + half < lat && lat - resolution >= -90) recoveredLat -= resolution
+  else if (reference.lat - half > lat && lat + resolution <= 90) recoveredLat += resolution
+
+  let recoveredLon = lon
+  if (reference.lon + half < lon) recoveredLon -= resolution
+  else if (reference.lon - half > lon) recoveredLon += resolution
+
+  return { lat: recoveredLat, lon: normalizeLongitude(recoveredLon) }
+}
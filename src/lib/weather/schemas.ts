@@ -0,0 +1,377 @@
+import { z } from "zod"
+import { WeatherClientError, type WeatherSource } from "@/lib/weather/errors"
+import type {
+  AirQuality,
+  ClimateNormalDay,
+  ClimateNormals,
+  CurrentConditions,
+  Forecast,
+  HistoricalDay,
+  HistoricalHour,
+  LocationSuggestion,
+  LocationVideo,
+  ProviderResult,
+} from "@/lib/weather/models"
+import type {
+  OpenMeteoAirQualityResponse,
+  OpenMeteoCurrentResponse,
+  OpenMeteoDailyResponse,
+  OpenMeteoDailyVariable,
+  OpenMeteoHourlyResponse,
+  OpenMeteoHourlyVariable,
+  OwmAirPollutionResponse,
+  OwmCurrentWeatherResponse,
+  OwmForecastResponse,
+  YouTubeSearchResponse,
+} from "@/lib/weather/types"
+import { DAILY_VARIABLES } from "@/lib/weather/variables"
+
+/**
+ * @file schemas.ts
+ * @description Runtime schemas for every payload that crosses a boundary: provider responses (validated on the
+ * server) and the app's own /api responses (validated in the browser).
+ * Each schema is typed against its interface in types.ts / models.ts, so the two can't drift apart.
+ * A payload that does not match becomes a WeatherClientError of kind "invalid_response".
+ */
+
+/** Schema whose output is `T`; the input is unknown JSON */
+export type Schema<T> = z.ZodType<T, z.ZodTypeDef, unknown>
+
+/** Issues listed in the error message before the rest are counted */
+const MAX_LISTED_ISSUES = 3
+
+export function formatIssues(error: z.ZodError): string {
+  const listed = error.issues
+    .slice(0, MAX_LISTED_ISSUES)
+    .map((issue) => `${issue.path.length > 0 ? issue.path.join(".") : "payload"}: ${issue.message}`)
+  const more = error.issues.length - listed.length
+  return more > 0 ? `${listed.join("; ")} (+${more} more)` : listed.join("; ")
+}
+
+/** Validates `data`, throwing an "invalid_response" WeatherClientError that names the offending fields */
+export function parseResponse<T>(schema: Schema<T>, data: unknown, source: WeatherSource): T {
+  const result = schema.safeParse(data)
+  if (!result.success) {
+    throw new WeatherClientError("invalid_response", source, `Unexpected response: ${formatIssues(result.error)}`)
+  }
+  return result.data
+}
+
+const coordinates = z.object({ lat: z.number(), lon: z.number() })
+/** Open-Meteo reports missing values as null */
+const series = z.array(z.number().nullable())
+
+/** Every column of a series object must be as long as its time axis */
+const sameLength = (value: { time: unknown[] } & Record<string, unknown>, context: z.RefinementCtx) => {
+  for (const [key, column] of Object.entries(value)) {
+    if (Array.isArray(column) && column.length !== value.time.length) {
+      context.addIssue({ code: z.ZodIssueCode.custom, path: [key], message: `has ${column.length} values for ${value.time.length} times` })
+    }
+  }
+}
+
+/* ---------------------------------- OpenWeatherMap ---------------------------------- */
+
+const owmCondition = z.object({ id: z.number(), main: z.string(), description: z.string(), icon: z.string() })
+
+const owmMain = z.object({
+  temp: z.number(),
+  feels_like: z.number(),
+  temp_min: z.number(),
+  temp_max: z.number(),
+  pressure: z.number(),
+  humidity: z.number(),
+  sea_level: z.number().optional(),
+  grnd_level: z.number().optional(),
+})
+
+const owmWind = z.object({ speed: z.number(), deg: z.number(), gust: z.number().optional() })
+
+export const owmCurrentWeatherSchema: Schema<OwmCurrentWeatherResponse> = z.object({
+  coord: coordinates,
+  weather: z.array(owmCondition).min(1),
+  main: owmMain,
+  visibility: z.number().optional(),
+  wind: owmWind,
+  clouds: z.object({ all: z.number() }),
+  dt: z.number(),
+  sys: z.object({ country: z.string().optional(), sunrise: z.number().optional(), sunset: z.number().optional() }),
+  timezone: z.number(),
+  id: z.number(),
+  name: z.string(),
+})
+
+export const owmForecastSchema: Schema<OwmForecastResponse> = z.object({
+  cnt: z.number(),
+  list: z.array(
+    z.object({
+      dt: z.number(),
+      main: owmMain,
+      weather: z.array(owmCondition).min(1),
+      clouds: z.object({ all: z.number() }),
+      wind: owmWind,
+      visibility: z.number().optional(),
+      pop: z.number(),
+      rain: z.object({ "3h": z.number().optional() }).optional(),
+      snow: z.object({ "3h": z.number().optional() }).optional(),
+      dt_txt: z.string(),
+    }),
+  ),
+  city: z.object({
+    id: z.number(),
+    name: z.string(),
+    coord: coordinates,
+    country: z.string(),
+    timezone: z.number(),
+    sunrise: z.number(),
+    sunset: z.number(),
+  }),
+})
+
+export const owmAirPollutionSchema: Schema<OwmAirPollutionResponse> = z.object({
+  coord: coordinates,
+  list: z
+    .array(
+      z.object({
+        dt: z.number(),
+        main: z.object({ aqi: z.union([z.literal(1), z.literal(2), z.literal(3), z.literal(4), z.literal(5)]) }),
+        components: z.object({
+          co: z.number(),
+          no: z.number(),
+          no2: z.number(),
+          o3: z.number(),
+          so2: z.number(),
+          pm2_5: z.number(),
+          pm10: z.number(),
+          nh3: z.number(),
+        }),
+      }),
+    )
+    .min(1),
+})
+
+/* ------------------------------------ Open-Meteo ------------------------------------ */
+
+const seriesShape = (variables: readonly string[]) => Object.fromEntries(variables.map((variable) => [variable, series]))
+
+/** Daily response carrying exactly the requested variables */
+export function openMeteoDailySchema<V extends OpenMeteoDailyVariable>(variables: V[]): Schema<OpenMeteoDailyResponse<V>> {
+  return z.object({
+    latitude: z.number(),
+    longitude: z.number(),
+    elevation: z.number(),
+    timezone: z.string(),
+    utc_offset_seconds: z.number(),
+    daily_units: z.record(z.string()),
+    daily: z
+      .object({ time: z.array(z.string()), ...seriesShape(variables) })
+      .superRefine(sameLength),
+  }) as unknown as Schema<OpenMeteoDailyResponse<V>>
+}
+
+/** Hourly response carrying exactly the requested variables, with unix (`"unixtime"`) or local ISO times */
+export function openMeteoHourlySchema<V extends OpenMeteoHourlyVariable, Time extends number | string>(
+  variables: V[],
+  timeFormat: Time extends number ? "unixtime" : "iso8601",
+): Schema<OpenMeteoHourlyResponse<V, Time>> {
+  return z.object({
+    latitude: z.number(),
+    longitude: z.number(),
+    timezone: z.string(),
+    utc_offset_seconds: z.number(),
+    hourly_units: z.record(z.string()),
+    hourly: z
+      .object({ time: z.array(timeFormat === "unixtime" ? z.number() : z.string()), ...seriesShape(variables) })
+      .superRefine(sameLength),
+  }) as unknown as Schema<OpenMeteoHourlyResponse<V, Time>>
+}
+
+export const openMeteoCurrentSchema: Schema<OpenMeteoCurrentResponse> = z.object({
+  latitude: z.number(),
+  longitude: z.number(),
+  timezone: z.string(),
+  utc_offset_seconds: z.number(),
+  current_units: z.record(z.string()) as z.ZodType<OpenMeteoCurrentResponse["current_units"]>,
+  current: z.object({
+    time: z.number(),
+    interval: z.number(),
+    temperature_2m: z.number(),
+    apparent_temperature: z.number(),
+    relative_humidity_2m: z.number(),
+    pressure_msl: z.number(),
+    wind_speed_10m: z.number(),
+    wind_direction_10m: z.number(),
+    cloud_cover: z.number(),
+    visibility: z.number(),
+    weather_code: z.number(),
+    is_day: z.number(),
+  }),
+})
+
+export const openMeteoAirQualitySchema: Schema<OpenMeteoAirQualityResponse> = z.object({
+  latitude: z.number(),
+  longitude: z.number(),
+  current_units: z.record(z.string()) as z.ZodType<OpenMeteoAirQualityResponse["current_units"]>,
+  current: z.object({
+    time: z.number(),
+    interval: z.number(),
+    european_aqi: z.number().nullable(),
+    carbon_monoxide: z.number().nullable(),
+    nitrogen_dioxide: z.number().nullable(),
+    ozone: z.number().nullable(),
+    sulphur_dioxide: z.number().nullable(),
+    pm2_5: z.number().nullable(),
+    pm10: z.number().nullable(),
+    ammonia: z.number().nullable(),
+  }),
+})
+
+/* ------------------------------------ Nominatim ------------------------------------- */
+
+/** Nominatim sends coordinates as decimal strings */
+const decimalString = z.string().regex(/^-?\d+(\.\d+)?$/, "must be a decimal number")
+
+export const nominatimPlaceSchema = z.object({
+  place_id: z.number(),
+  display_name: z.string().min(1),
+  lat: decimalString,
+  lon: decimalString,
+})
+
+export type NominatimPlace = z.infer<typeof nominatimPlaceSchema>
+
+export const nominatimSearchSchema = z.array(nominatimPlaceSchema)
+
+/** Reverse lookups answer 200 with `{ error }` when nothing is found */
+export const nominatimReverseSchema = z.union([nominatimPlaceSchema, z.object({ error: z.string() })])
+
+/* ------------------------------------- YouTube -------------------------------------- */
+
+const thumbnail = z.object({ url: z.string() })
+
+export const youTubeSearchSchema: Schema<YouTubeSearchResponse> = z.object({
+  items: z
+    .array(
+      z.object({
+        id: z.object({ kind: z.string(), videoId: z.string() }),
+        snippet: z.object({
+          title: z.string(),
+          description: z.string(),
+          channelTitle: z.string(),
+          thumbnails: z.object({ default: thumbnail, medium: thumbnail, high: thumbnail }),
+        }),
+      }),
+    )
+    .default([]),
+})
+
+/* ------------------------------- App /api route models ------------------------------ */
+
+const condition = z.object({ description: z.string(), icon: z.string() })
+
+export const providerResultSchema = <T>(data: Schema<T>): Schema<ProviderResult<T>> =>
+  z.object({ provider: z.enum(["openweathermap", "open-meteo"]), data }) as Schema<ProviderResult<T>>
+
+export const currentConditionsSchema: Schema<CurrentConditions> = z.object({
+  name: z.string().optional(),
+  country: z.string().optional(),
+  coordinates,
+  observedAt: z.number(),
+  temperature: z.number(),
+  feelsLike: z.number(),
+  humidity: z.number(),
+  pressure: z.number(),
+  windSpeed: z.number(),
+  windDirection: z.number(),
+  cloudCover: z.number(),
+  visibility: z.number().optional(),
+  condition,
+})
+
+export const forecastSchema: Schema<Forecast> = z.object({
+  intervalHours: z.number().positive(),
+  utcOffsetSeconds: z.number(),
+  entries: z.array(
+    z.object({
+      time: z.number(),
+      temperature: z.number(),
+      tempMin: z.number(),
+      tempMax: z.number(),
+      humidity: z.number(),
+      windSpeed: z.number(),
+      precipitationProbability: z.number(),
+      precipitation: z.number(),
+      condition,
+    }),
+  ),
+})
+
+const concentration = z.number().nullable()
+
+export const airQualitySchema: Schema<AirQuality> = z.object({
+  index: z.union([z.literal(1), z.literal(2), z.literal(3), z.literal(4), z.literal(5)]),
+  components: z.object({
+    co: concentration,
+    no: concentration,
+    no2: concentration,
+    o3: concentration,
+    so2: concentration,
+    pm2_5: concentration,
+    pm10: concentration,
+    nh3: concentration,
+  }),
+})
+
+const dailyValues = z.object(
+  Object.fromEntries(DAILY_VARIABLES.map((variable) => [variable.key, z.number().nullable().optional()])),
+) as unknown as Schema<HistoricalDay["values"]>
+
+export const historicalDaySchema: Schema<HistoricalDay> = z.object({
+  date: z.string().regex(/^\d{4}-\d{2}-\d{2}$/),
+  temperatureMean: z.number().nullable(),
+  temperatureMax: z.number().nullable(),
+  temperatureMin: z.number().nullable(),
+  humidityMean: z.number().nullable(),
+  windSpeedMean: z.number().nullable(),
+  precipitationSum: z.number().nullable(),
+  values: dailyValues,
+})
+
+export const historicalHourSchema: Schema<HistoricalHour> = z.object({
+  time: z.string().regex(/^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}$/),
+  temperature: z.number().nullable(),
+  humidity: z.number().nullable(),
+  precipitation: z.number().nullable(),
+  windSpeed: z.number().nullable(),
+  windDirection: z.number().nullable(),
+  cloudCover: z.number().nullable(),
+  pressure: z.number().nullable(),
+  condition: condition.nullable(),
+})
+
+const climateNormalDaySchema: Schema<ClimateNormalDay> = z.object({
+  day: z.string().regex(/^\d{2}-\d{2}$/),
+  temperatureMean: z.number().nullable(),
+  temperatureMax: z.number().nullable(),
+  temperatureMin: z.number().nullable(),
+  precipitationSum: z.number().nullable(),
+})
+
+export const climateNormalsSchema: Schema<ClimateNormals> = z.object({
+  startYear: z.number().int(),
+  endYear: z.number().int(),
+  days: z.array(climateNormalDaySchema),
+})
+
+export const locationSuggestionSchema: Schema<LocationSuggestion> = z.object({
+  placeId: z.number(),
+  displayName: z.string(),
+  lat: z.number().min(-90).max(90),
+  lon: z.number().min(-180).max(180),
+})
+
+export const locationVideoSchema: Schema<LocationVideo> = z.object({
+  videoId: z.string(),
+  title: z.string(),
+  thumbnailUrl: z.string(),
+})
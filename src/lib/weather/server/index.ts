@@ -0,0 +1,40 @@
+import "server-only"
+
+/**
+ * Server-only entry point: these modules read provider API keys from non-public environment variables
+ * and must only be imported from route handlers. The "server-only" import fails the build if a client module imports them.
+ */
+export { getCurrentWeather, getForecast, getAirPollution, getWeatherTile } from "@/lib/weather/server/openweathermap"
+export {
+  getArchiveDaily,
+  getForecastDaily,
+  getDailyHistory,
+  getArchiveHourly,
+  getForecastHourly,
+  getHourlyHistory,
+  getCurrentConditions,
+  getHourlyForecast,
+  getAirQuality,
+  getClimateNormals,
+  toDailyRows,
+  toHourlyRows,
+} from "@/lib/weather/server/open-meteo"
+export type { OpenMeteoDailyRow, OpenMeteoHourlyRow } from "@/lib/weather/server/open-meteo"
+export { searchLocationVideos } from "@/lib/weather/server/youtube"
+export { searchPlaces, searchPostalCode, reversePlace } from "@/lib/weather/server/nominatim"
+export {
+  PROVIDERS,
+  createWeatherService,
+  openMeteoProvider,
+  openWeatherMapProvider,
+  weatherService,
+} from "@/lib/weather/server/providers"
+export type { WeatherProvider, WeatherService } from "@/lib/weather/server/providers"
+export {
+  errorResponse,
+  parseCoordinates,
+  parseDateParam,
+  parseHistoricalRange,
+  parseTileParams,
+  requireParam,
+} from "@/lib/weather/server/route-helpers"
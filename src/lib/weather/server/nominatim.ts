@@ -0,0 +1,119 @@
+import "server-only"
+import { WeatherClientError } from "@/lib/weather/errors"
+import { getJson, type RequestOptions } from "@/lib/weather/http"
+import type { Coordinates } from "@/lib/weather/types"
+import type { LocationSuggestion } from "@/lib/weather/models"
+import { nominatimReverseSchema, nominatimSearchSchema, type NominatimPlace } from "@/lib/weather/schemas"
+
+/**
+ * @file nominatim.ts
+ * @description Typed client for OpenStreetMap's Nominatim geocoder (forward search and reverse lookup).
+ * Nominatim's usage policy requires an identifying User-Agent, which browsers do not let us set,
+ * and at most one request per second, which is enforced here for every caller in the process.
+ */
+
+const BASE_URL = "https://nominatim.openstreetmap.org"
+const USER_AGENT = "WeatherApp/0.1 (+https://github.com/Dreei/Weather_App-Frontend)"
+
+/** Minimum time between two Nominatim requests */
+const MIN_INTERVAL_MS = 1000
+
+/** When the last request was let through */
+let lastSlotAt = 0
+/** Callers waiting for a slot, in call order */
+const waiting: (() => void)[] = []
+let grantTimer: ReturnType<typeof setTimeout> | null = null
+
+const cancelled = () => new WeatherClientError("aborted", "nominatim", "Request was cancelled")
+
+/** Lets the first waiting caller through once a second has passed since the previous one */
+function grantSlots() {
+  grantTimer = null
+  const next = waiting[0]
+  if (!next) return
+
+  const wait = lastSlotAt + MIN_INTERVAL_MS - Date.now()
+  if (wait > 0) {
+    grantTimer = setTimeout(grantSlots, wait)
+    return
+  }
+  waiting.shift()
+  lastSlotAt = Date.now()
+  next()
+  grantSlots()
+}
+
+/**
+ * Waits for the next free request slot; slots are handed out in call order.
+ * A caller aborted while waiting gives up its place, so cancelled lookups don't delay later ones.
+ */
+function waitForSlot(signal?: AbortSignal): Promise<void> {
+  if (signal?.aborted) return Promise.reject(cancelled())
+
+  return new Promise((resolve, reject) => {
+    const onAbort = () => {
+      const index = waiting.indexOf(grant)
+      if (index !== -1) waiting.splice(index, 1)
+      reject(cancelled())
+    }
+    const grant = () => {
+      signal?.removeEventListener("abort", onAbort)
+      resolve()
+    }
+    signal?.addEventListener("abort", onAbort, { once: true })
+    waiting.push(grant)
+    if (!grantTimer) grantSlots()
+  })
+}
+
+const toSuggestion = (place: NominatimPlace): LocationSuggestion => ({
+  placeId: place.place_id,
+  displayName: place.display_name,
+  lat: Number.parseFloat(place.lat),
+  lon: Number.parseFloat(place.lon),
+})
+
+export async function searchPlaces(query: string, limit = 5, options: RequestOptions = {}): Promise<LocationSuggestion[]> {
+  await waitForSlot(options.signal)
+  const data = await getJson(
+    "nominatim",
+    `${BASE_URL}/search`,
+    { q: query, format: "json", limit },
+    nominatimSearchSchema,
+    { ...options, headers: { "User-Agent": USER_AGENT, ...options.headers } },
+  )
+  return data.map(toSuggestion)
+}
+
+/** Structured postal code lookup; `countryCode` is an ISO 3166-1 alpha-2 code */
+export async function searchPostalCode(
+  postalCode: string,
+  countryCode: string,
+  limit = 5,
+  options: RequestOptions = {},
+): Promise<LocationSuggestion[]> {
+  await waitForSlot(options.signal)
+  const data = await getJson(
+    "nominatim",
+    `${BASE_URL}/search`,
+    { postalcode: postalCode, countrycodes: countryCode.toLowerCase(), format: "json", limit },
+    nominatimSearchSchema,
+    { ...options, headers: { "User-Agent": USER_AGENT, ...options.headers } },
+  )
+  return data.map(toSuggestion)
+}
+
+export async function reversePlace({ lat, lon }: Coordinates, options: RequestOptions = {}): Promise<LocationSuggestion> {
+  await waitForSlot(options.signal)
+  const data = await getJson(
+    "nominatim",
+    `${BASE_URL}/reverse`,
+    { lat, lon, format: "json" },
+    nominatimReverseSchema,
+    { ...options, headers: { "User-Agent": USER_AGENT, ...options.headers } },
+  )
+  if ("error" in data) {
+    throw new WeatherClientError("not_found", "nominatim", data.error || "Unable to find location based on coordinates")
+  }
+  return toSuggestion(data)
+}
@@ -0,0 +1,362 @@
+import "server-only"
+import { addDays, format as dateFormat, isAfter, isBefore, startOfToday, subDays } from "date-fns"
+import { getJson, type RequestOptions } from "@/lib/weather/http"
+import {
+  openMeteoAirQualitySchema,
+  openMeteoCurrentSchema,
+  openMeteoDailySchema,
+  openMeteoHourlySchema,
+} from "@/lib/weather/schemas"
+import { CLIMATE_NORMALS_PERIOD, type ClimateNormalDay, type ClimateNormals } from "@/lib/weather/models"
+import type {
+  Coordinates,
+  OpenMeteoAirQualityResponse,
+  OpenMeteoAirQualityVariable,
+  OpenMeteoCurrentResponse,
+  OpenMeteoCurrentVariable,
+  OpenMeteoDailyRequest,
+  OpenMeteoDailyResponse,
+  OpenMeteoDailyVariable,
+  OpenMeteoHourlyRequest,
+  OpenMeteoHourlyResponse,
+  OpenMeteoHourlyVariable,
+} from "@/lib/weather/types"
+
+/**
+ * @file open-meteo.ts
+ * @description Typed client for the Open-Meteo archive, forecast and air quality APIs. No API key is required.
+ * - The archive API lags a few days behind, so recent days are read from the forecast API instead
+ * - Wind speeds are requested in m/s to match OpenWeatherMap's metric units
+ * - Current, hourly forecast and air quality requests use unix timestamps; hourly history keeps local ISO times
+ * - Climate normals are averaged from 30 years of archive data per calendar day
+ */
+
+const ARCHIVE_URL = "https://archive-api.open-meteo.com/v1/archive"
+const FORECAST_URL = "https://api.open-meteo.com/v1/forecast"
+const AIR_QUALITY_URL = "https://air-quality-api.open-meteo.com/v1/air-quality"
+
+const CURRENT_VARIABLES: OpenMeteoCurrentVariable[] = [
+  "temperature_2m",
+  "apparent_temperature",
+  "relative_humidity_2m",
+  "pressure_msl",
+  "wind_speed_10m",
+  "wind_direction_10m",
+  "cloud_cover",
+  "visibility",
+  "weather_code",
+  "is_day",
+]
+
+const HOURLY_VARIABLES: OpenMeteoHourlyVariable[] = [
+  "temperature_2m",
+  "relative_humidity_2m",
+  "wind_speed_10m",
+  "precipitation",
+  "precipitation_probability",
+  "weather_code",
+  "is_day",
+]
+
+const AIR_QUALITY_VARIABLES: OpenMeteoAirQualityVariable[] = [
+  "european_aqi",
+  "carbon_monoxide",
+  "nitrogen_dioxide",
+  "ozone",
+  "sulphur_dioxide",
+  "pm2_5",
+  "pm10",
+  "ammonia",
+]
+
+/** Days before today after which the archive API may not have data yet */
+const ARCHIVE_LAG_DAYS = 4
+
+export type OpenMeteoDailyRow<V extends OpenMeteoDailyVariable> = { date: string } & Record<V, number | null>
+
+/** `time` is the local "yyyy-MM-ddTHH:mm" of the location */
+export type OpenMeteoHourlyRow<V extends OpenMeteoHourlyVariable> = { time: string } & Record<V, number | null>
+
+const toParams = <V extends OpenMeteoDailyVariable>(request: OpenMeteoDailyRequest<V>) => ({
+  latitude: request.latitude,
+  longitude: request.longitude,
+  start_date: request.startDate,
+  end_date: request.endDate,
+  daily: request.daily,
+  timezone: request.timezone ?? "auto",
+  wind_speed_unit: "ms",
+})
+
+const toHourlyParams = <V extends OpenMeteoHourlyVariable>(request: OpenMeteoHourlyRequest<V>) => ({
+  latitude: request.latitude,
+  longitude: request.longitude,
+  start_date: request.startDate,
+  end_date: request.endDate,
+  hourly: request.hourly,
+  timezone: request.timezone ?? "auto",
+  wind_speed_unit: "ms",
+})
+
+export async function getArchiveDaily<V extends OpenMeteoDailyVariable>(
+  request: OpenMeteoDailyRequest<V>,
+  options?: RequestOptions,
+): Promise<OpenMeteoDailyResponse<V>> {
+  return getJson("open-meteo", ARCHIVE_URL, toParams(request), openMeteoDailySchema(request.daily), options)
+}
+
+export async function getForecastDaily<V extends OpenMeteoDailyVariable>(
+  request: OpenMeteoDailyRequest<V>,
+  options?: RequestOptions,
+): Promise<OpenMeteoDailyResponse<V>> {
+  return getJson("open-meteo", FORECAST_URL, toParams(request), openMeteoDailySchema(request.daily), options)
+}
+
+export async function getArchiveHourly<V extends OpenMeteoHourlyVariable>(
+  request: OpenMeteoHourlyRequest<V>,
+  options?: RequestOptions,
+): Promise<OpenMeteoHourlyResponse<V, string>> {
+  return getJson(
+    "open-meteo",
+    ARCHIVE_URL,
+    toHourlyParams(request),
+    openMeteoHourlySchema<V, string>(request.hourly, "iso8601"),
+    options,
+  )
+}
+
+export async function getForecastHourly<V extends OpenMeteoHourlyVariable>(
+  request: OpenMeteoHourlyRequest<V>,
+  options?: RequestOptions,
+): Promise<OpenMeteoHourlyResponse<V, string>> {
+  return getJson(
+    "open-meteo",
+    FORECAST_URL,
+    toHourlyParams(request),
+    openMeteoHourlySchema<V, string>(request.hourly, "iso8601"),
+    options,
+  )
+}
+
+export async function getCurrentConditions(
+  { lat, lon }: Coordinates,
+  options?: RequestOptions,
+): Promise<OpenMeteoCurrentResponse> {
+  return getJson(
+    "open-meteo",
+    FORECAST_URL,
+    { latitude: lat, longitude: lon, current: CURRENT_VARIABLES, wind_speed_unit: "ms", timeformat: "unixtime" },
+    openMeteoCurrentSchema,
+    options,
+  )
+}
+
+export async function getHourlyForecast(
+  { lat, lon }: Coordinates,
+  forecastDays = 5,
+  options?: RequestOptions,
+): Promise<OpenMeteoHourlyResponse> {
+  return getJson(
+    "open-meteo",
+    FORECAST_URL,
+    {
+      latitude: lat,
+      longitude: lon,
+      hourly: HOURLY_VARIABLES,
+      forecast_days: forecastDays,
+      timezone: "auto",
+      wind_speed_unit: "ms",
+      timeformat: "unixtime",
+    },
+    openMeteoHourlySchema<OpenMeteoHourlyVariable, number>(HOURLY_VARIABLES, "unixtime"),
+    options,
+  )
+}
+
+export async function getAirQuality(
+  { lat, lon }: Coordinates,
+  options?: RequestOptions,
+): Promise<OpenMeteoAirQualityResponse> {
+  return getJson(
+    "open-meteo",
+    AIR_QUALITY_URL,
+    { latitude: lat, longitude: lon, current: AIR_QUALITY_VARIABLES, timeformat: "unixtime" },
+    openMeteoAirQualitySchema,
+    options,
+  )
+}
+
+/** Flattens Open-Meteo's column-oriented daily series into one row per day */
+export function toDailyRows<V extends OpenMeteoDailyVariable>(
+  response: OpenMeteoDailyResponse<V>,
+  variables: V[],
+): OpenMeteoDailyRow<V>[] {
+  return response.daily.time.map((date, i) => {
+    const row = { date } as OpenMeteoDailyRow<V>
+    for (const variable of variables) {
+      const series = response.daily[variable]
+      ;(row as Record<string, number | null>)[variable] = series?.[i] ?? null
+    }
+    return row
+  })
+}
+
+/** Flattens Open-Meteo's column-oriented hourly series into one row per hour */
+export function toHourlyRows<V extends OpenMeteoHourlyVariable>(
+  response: OpenMeteoHourlyResponse<V, string>,
+  variables: V[],
+): OpenMeteoHourlyRow<V>[] {
+  return response.hourly.time.map((time, i) => {
+    const row = { time } as OpenMeteoHourlyRow<V>
+    for (const variable of variables) {
+      const series = response.hourly[variable]
+      ;(row as Record<string, number | null>)[variable] = series?.[i] ?? null
+    }
+    return row
+  })
+}
+
+type DateRange = { startDate: Date; endDate: Date }
+
+/** Splits a past range into the part the archive API has and the recent part only the forecast API has */
+function splitArchiveRange({ startDate, endDate }: DateRange): { archive?: DateRange; recent?: DateRange } {
+  const cutoffDate = subDays(startOfToday(), ARCHIVE_LAG_DAYS)
+  const archiveEndDate = isBefore(endDate, cutoffDate) ? endDate : cutoffDate
+
+  return {
+    archive: isAfter(startDate, archiveEndDate) ? undefined : { startDate, endDate: archiveEndDate },
+    recent: isAfter(endDate, cutoffDate)
+      ? { startDate: isAfter(startDate, cutoffDate) ? startDate : addDays(cutoffDate, 1), endDate }
+      : undefined,
+  }
+}
+
+const toDateStrings = ({ startDate, endDate }: DateRange) => ({
+  startDate: dateFormat(startDate, "yyyy-MM-dd"),
+  endDate: dateFormat(endDate, "yyyy-MM-dd"),
+})
+
+/**
+ * Fetches daily values for a past date range, reading from the archive API where it has data
+ * and from the forecast API for the most recent days. Rows are returned sorted by date.
+ */
+export async function getDailyHistory<V extends OpenMeteoDailyVariable>(
+  params: { lat: number; lon: number; startDate: Date; endDate: Date; daily: V[] },
+  options?: RequestOptions,
+): Promise<OpenMeteoDailyRow<V>[]> {
+  const { lat, lon, daily } = params
+  const { archive, recent } = splitArchiveRange(params)
+
+  const rows: OpenMeteoDailyRow<V>[] = []
+
+  if (archive) {
+    const response = await getArchiveDaily(
+      { latitude: lat, longitude: lon, ...toDateStrings(archive), daily },
+      options,
+    )
+    rows.push(...toDailyRows(response, daily))
+  }
+
+  if (recent) {
+    const response = await getForecastDaily(
+      { latitude: lat, longitude: lon, ...toDateStrings(recent), daily },
+      options,
+    )
+    rows.push(...toDailyRows(response, daily))
+  }
+
+  return rows.sort((a, b) => a.date.localeCompare(b.date))
+}
+
+/** Hourly counterpart of getDailyHistory; rows are sorted by local time */
+export async function getHourlyHistory<V extends OpenMeteoHourlyVariable>(
+  params: { lat: number; lon: number; startDate: Date; endDate: Date; hourly: V[] },
+  options?: RequestOptions,
+): Promise<OpenMeteoHourlyRow<V>[]> {
+  const { lat, lon, hourly } = params
+  const { archive, recent } = splitArchiveRange(params)
+
+  const rows: OpenMeteoHourlyRow<V>[] = []
+
+  if (archive) {
+    const response = await getArchiveHourly(
+      { latitude: lat, longitude: lon, ...toDateStrings(archive), hourly },
+      options,
+    )
+    rows.push(...toHourlyRows(response, hourly))
+  }
+
+  if (recent) {
+    const response = await getForecastHourly(
+      { latitude: lat, longitude: lon, ...toDateStrings(recent), hourly },
+      options,
+    )
+    rows.push(...toHourlyRows(response, hourly))
+  }
+
+  return rows.sort((a, b) => a.time.localeCompare(b.time))
+}
+
+type NormalVariable = "temperature_2m_mean" | "temperature_2m_max" | "temperature_2m_min" | "precipitation_sum"
+
+const NORMAL_FIELDS: Record<NormalVariable, Exclude<keyof ClimateNormalDay, "day">> = {
+  temperature_2m_mean: "temperatureMean",
+  temperature_2m_max: "temperatureMax",
+  temperature_2m_min: "temperatureMin",
+  precipitation_sum: "precipitationSum",
+}
+
+const NORMAL_VARIABLES = Object.keys(NORMAL_FIELDS) as NormalVariable[]
+
+/** Days on either side whose values also count towards a calendar day's normal, smoothing out single-year noise */
+const NORMALS_WINDOW_DAYS = 7
+
+/** MM-dd of every calendar day; 2000 is a leap year, so 02-29 is included */
+const CALENDAR_DAYS = Array.from({ length: 366 }, (_, i) => dateFormat(addDays(new Date(2000, 0, 1), i), "MM-dd"))
+
+/** Averages daily rows per calendar day, pooling each day with its neighbours (wrapping around the new year) */
+function toClimateNormalDays(rows: OpenMeteoDailyRow<NormalVariable>[]): ClimateNormalDay[] {
+  const dayIndex = new Map(CALENDAR_DAYS.map((day, i) => [day, i]))
+  const sums = CALENDAR_DAYS.map(() => NORMAL_VARIABLES.map(() => ({ total: 0, count: 0 })))
+
+  for (const row of rows) {
+    const i = dayIndex.get(row.date.slice(5))
+    if (i === undefined) continue
+    NORMAL_VARIABLES.forEach((variable, v) => {
+      const value = row[variable]
+      if (value === null) return
+      sums[i][v].total += value
+      sums[i][v].count += 1
+    })
+  }
+
+  return CALENDAR_DAYS.map((day, i) => {
+    const normal = { day } as ClimateNormalDay
+    NORMAL_VARIABLES.forEach((variable, v) => {
+      let total = 0
+      let count = 0
+      for (let offset = -NORMALS_WINDOW_DAYS; offset <= NORMALS_WINDOW_DAYS; offset++) {
+        const bucket = sums[(i + offset + CALENDAR_DAYS.length) % CALENDAR_DAYS.length][v]
+        total += bucket.total
+        count += bucket.count
+      }
+      normal[NORMAL_FIELDS[variable]] = count > 0 ? Math.round((total / count) * 100) / 100 : null
+    })
+    return normal
+  })
+}
+
+/** 1991-2020 daily climate normals for a location, from a single archive request */
+export async function getClimateNormals({ lat, lon }: Coordinates, options?: RequestOptions): Promise<ClimateNormals> {
+  const { startYear, endYear } = CLIMATE_NORMALS_PERIOD
+  const response = await getArchiveDaily(
+    {
+      latitude: lat,
+      longitude: lon,
+      startDate: `${startYear}-01-01`,
+      endDate: `${endYear}-12-31`,
+      daily: NORMAL_VARIABLES,
+    },
+    options,
+  )
+  return { startYear, endYear, days: toClimateNormalDays(toDailyRows(response, NORMAL_VARIABLES)) }
+}
@@ -0,0 +1,91 @@
+import "server-only"
+import axios from "axios"
+import { WeatherClientError, toWeatherClientError } from "@/lib/weather/errors"
+import { getJson, type RequestOptions } from "@/lib/weather/http"
+import { owmAirPollutionSchema, owmCurrentWeatherSchema, owmForecastSchema } from "@/lib/weather/schemas"
+import type {
+  Coordinates,
+  OwmAirPollutionResponse,
+  OwmCurrentWeatherResponse,
+  OwmForecastResponse,
+  OwmUnits,
+} from "@/lib/weather/types"
+
+/**
+ * @file openweathermap.ts
+ * @description Typed client for the OpenWeatherMap 2.5 endpoints (current weather, forecast, air pollution)
+ * and the weather map tiles.
+ * Server only: the API key is read from a non-public environment variable.
+ * @requires OPENWEATHERMAP_API_KEY environment variable to access OpenWeatherMap API
+ */
+
+const BASE_URL = "https://api.openweathermap.org/data/2.5"
+const TILE_URL = "https://tile.openweathermap.org/map"
+const OPENWEATHERMAP_API_KEY = process.env.OPENWEATHERMAP_API_KEY
+
+const requireApiKey = () => {
+  if (!OPENWEATHERMAP_API_KEY) {
+    throw new WeatherClientError("missing_api_key", "openweathermap", "OpenWeatherMap API key is not set")
+  }
+  return OPENWEATHERMAP_API_KEY
+}
+
+export async function getCurrentWeather(
+  { lat, lon }: Coordinates,
+  units: OwmUnits = "metric",
+  options?: RequestOptions,
+): Promise<OwmCurrentWeatherResponse> {
+  return getJson(
+    "openweathermap",
+    `${BASE_URL}/weather`,
+    { lat, lon, units, appid: requireApiKey() },
+    owmCurrentWeatherSchema,
+    options,
+  )
+}
+
+export async function getForecast(
+  { lat, lon }: Coordinates,
+  units: OwmUnits = "metric",
+  options?: RequestOptions,
+): Promise<OwmForecastResponse> {
+  return getJson(
+    "openweathermap",
+    `${BASE_URL}/forecast`,
+    { lat, lon, units, appid: requireApiKey() },
+    owmForecastSchema,
+    options,
+  )
+}
+
+export async function getAirPollution(
+  { lat, lon }: Coordinates,
+  options?: RequestOptions,
+): Promise<OwmAirPollutionResponse> {
+  return getJson(
+    "openweathermap",
+    `${BASE_URL}/air_pollution`,
+    { lat, lon, appid: requireApiKey() },
+    owmAirPollutionSchema,
+    options,
+  )
+}
+
+/** One 256px PNG tile of a weather map layer, e.g. "temp_new" (see WEATHER_LAYERS) */
+export async function getWeatherTile(
+  layer: string,
+  { zoom, x, y }: { zoom: number; x: number; y: number },
+  options: RequestOptions = {},
+): Promise<ArrayBuffer> {
+  const appid = requireApiKey()
+  try {
+    const response = await axios.get<ArrayBuffer>(`${TILE_URL}/${layer}/${zoom}/${x}/${y}.png`, {
+      params: { appid },
+      responseType: "arraybuffer",
+      signal: options.signal,
+    })
+    return response.data
+  } catch (error) {
+    throw toWeatherClientError(error, "openweathermap")
+  }
+}
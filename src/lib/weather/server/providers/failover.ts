@@ -0,0 +1,64 @@
+import { toWeatherClientError, type WeatherClientError, type WeatherErrorKind } from "@/lib/weather/errors"
+import type { RequestOptions } from "@/lib/weather/http"
+import type {
+  AirQuality,
+  CurrentConditions,
+  Forecast,
+  HistoricalDay,
+  HistoricalHour,
+  HistoricalRequest,
+  ProviderResult,
+} from "@/lib/weather/models"
+import type { WeatherProvider } from "@/lib/weather/server/providers/types"
+import type { Coordinates } from "@/lib/weather/types"
+
+/** Failures that will not be fixed by asking another provider */
+const TERMINAL_KINDS: WeatherErrorKind[] = ["aborted"]
+
+export interface WeatherService {
+  providers: WeatherProvider[]
+  getCurrent(coordinates: Coordinates, options?: RequestOptions): Promise<ProviderResult<CurrentConditions>>
+  getForecast(coordinates: Coordinates, options?: RequestOptions): Promise<ProviderResult<Forecast>>
+  getAirQuality(coordinates: Coordinates, options?: RequestOptions): Promise<ProviderResult<AirQuality>>
+  getHistorical(request: HistoricalRequest, options?: RequestOptions): Promise<ProviderResult<HistoricalDay[]>>
+  getHistoricalHourly(request: HistoricalRequest, options?: RequestOptions): Promise<ProviderResult<HistoricalHour[]>>
+}
+
+/**
+ * Tries each provider in order and returns the first successful result.
+ * If every provider fails, the error from the first provider is rethrown since it is usually the most relevant.
+ */
+async function firstSuccessful<T>(
+  providers: WeatherProvider[],
+  call: (provider: WeatherProvider) => Promise<T>,
+): Promise<ProviderResult<T>> {
+  const errors: WeatherClientError[] = []
+
+  for (const provider of providers) {
+    try {
+      return { provider: provider.id, data: await call(provider) }
+    } catch (error) {
+      const normalized = toWeatherClientError(error, provider.id)
+      if (TERMINAL_KINDS.includes(normalized.kind)) throw normalized
+      console.warn(`${provider.label} failed (${normalized.kind}), trying next provider`)
+      errors.push(normalized)
+    }
+  }
+
+  // Prefer a real upstream failure over an "unsupported" placeholder
+  throw errors.find((error) => error.kind !== "unsupported") ?? errors[0]
+}
+
+export function createWeatherService(providers: WeatherProvider[]): WeatherService {
+  if (providers.length === 0) throw new Error("createWeatherService needs at least one provider")
+
+  return {
+    providers,
+    getCurrent: (coordinates, options) => firstSuccessful(providers, (p) => p.getCurrent(coordinates, options)),
+    getForecast: (coordinates, options) => firstSuccessful(providers, (p) => p.getForecast(coordinates, options)),
+    getAirQuality: (coordinates, options) => firstSuccessful(providers, (p) => p.getAirQuality(coordinates, options)),
+    getHistorical: (request, options) => firstSuccessful(providers, (p) => p.getHistorical(request, options)),
+    getHistoricalHourly: (request, options) =>
+      firstSuccessful(providers, (p) => p.getHistoricalHourly(request, options)),
+  }
+}
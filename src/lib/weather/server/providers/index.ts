@@ -0,0 +1,17 @@
+import { openMeteoProvider } from "@/lib/weather/server/providers/open-meteo"
+import { openWeatherMapProvider } from "@/lib/weather/server/providers/openweathermap"
+import { createWeatherService } from "@/lib/weather/server/providers/failover"
+import type { ProviderId } from "@/lib/weather/models"
+import type { WeatherProvider } from "@/lib/weather/server/providers/types"
+
+export type { WeatherProvider } from "@/lib/weather/server/providers/types"
+export type { WeatherService } from "@/lib/weather/server/providers/failover"
+export { createWeatherService, openMeteoProvider, openWeatherMapProvider }
+
+export const PROVIDERS: Record<ProviderId, WeatherProvider> = {
+  "openweathermap": openWeatherMapProvider,
+  "open-meteo": openMeteoProvider,
+}
+
+/** OpenWeatherMap first for its richer current data, Open-Meteo as the keyless fallback */
+export const weatherService = createWeatherService([openWeatherMapProvider, openMeteoProvider])
@@ -0,0 +1,171 @@
+import { WeatherClientError } from "@/lib/weather/errors"
+import { PROVIDER_LABELS, type AirQualityIndex } from "@/lib/weather/models"
+import {
+  getAirQuality,
+  getCurrentConditions,
+  getDailyHistory,
+  getHourlyForecast,
+  getHourlyHistory,
+} from "@/lib/weather/server/open-meteo"
+import type { WeatherProvider } from "@/lib/weather/server/providers/types"
+import { wmoToCondition } from "@/lib/weather/server/providers/wmo"
+import { getDailyVariable, type DailyVariableValues } from "@/lib/weather/variables"
+
+/** Converts the European AQI (0-100+) to OpenWeatherMap's 1-5 bands */
+const toAirQualityIndex = (europeanAqi: number): AirQualityIndex => {
+  if (europeanAqi <= 20) return 1
+  if (europeanAqi <= 40) return 2
+  if (europeanAqi <= 60) return 3
+  if (europeanAqi <= 80) return 4
+  return 5
+}
+
+/** Open-Meteo provider. Keyless, so it doubles as the fallback when OpenWeatherMap is unavailable. */
+export const openMeteoProvider: WeatherProvider = {
+  id: "open-meteo",
+  label: PROVIDER_LABELS["open-meteo"],
+
+  async getCurrent(coordinates, options) {
+    const { current, latitude, longitude } = await getCurrentConditions(coordinates, options)
+    return {
+      coordinates: { lat: latitude, lon: longitude },
+      observedAt: current.time,
+      temperature: current.temperature_2m,
+      feelsLike: current.apparent_temperature,
+      humidity: current.relative_humidity_2m,
+      pressure: current.pressure_msl,
+      windSpeed: current.wind_speed_10m,
+      windDirection: current.wind_direction_10m,
+      cloudCover: current.cloud_cover,
+      visibility: current.visibility,
+      condition: wmoToCondition(current.weather_code, current.is_day === 1),
+    }
+  },
+
+  async getForecast(coordinates, options) {
+    const { hourly, utc_offset_seconds } = await getHourlyForecast(coordinates, 5, options)
+    const currentHour = Math.floor(Date.now() / 1000) - 3600
+
+    // Hours missing a core value are dropped rather than shown as a real 0, matching OpenWeatherMap's entries
+    const entries = hourly.time.flatMap((time, i) => {
+      const temperature = hourly.temperature_2m[i]
+      const humidity = hourly.relative_humidity_2m[i]
+      const windSpeed = hourly.wind_speed_10m[i]
+      const precipitation = hourly.precipitation[i]
+      if (temperature === null || humidity === null || windSpeed === null || precipitation === null) return []
+
+      return [
+        {
+          time,
+          temperature,
+          tempMin: temperature,
+          tempMax: temperature,
+          humidity,
+          windSpeed,
+          precipitationProbability: (hourly.precipitation_probability[i] ?? 0) / 100,
+          precipitation,
+          condition: wmoToCondition(hourly.weather_code[i], hourly.is_day[i] === 1),
+        },
+      ]
+    })
+
+    return {
+      intervalHours: 1,
+      utcOffsetSeconds: utc_offset_seconds,
+      entries: entries.filter((entry) => entry.time >= currentHour),
+    }
+  },
+
+  async getAirQuality(coordinates, options) {
+    const { current } = await getAirQuality(coordinates, options)
+    if (current.european_aqi === null) {
+      throw new WeatherClientError("not_found", "open-meteo", "No air quality index for this location")
+    }
+    return {
+      index: toAirQualityIndex(current.european_aqi),
+      components: {
+        co: current.carbon_monoxide,
+        no: null,
+        no2: current.nitrogen_dioxide,
+        o3: current.ozone,
+        so2: current.sulphur_dioxide,
+        pm2_5: current.pm2_5,
+        pm10: current.pm10,
+        nh3: current.ammonia,
+      },
+    }
+  },
+
+  async getHistorical({ lat, lon, startDate, endDate, variables = [] }, options) {
+    const rows = await getDailyHistory(
+      {
+        lat,
+        lon,
+        startDate,
+        endDate,
+        daily: [
+          "temperature_2m_max",
+          "temperature_2m_min",
+          "temperature_2m_mean",
+          "relative_humidity_2m_mean",
+          "wind_speed_10m_mean",
+          "precipitation_sum",
+          ...variables,
+        ],
+      },
+      options,
+    )
+    return rows.map((row) => {
+      const values: DailyVariableValues = {}
+      for (const key of variables) {
+        const value = row[key]
+        values[key] = value !== null && getDailyVariable(key).secondsToHours ? value / 3600 : value
+      }
+
+      return {
+        date: row.date,
+        temperatureMean: row.temperature_2m_mean,
+        temperatureMax: row.temperature_2m_max,
+        temperatureMin: row.temperature_2m_min,
+        humidityMean: row.relative_humidity_2m_mean,
+        windSpeedMean: row.wind_speed_10m_mean,
+        precipitationSum: row.precipitation_sum,
+        values,
+      }
+    })
+  },
+
+  async getHistoricalHourly({ lat, lon, startDate, endDate }, options) {
+    const rows = await getHourlyHistory(
+      {
+        lat,
+        lon,
+        startDate,
+        endDate,
+        hourly: [
+          "temperature_2m",
+          "relative_humidity_2m",
+          "precipitation",
+          "wind_speed_10m",
+          "wind_direction_10m",
+          "cloud_cover",
+          "pressure_msl",
+          "weather_code",
+          "is_day",
+        ],
+      },
+      options,
+    )
+    return rows.map((row) => ({
+      time: row.time,
+      temperature: row.temperature_2m,
+      humidity: row.relative_humidity_2m,
+      precipitation: row.precipitation,
+      windSpeed: row.wind_speed_10m,
+      windDirection: row.wind_direction_10m,
+      cloudCover: row.cloud_cover,
+      pressure: row.pressure_msl,
+      condition: row.weather_code === null ? null : wmoToCondition(row.weather_code, row.is_day === 1),
+    }))
+  },
+}
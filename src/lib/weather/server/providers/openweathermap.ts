@@ -0,0 +1,68 @@
+import { WeatherClientError } from "@/lib/weather/errors"
+import { PROVIDER_LABELS } from "@/lib/weather/models"
+import { getAirPollution, getCurrentWeather, getForecast } from "@/lib/weather/server/openweathermap"
+import type { WeatherProvider } from "@/lib/weather/server/providers/types"
+import type { OwmWeatherCondition } from "@/lib/weather/types"
+
+const toCondition = (weather: OwmWeatherCondition[]) => ({
+  description: weather[0]?.description ?? "",
+  icon: weather[0]?.icon ?? "01d",
+})
+
+/** OpenWeatherMap provider. Requires an API key and has no free historical endpoint. */
+export const openWeatherMapProvider: WeatherProvider = {
+  id: "openweathermap",
+  label: PROVIDER_LABELS["openweathermap"],
+
+  async getCurrent(coordinates, options) {
+    const data = await getCurrentWeather(coordinates, "metric", options)
+    return {
+      name: data.name,
+      country: data.sys?.country,
+      coordinates: data.coord,
+      observedAt: data.dt,
+      temperature: data.main.temp,
+      feelsLike: data.main.feels_like,
+      humidity: data.main.humidity,
+      pressure: data.main.pressure,
+      windSpeed: data.wind.speed,
+      windDirection: data.wind.deg,
+      cloudCover: data.clouds.all,
+      visibility: data.visibility,
+      condition: toCondition(data.weather),
+    }
+  },
+
+  async getForecast(coordinates, options) {
+    const data = await getForecast(coordinates, "metric", options)
+    return {
+      intervalHours: 3,
+      utcOffsetSeconds: data.city.timezone,
+      entries: data.list.map((entry) => ({
+        time: entry.dt,
+        temperature: entry.main.temp,
+        tempMin: entry.main.temp_min,
+        tempMax: entry.main.temp_max,
+        humidity: entry.main.humidity,
+        windSpeed: entry.wind.speed,
+        precipitationProbability: entry.pop,
+        precipitation: (entry.rain?.["3h"] ?? 0) + (entry.snow?.["3h"] ?? 0),
+        condition: toCondition(entry.weather),
+      })),
+    }
+  },
+
+  async getAirQuality(coordinates, options) {
+    const data = await getAirPollution(coordinates, options)
+    const { main, components } = data.list[0]
+    return { index: main.aqi, components }
+  },
+
+  async getHistorical() {
+    throw new WeatherClientError("unsupported", "openweathermap", "Historical data requires a paid OpenWeatherMap plan")
+  },
+
+  async getHistoricalHourly() {
+    throw new WeatherClientError("unsupported", "openweathermap", "Historical data requires a paid OpenWeatherMap plan")
+  },
+}
@@ -0,0 +1,26 @@
+import type { RequestOptions } from "@/lib/weather/http"
+import type {
+  AirQuality,
+  CurrentConditions,
+  Forecast,
+  HistoricalDay,
+  HistoricalHour,
+  HistoricalRequest,
+  ProviderId,
+} from "@/lib/weather/models"
+import type { Coordinates } from "@/lib/weather/types"
+
+/**
+ * A source of weather data. Implementations map their upstream payloads to the shared models
+ * and throw WeatherClientError (kind "unsupported" for data they cannot provide).
+ */
+export interface WeatherProvider {
+  id: ProviderId
+  label: string
+  getCurrent(coordinates: Coordinates, options?: RequestOptions): Promise<CurrentConditions>
+  getForecast(coordinates: Coordinates, options?: RequestOptions): Promise<Forecast>
+  getAirQuality(coordinates: Coordinates, options?: RequestOptions): Promise<AirQuality>
+  getHistorical(request: HistoricalRequest, options?: RequestOptions): Promise<HistoricalDay[]>
+  /** Hourly history for the range; `request.variables` is ignored */
+  getHistoricalHourly(request: HistoricalRequest, options?: RequestOptions): Promise<HistoricalHour[]>
+}
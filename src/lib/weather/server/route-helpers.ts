@@ -0,0 +1,101 @@
+import { NextResponse } from "next/server"
+import { differenceInCalendarDays, isAfter, isBefore, isValid, parseISO } from "date-fns"
+import { WeatherClientError, toWeatherClientError, type WeatherErrorKind } from "@/lib/weather/errors"
+import { HISTORICAL_START_DATE, MAX_HISTORICAL_RANGE_DAYS, type HistoricalRequest } from "@/lib/weather/models"
+import type { Coordinates } from "@/lib/weather/types"
+import { getWeatherLayer, isWeatherLayerId, WEATHER_LAYER_MAX_ZOOM, type WeatherLayer } from "@/lib/weather/map-layers"
+
+/**
+ * @file route-helpers.ts
+ * @description Query param validation and error responses shared by the /api route handlers.
+ * Errors are returned as `{ error: { kind, source, message } }` so the browser client can rebuild a WeatherClientError.
+ */
+
+const STATUS_BY_KIND: Record<WeatherErrorKind, number> = {
+  missing_api_key: 503,
+  unauthorized: 502,
+  rate_limited: 429,
+  not_found: 404,
+  bad_request: 400,
+  server: 502,
+  network: 502,
+  aborted: 499,
+  unsupported: 501,
+  invalid_response: 502,
+  unknown: 500,
+}
+
+const invalidParam = (message: string) => new WeatherClientError("bad_request", "api", message)
+
+export function requireParam(params: URLSearchParams, name: string): string {
+  const value = params.get(name)?.trim()
+  if (!value) throw invalidParam(`Missing required query parameter "${name}"`)
+  return value
+}
+
+export function parseCoordinates(params: URLSearchParams): Coordinates {
+  const lat = Number(requireParam(params, "lat"))
+  const lon = Number(requireParam(params, "lon"))
+
+  if (!Number.isFinite(lat) || lat < -90 || lat > 90) throw invalidParam("lat must be a number between -90 and 90")
+  if (!Number.isFinite(lon) || lon < -180 || lon > 180) throw invalidParam("lon must be a number between -180 and 180")
+
+  return { lat, lon }
+}
+
+/** Parses a yyyy-MM-dd query param */
+export function parseDateParam(params: URLSearchParams, name: string): Date {
+  const raw = requireParam(params, name)
+  const date = parseISO(raw)
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(raw) || !isValid(date)) throw invalidParam(`${name} must be a yyyy-MM-dd date`)
+  return date
+}
+
+/**
+ * Parses lat/lon/start/end of the /api/historical routes. Ranges must be in the past, start no earlier than
+ * HISTORICAL_START_DATE and span at most MAX_HISTORICAL_RANGE_DAYS; the client splits longer ranges into chunks.
+ */
+export function parseHistoricalRange(params: URLSearchParams): Omit<HistoricalRequest, "variables"> {
+  const { lat, lon } = parseCoordinates(params)
+  const startDate = parseDateParam(params, "start")
+  const endDate = parseDateParam(params, "end")
+
+  if (isBefore(endDate, startDate)) throw invalidParam("end must not be before start")
+  if (isAfter(endDate, new Date())) throw invalidParam("end must not be in the future")
+  if (isBefore(startDate, parseISO(HISTORICAL_START_DATE))) {
+    throw invalidParam(`start must not be before ${HISTORICAL_START_DATE}`)
+  }
+  if (differenceInCalendarDays(endDate, startDate) + 1 > MAX_HISTORICAL_RANGE_DAYS) {
+    throw invalidParam(`Ranges are limited to ${MAX_HISTORICAL_RANGE_DAYS} days per request`)
+  }
+
+  return { lat, lon, startDate, endDate }
+}
+
+/** Validates the path segments of a /api/tiles/:layer/:z/:x/:y request */
+export function parseTileParams(params: { layer: string; z: string; x: string; y: string }): {
+  layer: WeatherLayer
+  zoom: number
+  x: number
+  y: number
+} {
+  if (!isWeatherLayerId(params.layer)) throw invalidParam(`Unknown weather layer "${params.layer}"`)
+
+  const [zoom, x, y] = [params.z, params.x, params.y].map((segment) => (/^\d+$/.test(segment) ? Number(segment) : NaN))
+  if (!(zoom <= WEATHER_LAYER_MAX_ZOOM)) throw invalidParam(`z must be an integer between 0 and ${WEATHER_LAYER_MAX_ZOOM}`)
+
+  const tiles = 2 ** zoom
+  if (!(x < tiles) || !(y < tiles)) throw invalidParam(`x and y must be integers between 0 and ${tiles - 1} at zoom ${zoom}`)
+
+  return { layer: getWeatherLayer(params.layer), zoom, x, y }
+}
+
+export function errorResponse(error: unknown): NextResponse {
+  const normalized = toWeatherClientError(error, "api")
+  if (normalized.kind === "unknown") console.error("Unhandled API error:", error)
+
+  return NextResponse.json(
+    { error: { kind: normalized.kind, source: normalized.source, message: normalized.message } },
+    { status: STATUS_BY_KIND[normalized.kind] },
+  )
+}
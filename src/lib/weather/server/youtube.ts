@@ -0,0 +1,45 @@
+import "server-only"
+import { WeatherClientError } from "@/lib/weather/errors"
+import { getJson, type RequestOptions } from "@/lib/weather/http"
+import type { LocationVideo } from "@/lib/weather/models"
+import { youTubeSearchSchema } from "@/lib/weather/schemas"
+
+/**
+ * @file youtube.ts
+ * @description Typed client for the YouTube Data API search used to show videos about a location.
+ * Server only: the API key is read from a non-public environment variable.
+ * @requires GOOGLE_API_KEY environment variable a google key that allows for the use of the Youtube API
+ */
+
+const SEARCH_URL = "https://www.googleapis.com/youtube/v3/search"
+const GOOGLE_API_KEY = process.env.GOOGLE_API_KEY
+
+export async function searchLocationVideos(
+  locationName: string,
+  maxResults = 3,
+  options?: RequestOptions,
+): Promise<LocationVideo[]> {
+  if (!GOOGLE_API_KEY) {
+    throw new WeatherClientError("missing_api_key", "youtube", "Google API key is not set")
+  }
+
+  const data = await getJson(
+    "youtube",
+    SEARCH_URL,
+    {
+      part: "snippet",
+      q: `${locationName} tourism`,
+      type: "video",
+      maxResults,
+      key: GOOGLE_API_KEY,
+    },
+    youTubeSearchSchema,
+    options,
+  )
+
+  return data.items.map((item) => ({
+    videoId: item.id.videoId,
+    title: item.snippet.title,
+    thumbnailUrl: item.snippet.thumbnails.medium.url,
+  }))
+}
@@ -0,0 +1,246 @@
+import type { DailyVariableKey } from "@/lib/weather/variables"
+
+/**
+ * @file types.ts
+ * @description Request and response models for the external weather APIs used by the app.
+ *  - OpenWeatherMap: current weather, 5 day / 3 hour forecast and air pollution
+ *  - Open-Meteo: daily archive and forecast data
+ *  - YouTube Data API: video search results shown in the WeatherCard
+ * Field names mirror the upstream payloads so responses can be typed without remapping.
+ */
+
+export interface Coordinates {
+  lat: number
+  lon: number
+}
+
+/* ---------------------------------- OpenWeatherMap ---------------------------------- */
+
+export type OwmUnits = "standard" | "metric" | "imperial"
+
+export interface OwmWeatherCondition {
+  id: number
+  main: string
+  description: string
+  icon: string
+}
+
+export interface OwmMain {
+  temp: number
+  feels_like: number
+  temp_min: number
+  temp_max: number
+  pressure: number
+  humidity: number
+  sea_level?: number
+  grnd_level?: number
+}
+
+export interface OwmWind {
+  speed: number
+  deg: number
+  gust?: number
+}
+
+export interface OwmClouds {
+  all: number
+}
+
+export interface OwmCurrentWeatherResponse {
+  coord: Coordinates
+  weather: OwmWeatherCondition[]
+  main: OwmMain
+  visibility?: number
+  wind: OwmWind
+  clouds: OwmClouds
+  dt: number
+  sys: {
+    country?: string
+    sunrise?: number
+    sunset?: number
+  }
+  timezone: number
+  id: number
+  name: string
+}
+
+export interface OwmForecastEntry {
+  dt: number
+  main: OwmMain
+  weather: OwmWeatherCondition[]
+  clouds: OwmClouds
+  wind: OwmWind
+  visibility?: number
+  /** Probability of precipitation, 0 to 1 */
+  pop: number
+  rain?: { "3h"?: number }
+  snow?: { "3h"?: number }
+  dt_txt: string
+}
+
+export interface OwmForecastResponse {
+  cnt: number
+  list: OwmForecastEntry[]
+  city: {
+    id: number
+    name: string
+    coord: Coordinates
+    country: string
+    timezone: number
+    sunrise: number
+    sunset: number
+  }
+}
+
+/** OpenWeatherMap's AQI scale: 1 = Good ... 5 = Very Poor */
+export type OwmAirQualityIndex = 1 | 2 | 3 | 4 | 5
+
+export interface OwmAirPollutionComponents {
+  co: number
+  no: number
+  no2: number
+  o3: number
+  so2: number
+  pm2_5: number
+  pm10: number
+  nh3: number
+}
+
+export interface OwmAirPollutionEntry {
+  dt: number
+  main: { aqi: OwmAirQualityIndex }
+  components: OwmAirPollutionComponents
+}
+
+export interface OwmAirPollutionResponse {
+  coord: Coordinates
+  list: OwmAirPollutionEntry[]
+}
+
+/* ------------------------------------ Open-Meteo ------------------------------------ */
+
+export type OpenMeteoDailyVariable =
+  | DailyVariableKey
+  | "temperature_2m_max"
+  | "temperature_2m_min"
+  | "temperature_2m_mean"
+  | "relative_humidity_2m_mean"
+  | "wind_speed_10m_mean"
+  | "precipitation_sum"
+
+export interface OpenMeteoDailyRequest<V extends OpenMeteoDailyVariable = OpenMeteoDailyVariable> {
+  latitude: number
+  longitude: number
+  /** yyyy-MM-dd */
+  startDate: string
+  /** yyyy-MM-dd */
+  endDate: string
+  daily: V[]
+  timezone?: string
+}
+
+export type OpenMeteoDailySeries<V extends string> = { time: string[] } & Record<V, (number | null)[]>
+
+export interface OpenMeteoDailyResponse<V extends OpenMeteoDailyVariable = OpenMeteoDailyVariable> {
+  latitude: number
+  longitude: number
+  elevation: number
+  timezone: string
+  utc_offset_seconds: number
+  daily_units: Record<V | "time", string>
+  daily: OpenMeteoDailySeries<V>
+}
+
+export type OpenMeteoCurrentVariable =
+  | "temperature_2m"
+  | "apparent_temperature"
+  | "relative_humidity_2m"
+  | "pressure_msl"
+  | "wind_speed_10m"
+  | "wind_direction_10m"
+  | "cloud_cover"
+  | "visibility"
+  | "weather_code"
+  | "is_day"
+
+export interface OpenMeteoCurrentResponse {
+  latitude: number
+  longitude: number
+  timezone: string
+  utc_offset_seconds: number
+  current_units: Record<OpenMeteoCurrentVariable | "time" | "interval", string>
+  current: { time: number; interval: number } & Record<OpenMeteoCurrentVariable, number>
+}
+
+export type OpenMeteoHourlyVariable =
+  | "temperature_2m"
+  | "relative_humidity_2m"
+  | "wind_speed_10m"
+  | "precipitation"
+  | "precipitation_probability"
+  | "weather_code"
+  | "is_day"
+  | "wind_direction_10m"
+  | "cloud_cover"
+  | "pressure_msl"
+
+export interface OpenMeteoHourlyRequest<V extends OpenMeteoHourlyVariable = OpenMeteoHourlyVariable> {
+  latitude: number
+  longitude: number
+  /** yyyy-MM-dd */
+  startDate: string
+  /** yyyy-MM-dd */
+  endDate: string
+  hourly: V[]
+  timezone?: string
+}
+
+/** `Time` is a unix timestamp with timeformat=unixtime, or a local "yyyy-MM-ddTHH:mm" string with the default iso8601 */
+export interface OpenMeteoHourlyResponse<
+  V extends OpenMeteoHourlyVariable = OpenMeteoHourlyVariable,
+  Time extends number | string = number,
+> {
+  latitude: number
+  longitude: number
+  timezone: string
+  utc_offset_seconds: number
+  hourly_units: Record<V | "time", string>
+  hourly: { time: Time[] } & Record<V, (number | null)[]>
+}
+
+export type OpenMeteoAirQualityVariable =
+  | "european_aqi"
+  | "carbon_monoxide"
+  | "nitrogen_dioxide"
+  | "ozone"
+  | "sulphur_dioxide"
+  | "pm2_5"
+  | "pm10"
+  | "ammonia"
+
+export interface OpenMeteoAirQualityResponse {
+  latitude: number
+  longitude: number
+  current_units: Record<OpenMeteoAirQualityVariable | "time" | "interval", string>
+  current: { time: number; interval: number } & Record<OpenMeteoAirQualityVariable, number | null>
+}
+
+/* ------------------------------------- YouTube -------------------------------------- */
+
+export interface YouTubeSearchItem {
+  id: { kind: string; videoId: string }
+  snippet: {
+    title: string
+    description: string
+    channelTitle: string
+    thumbnails: {
+      default: { url: string }
+      medium: { url: string }
+      high: { url: string }
+    }
+  }
+}
+
+export interface YouTubeSearchResponse {
+  items: YouTubeSearchItem[]
+}
@@ -0,0 +1,224 @@
+/**
+ * @file units.ts
+ * @description Display units and locale for weather values, and the conversions from the metric values
+ * the app stores (°C, m/s, hPa, metres of visibility; see models.ts).
+ * Conversions are keyed by the metric unit label ("°C", "m/s", "hPa"), so registry units such as
+ * DAILY_VARIABLES' "m/s" convert the same way as the built-in fields. Precipitation always stays in mm.
+ */
+
+export type TemperatureUnit = "C" | "F" | "K"
+export type WindUnit = "m/s" | "km/h" | "mph" | "kn" | "bft"
+export type PressureUnit = "hPa" | "inHg" | "mmHg"
+export type VisibilityUnit = "km" | "mi"
+
+export interface UnitPreferences {
+  temperature: TemperatureUnit
+  wind: WindUnit
+  pressure: PressureUnit
+  visibility: VisibilityUnit
+  /** BCP 47 tag for number and date formatting; undefined follows the browser */
+  locale?: string
+}
+
+export const METRIC_UNITS: UnitPreferences = { temperature: "C", wind: "m/s", pressure: "hPa", visibility: "km" }
+
+export interface UnitOption<T extends string> {
+  value: T
+  label: string
+}
+
+export const TEMPERATURE_UNITS: UnitOption<TemperatureUnit>[] = [
+  { value: "C", label: "°C" },
+  { value: "F", label: "°F" },
+  { value: "K", label: "K" },
+]
+
+export const WIND_UNITS: UnitOption<WindUnit>[] = [
+  { value: "m/s", label: "m/s" },
+  { value: "km/h", label: "km/h" },
+  { value: "mph", label: "mph" },
+  { value: "kn", label: "kn" },
+  { value: "bft", label: "Bft" },
+]
+
+export const PRESSURE_UNITS: UnitOption<PressureUnit>[] = [
+  { value: "hPa", label: "hPa" },
+  { value: "inHg", label: "inHg" },
+  { value: "mmHg", label: "mmHg" },
+]
+
+export const VISIBILITY_UNITS: UnitOption<VisibilityUnit>[] = [
+  { value: "km", label: "km" },
+  { value: "mi", label: "mi" },
+]
+
+/** Locales offered besides the browser's own */
+export const LOCALE_OPTIONS: UnitOption<string>[] = [
+  { value: "en-US", label: "English (US)" },
+  { value: "en-GB", label: "English (UK)" },
+  { value: "de-DE", label: "Deutsch" },
+  { value: "es-ES", label: "Español" },
+  { value: "fr-FR", label: "Français" },
+  { value: "ja-JP", label: "日本語" },
+]
+
+const labelOf = <T extends string>(options: UnitOption<T>[], value: T) =>
+  options.find((option) => option.value === value)?.label ?? value
+
+/* ------------------------------------ Conversions ------------------------------------ */
+
+/** Upper bounds in m/s of Beaufort forces 0 to 11; anything faster is force 12 */
+const BEAUFORT_LIMITS = [0.5, 1.6, 3.4, 5.5, 8, 10.8, 13.9, 17.2, 20.8, 24.5, 28.5, 32.7]
+
+const HPA_PER_INHG = 33.8639
+const HPA_PER_MMHG = 1.33322
+const METRES_PER_MILE = 1609.344
+
+export function convertTemperature(celsius: number, unit: TemperatureUnit): number {
+  if (unit === "F") return (celsius * 9) / 5 + 32
+  if (unit === "K") return celsius + 273.15
+  return celsius
+}
+
+/** Converts a temperature difference; kelvins and degrees Celsius have the same size */
+export function convertTemperatureDifference(celsius: number, unit: TemperatureUnit): number {
+  return unit === "F" ? (celsius * 9) / 5 : celsius
+}
+
+export function convertWind(metresPerSecond: number, unit: WindUnit): number {
+  switch (unit) {
+    case "km/h":
+      return metresPerSecond * 3.6
+    case "mph":
+      return metresPerSecond * 2.236936
+    case "kn":
+      return metresPerSecond * 1.943844
+    case "bft": {
+      const force = BEAUFORT_LIMITS.findIndex((limit) => metresPerSecond < limit)
+      return force === -1 ? BEAUFORT_LIMITS.length : force
+    }
+    default:
+      return metresPerSecond
+  }
+}
+
+export function convertPressure(hectopascals: number, unit: PressureUnit): number {
+  if (unit === "inHg") return hectopascals / HPA_PER_INHG
+  if (unit === "mmHg") return hectopascals / HPA_PER_MMHG
+  return hectopascals
+}
+
+export function convertVisibility(metres: number, unit: VisibilityUnit): number {
+  return unit === "mi" ? metres / METRES_PER_MILE : metres / 1000
+}
+
+/**
+ * Converts a value stored in `metricUnit` into the preferred unit; units without a preference pass through.
+ * Visibility is stored in metres but has no registry label, so it goes through convertVisibility instead.
+ */
+export function fromMetric(value: number, metricUnit: string, units: UnitPreferences): number {
+  if (metricUnit === "°C") return convertTemperature(value, units.temperature)
+  if (metricUnit === "m/s") return convertWind(value, units.wind)
+  if (metricUnit === "hPa") return convertPressure(value, units.pressure)
+  return value
+}
+
+/** Label of the preferred unit for a value stored in `metricUnit`, e.g. "°F" for "°C" */
+export function unitLabel(metricUnit: string, units: UnitPreferences): string {
+  if (metricUnit === "°C") return labelOf(TEMPERATURE_UNITS, units.temperature)
+  if (metricUnit === "m/s") return labelOf(WIND_UNITS, units.wind)
+  if (metricUnit === "hPa") return labelOf(PRESSURE_UNITS, units.pressure)
+  return metricUnit
+}
+
+export const visibilityLabel = (units: UnitPreferences) => labelOf(VISIBILITY_UNITS, units.visibility)
+
+/** Inverse conversions by display label, used to read exported files back into metric values */
+const TO_METRIC: Record<string, { metricUnit: string; convert: (value: number) => number }> = {
+  "°C": { metricUnit: "°C", convert: (value) => value },
+  "°F": { metricUnit: "°C", convert: (value) => ((value - 32) * 5) / 9 },
+  K: { metricUnit: "°C", convert: (value) => value - 273.15 },
+  "m/s": { metricUnit: "m/s", convert: (value) => value },
+  "km/h": { metricUnit: "m/s", convert: (value) => value / 3.6 },
+  mph: { metricUnit: "m/s", convert: (value) => value / 2.236936 },
+  kn: { metricUnit: "m/s", convert: (value) => value / 1.943844 },
+  hPa: { metricUnit: "hPa", convert: (value) => value },
+  inHg: { metricUnit: "hPa", convert: (value) => value * HPA_PER_INHG },
+  mmHg: { metricUnit: "hPa", convert: (value) => value * HPA_PER_MMHG },
+}
+
+/** The metric unit and converter for a display label, or undefined for labels that are stored as is */
+export const toMetric = (label: string) => TO_METRIC[label]
+
+/**
+ * Units written to exported files. Beaufort forces can't be converted back to a speed, so files
+ * use m/s instead; everything else follows the preference. Each format names its units.
+ */
+export const exportUnits = (units: UnitPreferences): UnitPreferences =>
+  units.wind === "bft" ? { ...units, wind: "m/s" } : units
+
+/* ------------------------------------- Formatting ------------------------------------ */
+
+const MISSING = "–"
+
+export interface UnitFormatter {
+  units: UnitPreferences
+  /** Number with exactly `digits` decimals in the preferred locale */
+  number(value: number | null | undefined, digits?: number): string
+  /** Temperature stored in °C, e.g. "54°F" */
+  temperature(celsius: number | null | undefined, digits?: number): string
+  /** Signed temperature difference in °C, e.g. "+2.3°F" */
+  temperatureDifference(celsius: number | null | undefined, digits?: number): string
+  /** Wind speed stored in m/s, e.g. "12 km/h" or "Bft 4" */
+  wind(metresPerSecond: number | null | undefined, digits?: number): string
+  pressure(hectopascals: number | null | undefined): string
+  visibility(metres: number | null | undefined): string
+  /** Any registry value with its unit, converted when the unit has a preference */
+  value(value: number | null | undefined, metricUnit: string, digits?: number): string
+  /** Date (or unix milliseconds) in the preferred locale */
+  date(date: Date | number, options?: Intl.DateTimeFormatOptions): string
+}
+
+export function createUnitFormatter(units: UnitPreferences): UnitFormatter {
+  const numberFormats = new Map<number, Intl.NumberFormat>()
+  const numberFormat = (digits: number) => {
+    let format = numberFormats.get(digits)
+    if (!format) {
+      format = new Intl.NumberFormat(units.locale, { minimumFractionDigits: digits, maximumFractionDigits: digits })
+      numberFormats.set(digits, format)
+    }
+    return format
+  }
+
+  const number = (value: number | null | undefined, digits = 1) =>
+    value === null || value === undefined || !Number.isFinite(value) ? MISSING : numberFormat(digits).format(value)
+
+  const value = (raw: number | null | undefined, metricUnit: string, digits = 1) => {
+    if (raw === null || raw === undefined) return MISSING
+    if (metricUnit === "m/s" && units.wind === "bft") return `Bft ${convertWind(raw, "bft")}`
+    const label = unitLabel(metricUnit, units)
+    const separator = label.startsWith("°") || label === "%" ? "" : " "
+    return `${number(fromMetric(raw, metricUnit, units), digits)}${separator}${label}`
+  }
+
+  return {
+    units,
+    number,
+    temperature: (celsius, digits = 0) => value(celsius, "°C", digits),
+    temperatureDifference: (celsius, digits = 1) => {
+      if (celsius === null || celsius === undefined) return MISSING
+      // Rounding first keeps tiny differences from showing up as "+0.0" or "-0.0"
+      const rounded = Number(convertTemperatureDifference(celsius, units.temperature).toFixed(digits)) || 0
+      const label = unitLabel("°C", units)
+      return `${rounded > 0 ? "+" : ""}${number(rounded, digits)}${label.startsWith("°") ? "" : " "}${label}`
+    },
+    wind: (metresPerSecond, digits = 1) => value(metresPerSecond, "m/s", digits),
+    pressure: (hectopascals) => value(hectopascals, "hPa", units.pressure === "hPa" ? 0 : 2),
+    visibility: (metres) =>
+      metres === null || metres === undefined
+        ? MISSING
+        : `${number(convertVisibility(metres, units.visibility), 1)} ${visibilityLabel(units)}`,
+    value,
+    date: (date, options = { dateStyle: "medium" }) => new Intl.DateTimeFormat(units.locale, options).format(date),
+  }
+}
@@ -0,0 +1,57 @@
+/**
+ * @file variables.ts
+ * @description Optional Open-Meteo daily variables that can be added to a historical record.
+ * The key is the Open-Meteo variable name; values are stored in `unit` (seconds are converted to hours).
+ */
+
+export type DailyVariableKey =
+  | "rain_sum"
+  | "snowfall_sum"
+  | "precipitation_hours"
+  | "sunshine_duration"
+  | "daylight_duration"
+  | "wind_speed_10m_max"
+  | "wind_gusts_10m_max"
+  | "wind_direction_10m_dominant"
+  | "shortwave_radiation_sum"
+  | "et0_fao_evapotranspiration"
+
+export type DailyVariableGroup = "Precipitation" | "Sun" | "Wind" | "Energy & Agriculture"
+
+export interface DailyVariable {
+  key: DailyVariableKey
+  label: string
+  unit: string
+  group: DailyVariableGroup
+  /** Open-Meteo reports durations in seconds */
+  secondsToHours?: boolean
+}
+
+export const DAILY_VARIABLES: DailyVariable[] = [
+  { key: "rain_sum", label: "Rain", unit: "mm", group: "Precipitation" },
+  { key: "snowfall_sum", label: "Snowfall", unit: "cm", group: "Precipitation" },
+  { key: "precipitation_hours", label: "Precipitation Hours", unit: "h", group: "Precipitation" },
+  { key: "sunshine_duration", label: "Sunshine Duration", unit: "h", group: "Sun", secondsToHours: true },
+  { key: "daylight_duration", label: "Daylight Duration", unit: "h", group: "Sun", secondsToHours: true },
+  { key: "wind_speed_10m_max", label: "Max Wind Speed", unit: "m/s", group: "Wind" },
+  { key: "wind_gusts_10m_max", label: "Max Wind Gusts", unit: "m/s", group: "Wind" },
+  { key: "wind_direction_10m_dominant", label: "Dominant Wind Direction", unit: "°", group: "Wind" },
+  { key: "shortwave_radiation_sum", label: "Solar Radiation", unit: "MJ/m²", group: "Energy & Agriculture" },
+  { key: "et0_fao_evapotranspiration", label: "Reference Evapotranspiration (ET0)", unit: "mm", group: "Energy & Agriculture" },
+]
+
+const BY_KEY = new Map(DAILY_VARIABLES.map((variable) => [variable.key, variable]))
+
+export const isDailyVariableKey = (key: string): key is DailyVariableKey => BY_KEY.has(key as DailyVariableKey)
+
+export function getDailyVariable(key: DailyVariableKey): DailyVariable {
+  return BY_KEY.get(key) as DailyVariable
+}
+
+/** Column header used in exports, e.g. "Snowfall (cm)" */
+export const dailyVariableHeader = (key: DailyVariableKey) => {
+  const { label, unit } = getDailyVariable(key)
+  return `${label} (${unit})`
+}
+
+export type DailyVariableValues = Partial<Record<DailyVariableKey, number | null>>